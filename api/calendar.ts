@@ -0,0 +1,51 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { HipsyScraper } from '../src/scrapers/hipsy-scraper';
+import { EventTitleParser } from '../src/parsers/event-title-parser';
+import { formatICalendar } from '../src/formatters/calendar-formatter';
+import { createDJRepository } from '../src/utils/dj-repository';
+import { getEventTypeTaxonomy } from '../src/utils/event-types';
+import { VenueConfig, resolveVenue } from '../src/utils/venue-config';
+
+/**
+ * iCalendar feed of upcoming Odessa events, served at /api/calendar.ics
+ * (other venues at /api/calendar.ics?venue=<id>)
+ * Subscribe from Google/Apple Calendar - see the /calendar command
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  let venue: VenueConfig;
+  try {
+    venue = resolveVenue({ venueId: req.query['venue'] });
+  } catch {
+    return res.status(404).json({ error: 'Unknown venue' });
+  }
+
+  try {
+    const titleParser = new EventTitleParser(getEventTypeTaxonomy(venue.eventTypesPath));
+    const scraper = new HipsyScraper(undefined, titleParser);
+    scraper.setOrganisationSlug(venue.hipsyOrganisationSlug);
+    const result = await scraper.getEvents(1, 'upcoming', 50);
+
+    if (!result.success) {
+      // Calendar apps keep their last copy when the feed errors
+      console.error('Error fetching events for calendar feed:', result.error);
+      return res.status(503).json({ error: 'Event data unavailable' });
+    }
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', `inline; filename="${venue.id}.ics"`);
+    // A cached copy served while Hipsy is down is only kept briefly
+    res.setHeader(
+      'Cache-Control',
+      result.stale ? 's-maxage=300' : 's-maxage=3600, stale-while-revalidate=600'
+    );
+    const djRepository = createDJRepository(venue);
+    return res.status(200).send(await formatICalendar(result.events, { djRepository, venue }));
+  } catch (error) {
+    console.error('Error generating calendar feed:', error);
+    return res.status(500).json({ error: 'Failed to generate calendar' });
+  }
+}
@@ -0,0 +1,42 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { createCommandServices } from '../src/telegram/command-handlers';
+import { updateEventArchive } from '../src/utils/event-archive';
+import { resolveVenue } from '../src/utils/venue-config';
+
+/**
+ * Scheduled endpoint to keep the archive of past events current
+ * Called by Vercel cron daily at 04:23
+ *
+ * Adds events that have happened since the last run to the archive behind
+ * /history and the "last played" line of /dj; the first runs backfill it
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Verify this is a cron request (Vercel adds this header)
+  const authHeader = req.headers['authorization'];
+  const cronSecret = process.env['CRON_SECRET'];
+
+  // Optional: Add security check if CRON_SECRET is set
+  if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+    console.error('Unauthorized cron request');
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    // ?venue=<id> runs the job for another venue (see src/utils/venue-config.ts)
+    const venue = resolveVenue({ venueId: req.query['venue'] });
+    const services = createCommandServices(venue);
+    const result = await updateEventArchive(services.archive, services.scraper);
+
+    return res.status(200).json({
+      ok: true,
+      ...result,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error updating event archive:', error);
+    return res.status(500).json({
+      error: 'Failed to update event archive',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
@@ -0,0 +1,57 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { TelegramClient } from '../src/telegram/client';
+import { notifyFollowers } from '../src/telegram/follower-notifications';
+import { createCommandServices } from '../src/telegram/command-handlers';
+import { getVenueBotToken, resolveVenue } from '../src/utils/venue-config';
+
+/**
+ * Scheduled endpoint to tell /follow users when a DJ they follow gets booked
+ * Called by Vercel cron every hour at :07
+ *
+ * Compares upcoming Hipsy events with the ones seen on the previous run and
+ * messages followers privately about each new event
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Verify this is a cron request (Vercel adds this header)
+  const authHeader = req.headers['authorization'];
+  const cronSecret = process.env['CRON_SECRET'];
+
+  // Optional: Add security check if CRON_SECRET is set
+  if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+    console.error('Unauthorized cron request');
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    // ?venue=<id> runs the job for another venue (see src/utils/venue-config.ts)
+    const venue = resolveVenue({ venueId: req.query['venue'] });
+    const TELEGRAM_BOT_TOKEN = getVenueBotToken(venue);
+
+    if (!TELEGRAM_BOT_TOKEN) {
+      console.error(`Missing ${venue.botTokenEnv}`);
+      return res.status(500).json({ error: 'Bot not configured' });
+    }
+
+    const telegram = new TelegramClient(TELEGRAM_BOT_TOKEN);
+    const services = createCommandServices(venue);
+    const result = await notifyFollowers(telegram, {
+      follows: services.follows,
+      scraper: services.scraper,
+      djRepository: services.djRepository,
+      venueName: venue.name,
+      ticketsUrl: venue.ticketsUrl,
+    });
+
+    return res.status(200).json({
+      ok: true,
+      ...result,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error notifying DJ followers:', error);
+    return res.status(500).json({
+      error: 'Failed to notify DJ followers',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
@@ -0,0 +1,58 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { TelegramClient } from '../src/telegram/client';
+import { announceLineupChanges } from '../src/telegram/lineup-announcements';
+import { createCommandServices } from '../src/telegram/command-handlers';
+import { LineupTracker } from '../src/utils/lineup-tracker';
+import { getVenueBotToken, getVenueDataStore, resolveVenue } from '../src/utils/venue-config';
+
+/**
+ * Scheduled endpoint to announce lineup changes
+ * Called by Vercel cron every hour at :37
+ *
+ * Diffs upcoming Hipsy events against the previous run (new, cancelled and moved
+ * events, DJ swaps) and posts a "lineup update" to chats subscribed to the lineup feed
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Verify this is a cron request (Vercel adds this header)
+  const authHeader = req.headers['authorization'];
+  const cronSecret = process.env['CRON_SECRET'];
+
+  // Optional: Add security check if CRON_SECRET is set
+  if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+    console.error('Unauthorized cron request');
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    // ?venue=<id> runs the job for another venue (see src/utils/venue-config.ts)
+    const venue = resolveVenue({ venueId: req.query['venue'] });
+    const TELEGRAM_BOT_TOKEN = getVenueBotToken(venue);
+
+    if (!TELEGRAM_BOT_TOKEN) {
+      console.error(`Missing ${venue.botTokenEnv}`);
+      return res.status(500).json({ error: 'Bot not configured' });
+    }
+
+    const telegram = new TelegramClient(TELEGRAM_BOT_TOKEN);
+    const services = createCommandServices(venue);
+    const result = await announceLineupChanges(telegram, {
+      tracker: new LineupTracker(getVenueDataStore(venue)),
+      scraper: services.scraper,
+      subscriptions: services.subscriptions,
+    });
+
+    return res.status(200).json({
+      ok: true,
+      changes: result.changes.length,
+      successful: result.broadcast?.successful ?? 0,
+      failed: result.broadcast?.failed ?? 0,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error announcing lineup changes:', error);
+    return res.status(500).json({
+      error: 'Failed to announce lineup changes',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
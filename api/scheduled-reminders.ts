@@ -0,0 +1,55 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { TelegramClient } from '../src/telegram/client';
+import { deliverDueReminders } from '../src/telegram/reminder-delivery';
+import { createCommandServices } from '../src/telegram/command-handlers';
+import { WhosPlayingFormatter } from '../src/formatters/whosplaying-formatter';
+import { getVenueBotToken, resolveVenue } from '../src/utils/venue-config';
+
+/**
+ * Scheduled endpoint to deliver personal /remindme reminders
+ * Called by Vercel cron every 15 minutes, so reminders arrive at most ~15 minutes late
+ *
+ * Reminders are sent to the user's private chat with the DJ photo and ticket button
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Verify this is a cron request (Vercel adds this header)
+  const authHeader = req.headers['authorization'];
+  const cronSecret = process.env['CRON_SECRET'];
+
+  // Optional: Add security check if CRON_SECRET is set
+  if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+    console.error('Unauthorized cron request');
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    // ?venue=<id> runs the job for another venue (see src/utils/venue-config.ts)
+    const venue = resolveVenue({ venueId: req.query['venue'] });
+    const TELEGRAM_BOT_TOKEN = getVenueBotToken(venue);
+
+    if (!TELEGRAM_BOT_TOKEN) {
+      console.error(`Missing ${venue.botTokenEnv}`);
+      return res.status(500).json({ error: 'Bot not configured' });
+    }
+
+    const telegram = new TelegramClient(TELEGRAM_BOT_TOKEN);
+    const services = createCommandServices(venue);
+    const result = await deliverDueReminders(telegram, {
+      reminders: services.reminders,
+      scraper: services.scraper,
+      formatter: new WhosPlayingFormatter(services.djRepository, services.eventTypes, venue),
+    });
+
+    return res.status(200).json({
+      ok: true,
+      ...result,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error delivering reminders:', error);
+    return res.status(500).json({
+      error: 'Failed to deliver reminders',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
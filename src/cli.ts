@@ -1,7 +1,23 @@
 #!/usr/bin/env node
 
+import { readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
 import { OdessaTodayGenerator } from './index';
 import { OdessaBot } from './telegram/bot';
+import {
+  createHipsyReplayServer,
+  getHipsyFixturesDir,
+  recordHipsyFixtures,
+} from './scrapers/hipsy-fixtures';
+import { DJDatabase } from './types/dj';
+import {
+  buildSyncedDJDatabase,
+  diffDJDatabases,
+  formatDJSyncDiff,
+  serializeDJDatabase,
+} from './utils/dj-sync';
+import { getDefaultVenue } from './utils/venue-config';
+import { WixDJLoader } from './utils/wix-dj-loader';
 
 async function main() {
   const command = process.argv[2];
@@ -18,6 +34,15 @@ async function main() {
     case 'run':
       await runBot();
       break;
+    case 'record-hipsy':
+      await recordHipsy(process.argv[3]);
+      break;
+    case 'replay-hipsy':
+      replayHipsy(process.argv[3]);
+      break;
+    case 'sync-djs':
+      await syncDJs(process.argv.includes('--dry-run'));
+      break;
     default:
       showHelp();
   }
@@ -100,6 +125,66 @@ async function runBot() {
   }
 }
 
+async function recordHipsy(slug?: string) {
+  const organisationSlug =
+    slug ?? process.env['HIPSY_ORGANISATION_SLUG'] ?? 'odessa-amsterdam-ecstatic-dance';
+  const directory = getHipsyFixturesDir();
+  console.log(`📼 Recording Hipsy responses for ${organisationSlug}...`);
+
+  try {
+    const files = await recordHipsyFixtures({
+      slug: organisationSlug,
+      directory,
+      apiKey: process.env['HIPSY_API_KEY'],
+    });
+    console.log(`✅ Saved ${files.length} responses to ${directory}/${organisationSlug}`);
+    console.log('▶️  Serve them with: npm run cli replay-hipsy');
+  } catch (error) {
+    console.error('❌ Failed to record Hipsy responses:', error);
+  }
+}
+
+function replayHipsy(port = '4010') {
+  const directory = getHipsyFixturesDir();
+  const server = createHipsyReplayServer(directory);
+
+  server.listen(Number(port), () => {
+    console.log(`📼 Replaying Hipsy recordings from ${directory}`);
+    console.log(`🔗 Run the bot or CLI with HIPSY_BASE_URL=http://localhost:${port}/v1`);
+    console.log('⏹️  Press Ctrl+C to stop');
+  });
+}
+
+async function syncDJs(dryRun: boolean) {
+  const filePath = join(process.cwd(), getDefaultVenue().djDatabasePath);
+  console.log(`🔄 Syncing ${filePath} with the Wix Team collection...`);
+
+  try {
+    const current = JSON.parse(readFileSync(filePath, 'utf-8')) as DJDatabase;
+    const wixDJLoader = new WixDJLoader();
+    const wixItems = await wixDJLoader.loadAllDJs();
+    const synced = buildSyncedDJDatabase(current, wixItems, url =>
+      wixDJLoader.convertWixImageUrl(url)
+    );
+
+    const diff = diffDJDatabases(current, synced);
+    console.log(`\n${formatDJSyncDiff(diff)}\n`);
+
+    const text = serializeDJDatabase(synced);
+    if (dryRun) {
+      console.log('👀 Dry run, djs.json not saved');
+    } else if (text === readFileSync(filePath, 'utf-8')) {
+      console.log('✅ djs.json is up to date');
+    } else {
+      writeFileSync(filePath, text);
+      console.log(`✅ Saved ${Object.keys(synced).length} DJs to ${filePath}`);
+    }
+  } catch (error) {
+    console.error('❌ Failed to sync DJs:', error);
+    process.exitCode = 1;
+  }
+}
+
 function showHelp() {
   console.log(`
 Usage: npm run cli <command>
@@ -108,11 +193,17 @@ Commands:
   whosplaying  - Generate today's schedule (without posting)
   test         - Test bot connection
   run          - Start interactive bot with command handling
+  record-hipsy [slug]  - Save raw Hipsy responses to HIPSY_FIXTURES_DIR
+  replay-hipsy [port]  - Serve recorded responses as a local Hipsy API (default port 4010)
+  sync-djs [--dry-run] - Rebuild djs.json from the Wix Team collection, printing what changed
 
 Examples:
   npm run cli whosplaying
   npm run cli test
   npm run cli run
+  npm run cli record-hipsy
+  npm run cli sync-djs -- --dry-run
+  HIPSY_BASE_URL=http://localhost:4010/v1 npm run cli whosplaying
   `);
 }
 
@@ -0,0 +1,167 @@
+import { utcToZonedTime } from 'date-fns-tz';
+import { Event } from '../types/event';
+import { DJRepository, createDJRepository } from '../utils/dj-repository';
+import { VenueConfig, getDefaultVenue } from '../utils/venue-config';
+
+const AMSTERDAM_TIMEZONE = 'Europe/Amsterdam';
+
+// Europe/Amsterdam rules (EU DST: last Sunday of March and October)
+const AMSTERDAM_VTIMEZONE = [
+  'BEGIN:VTIMEZONE',
+  `TZID:${AMSTERDAM_TIMEZONE}`,
+  'BEGIN:DAYLIGHT',
+  'TZOFFSETFROM:+0100',
+  'TZOFFSETTO:+0200',
+  'TZNAME:CEST',
+  'DTSTART:19700329T020000',
+  'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU',
+  'END:DAYLIGHT',
+  'BEGIN:STANDARD',
+  'TZOFFSETFROM:+0200',
+  'TZOFFSETTO:+0100',
+  'TZNAME:CET',
+  'DTSTART:19701025T030000',
+  'RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU',
+  'END:STANDARD',
+  'END:VTIMEZONE',
+];
+
+/**
+ * Build an RFC 5545 iCalendar feed of a venue's events (Odessa by default).
+ * Start and end times are written in Amsterdam local time with a VTIMEZONE,
+ * so calendar apps keep them right across DST changes.
+ */
+export async function formatICalendar(
+  events: Event[],
+  options: { djRepository?: DJRepository; venue?: VenueConfig; now?: Date } = {}
+): Promise<string> {
+  const venue = options.venue ?? getDefaultVenue();
+  const djRepository = options.djRepository ?? createDJRepository(venue);
+  const stamp = formatUtcDateTime(options.now ?? new Date());
+  const location = [venue.name, ...venue.address].join(', ');
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:-//${venue.calendarName}//Odessa Telegram Bot//EN`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(venue.calendarName)}`,
+    `X-WR-TIMEZONE:${AMSTERDAM_TIMEZONE}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT6H',
+    ...AMSTERDAM_VTIMEZONE,
+  ];
+
+  const descriptions = await Promise.all(
+    events.map(event => buildDescription(event, djRepository))
+  );
+  events.forEach((event, index) => {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:hipsy-${event.id}@odessa.amsterdam`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;TZID=${AMSTERDAM_TIMEZONE}:${formatAmsterdamDateTime(event.date)}`
+    );
+    if (event.endDate) {
+      lines.push(`DTEND;TZID=${AMSTERDAM_TIMEZONE}:${formatAmsterdamDateTime(event.endDate)}`);
+    }
+    lines.push(
+      `SUMMARY:${escapeText(event.title)}`,
+      `DESCRIPTION:${escapeText(descriptions[index] ?? '')}`,
+      `LOCATION:${escapeText(location)}`,
+      `GEO:${venue.latitude};${venue.longitude}`
+    );
+    if (event.ticketUrl) {
+      lines.push(`URL:${event.ticketUrl}`);
+    }
+    lines.push('END:VEVENT');
+  });
+
+  lines.push('END:VCALENDAR');
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+}
+
+/**
+ * DJ bios, followed by the ticket link
+ */
+async function buildDescription(event: Event, djRepository: DJRepository): Promise<string> {
+  const parts = await Promise.all(
+    djRepository.resolveEventDJNames(event).map(async djName => {
+      const description = (await djRepository.getProfile(djName))?.shortDescription;
+      return description ? `${djName}: ${description}` : djName;
+    })
+  );
+
+  if (event.ticketUrl) {
+    parts.push(`Tickets: ${event.ticketUrl}`);
+  }
+  return parts.join('\n\n');
+}
+
+/**
+ * Escape TEXT values (RFC 5545 3.3.11)
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold content lines longer than 75 octets without splitting UTF-8 characters
+ */
+function foldLine(line: string): string {
+  if (Buffer.byteLength(line, 'utf-8') <= 75) {
+    return line;
+  }
+
+  const chunks: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char, 'utf-8');
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      chunks.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+}
+
+function formatAmsterdamDateTime(date: string): string {
+  const local = utcToZonedTime(new Date(date), AMSTERDAM_TIMEZONE);
+  return formatDateTimeParts(
+    local.getFullYear(),
+    local.getMonth() + 1,
+    local.getDate(),
+    local.getHours(),
+    local.getMinutes(),
+    local.getSeconds()
+  );
+}
+
+function formatUtcDateTime(date: Date): string {
+  return `${formatDateTimeParts(
+    date.getUTCFullYear(),
+    date.getUTCMonth() + 1,
+    date.getUTCDate(),
+    date.getUTCHours(),
+    date.getUTCMinutes(),
+    date.getUTCSeconds()
+  )}Z`;
+}
+
+function formatDateTimeParts(...parts: number[]): string {
+  const [year, month, day, hours, minutes, seconds] = parts.map((part, index) =>
+    part.toString().padStart(index === 0 ? 4 : 2, '0')
+  );
+  return `${year}${month}${day}T${hours}${minutes}${seconds}`;
+}
@@ -1,27 +1,25 @@
-import { DJDatabase } from '../types/dj';
+import { DJProfile } from '../types/dj';
 import { escapeTelegramHtml } from '../telegram/formatting';
 
-const ALIAS_NAMES = new Set(['Faralduin', 'Ma-rifa']);
-
-function getPreferredDJLink(info: DJDatabase[string]): string | undefined {
-  return info.soundcloud || info.link || info.website || info.instagram;
+function getPreferredDJLink(profile: DJProfile): string | undefined {
+  return profile.soundcloudUrl || profile.website || profile.instagramUrl;
 }
 
-export function formatDJsList(djData: DJDatabase): string {
-  const names = Object.keys(djData)
-    .filter(name => !ALIAS_NAMES.has(name))
-    .sort((a, b) => a.localeCompare(b, 'en', { sensitivity: 'base' }));
+export function formatDJsList(profiles: DJProfile[], venueName = 'Odessa'): string {
+  const heading = `🎧 <b>${escapeTelegramHtml(venueName)} DJs</b>`;
+  const listed = [...profiles].sort((a, b) =>
+    a.name.localeCompare(b.name, 'en', { sensitivity: 'base' })
+  );
 
-  if (names.length === 0) {
-    return '🎧 <b>Odessa DJs</b>\n\nNo DJs found yet.';
+  if (listed.length === 0) {
+    return `${heading}\n\nNo DJs found yet.`;
   }
 
-  const lines = names.map(name => {
-    const info = djData[name];
-    const safeName = escapeTelegramHtml(name);
-    const url = info ? getPreferredDJLink(info) : undefined;
+  const lines = listed.map(profile => {
+    const safeName = escapeTelegramHtml(profile.name);
+    const url = getPreferredDJLink(profile);
     return url ? `• <a href="${escapeTelegramHtml(url)}">${safeName}</a>` : `• ${safeName}`;
   });
 
-  return `🎧 <b>Odessa DJs</b>\n\n${lines.join('\n')}\n\nUse /dj name for a full profile.`;
+  return `${heading}\n\n${lines.join('\n')}\n\nUse /dj name for a full profile.`;
 }
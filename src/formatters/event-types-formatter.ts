@@ -0,0 +1,37 @@
+import { EventTypeDefinition, EventTypeTaxonomy } from '../utils/event-types';
+import { bold, escapeTelegramHtml, italic } from '../telegram/formatting';
+
+/**
+ * Types that have /types copy, in file order
+ */
+export function getDescribedEventTypes(taxonomy: EventTypeTaxonomy): EventTypeDefinition[] {
+  return taxonomy.list().filter(type => type.description);
+}
+
+function formatEventType(type: EventTypeDefinition, showMembership: boolean): string {
+  const heading = type.shortName === type.name ? type.name : `${type.name} (${type.shortName})`;
+  const lines = [`${type.emoji} ${bold(heading)}`, type.description ?? ''];
+  if (type.sundayMorning) {
+    lines.push(`Sunday mornings are "${escapeTelegramHtml(type.sundayMorning.shortName)}"!`);
+  }
+  if (showMembership && type.includedInMembership) {
+    lines.push(italic('Included in the membership'));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * /types text. Descriptions and the footer are venue copy and may contain HTML;
+ * membership inclusion is only shown for venues with a membership.
+ */
+export function formatEventTypes(
+  taxonomy: EventTypeTaxonomy,
+  options: { venueName?: string; showMembership?: boolean } = {}
+): string {
+  const heading = `🎭 ${bold(`Event Types at ${options.venueName ?? 'Odessa'}`)}`;
+  const sections = getDescribedEventTypes(taxonomy).map(type =>
+    formatEventType(type, options.showMembership ?? false)
+  );
+  const footer = taxonomy.footer ? `\n\n━━━━━━━━━━━━━━━━━━━━━\n${taxonomy.footer}` : '';
+  return `${heading}\n\n${sections.join('\n\n')}${footer}`;
+}
@@ -0,0 +1,69 @@
+import { utcToZonedTime } from 'date-fns-tz';
+import { Event } from '../types/event';
+import { ArchivedEvent } from '../utils/event-archive';
+import {
+  bold,
+  escapeTelegramHtml,
+  formatShortEventDate,
+  getMonthName,
+} from '../telegram/formatting';
+
+const RECENT_LIMIT = 10;
+
+/**
+ * "12 Oct 2026" in Amsterdam time; past gigs need the year, upcoming ones don't
+ */
+function formatArchiveDate(date: string): string {
+  const day = utcToZonedTime(new Date(date), 'Europe/Amsterdam');
+  return `${day.getDate()} ${getMonthName(day.getMonth())} ${day.getFullYear()}`;
+}
+
+/**
+ * "⏮️ Last played 12 Oct 2026 · ⏭️ Next playing Fri 25 Oct 20:00" for /dj profiles;
+ * empty when the DJ has neither
+ */
+export function formatPlayedLine(last?: ArchivedEvent, next?: Event): string {
+  const parts: string[] = [];
+  if (last) {
+    parts.push(`⏮️ Last played ${formatArchiveDate(last.date)}`);
+  }
+  if (next) {
+    parts.push(`⏭️ Next playing ${formatShortEventDate(next.date)}`);
+  }
+  return escapeTelegramHtml(parts.join(' · '));
+}
+
+/**
+ * /history text: how often and when a DJ played, their next booking and
+ * the most recent gigs. `played` is oldest first.
+ */
+export function formatDJHistory(
+  djName: string,
+  played: ArchivedEvent[],
+  next?: Event,
+  venueName = 'Odessa'
+): string {
+  let text = `📜 ${bold(`${djName} at ${venueName}`)}`;
+
+  const first = played[0];
+  const last = played[played.length - 1];
+  if (!first || !last) {
+    text += `\n\nNo past events with ${escapeTelegramHtml(djName)} in the archive yet.`;
+  } else {
+    const times = played.length === 1 ? 'once' : `${played.length} times`;
+    text += `\n\n🎧 Played ${times} since ${escapeTelegramHtml(formatArchiveDate(first.date))}`;
+    text += `\n⏮️ Last played: ${escapeTelegramHtml(`${formatArchiveDate(last.date)} — ${last.title}`)}`;
+  }
+  if (next) {
+    text += `\n⏭️ Next playing: ${escapeTelegramHtml(`${formatShortEventDate(next.date)} — ${next.title}`)}`;
+  }
+
+  if (played.length > 1) {
+    const recent = played
+      .slice(-RECENT_LIMIT)
+      .reverse()
+      .map(event => `• ${escapeTelegramHtml(`${formatArchiveDate(event.date)} — ${event.title}`)}`);
+    text += `\n\n${bold('Recent')}\n${recent.join('\n')}`;
+  }
+  return text;
+}
@@ -0,0 +1,29 @@
+import { LineupChange } from '../utils/lineup-tracker';
+import { bold, escapeTelegramHtml, formatShortEventDate } from '../telegram/formatting';
+
+/**
+ * Short "lineup update" post for subscribed groups
+ */
+export function formatLineupUpdate(changes: LineupChange[]): string {
+  const lines = changes.map(change => {
+    const when = escapeTelegramHtml(formatShortEventDate(change.event.date));
+    const title = escapeTelegramHtml(change.event.title);
+
+    switch (change.type) {
+      case 'added':
+        return `🆕 ${bold('New')}: ${when} — ${title}`;
+      case 'cancelled':
+        return `❌ ${bold('Cancelled')}: ${when} — ${title}`;
+      case 'moved':
+        return `🕐 ${bold('Moved')}: ${title} — ${escapeTelegramHtml(formatShortEventDate(change.previousDate))} → ${when}`;
+      case 'dj_changed':
+        return `🔄 ${bold('DJ change')}: ${when} — ${formatDJNames(change.previousDJNames)} → ${formatDJNames(change.event.djNames)}`;
+    }
+  });
+
+  return `📣 <b>Lineup update</b>\n\n${lines.join('\n')}\n\nFull week: /schedule`;
+}
+
+function formatDJNames(djNames: string[]): string {
+  return djNames.length > 0 ? bold(djNames.join(' & ')) : 'TBA';
+}
@@ -1,39 +1,47 @@
 import { Event } from '../types/event';
-import { DJLoader } from '../utils/dj-loader';
+import { DJProfile } from '../types/dj';
+import { DJRepository, createDJRepository } from '../utils/dj-repository';
+import { VenueConfig, getDefaultVenue } from '../utils/venue-config';
+import { EventTypeTaxonomy, getEventTypeTaxonomy } from '../utils/event-types';
 import { utcToZonedTime } from 'date-fns-tz';
-import { sanitizeUrl } from '../utils/url-validator';
-import { blockquote, bold, escapeTelegramHtml } from '../telegram/formatting';
+import { EventDescriptionParser } from '../parsers/event-description-parser';
+import { isValidUrl, sanitizeUrl } from '../utils/url-validator';
+import {
+  blockquote,
+  bold,
+  escapeTelegramHtml,
+  formatDescriptionQuote,
+  fitsInCaption,
+  formatDuration,
+  formatTicketBadge,
+  formatTimeRange,
+  getMonthName,
+} from '../telegram/formatting';
+import { InlineKeyboard } from '../telegram/command-registry';
 
 export class WhosPlayingFormatter {
-  private djLoader: DJLoader;
+  private djRepository: DJRepository;
+  private eventTypes: EventTypeTaxonomy;
+  /** Ticket link for events without one of their own */
+  private ticketsUrl: string;
   private amsterdamTimezone = 'Europe/Amsterdam';
-
-  constructor() {
-    this.djLoader = new DJLoader();
+  private descriptionParser = new EventDescriptionParser();
+
+  constructor(
+    djRepository: DJRepository = createDJRepository(getDefaultVenue()),
+    eventTypes: EventTypeTaxonomy = getEventTypeTaxonomy(),
+    venue: VenueConfig = getDefaultVenue()
+  ) {
+    this.djRepository = djRepository;
+    this.eventTypes = eventTypes;
+    this.ticketsUrl = venue.ticketsUrl;
   }
 
   /**
-   * Get DJ info from local database
+   * Get DJ info from the DJ repository
    */
-  private getDJInfo(djName: string): {
-    name: string;
-    photo?: string | undefined;
-    shortDescription?: string | undefined;
-    soundcloudUrl?: string | undefined;
-    instagramUrl?: string | undefined;
-    website?: string | undefined;
-  } | null {
-    const info = this.djLoader.getDJInfo(djName);
-    if (!info) return null;
-
-    return {
-      name: djName,
-      photo: info.photo,
-      shortDescription: info.shortDescription,
-      soundcloudUrl: info.soundcloud || info.link,
-      instagramUrl: info.instagram,
-      website: info.website,
-    };
+  private async getDJInfo(djName: string): Promise<DJProfile | null> {
+    return this.djRepository.getProfile(djName);
   }
 
   /**
@@ -53,49 +61,62 @@ export class WhosPlayingFormatter {
   }
 
   /**
-   * Get time text for event (Today for Sunday morning, Tonight for others)
+   * Get time text for event ("today" for daytime events, "tonight" for the rest)
+   * Events that are over by 18:00 Amsterdam time are daytime; without an end
+   * time, events starting before 16:00 are.
    * Returns lowercase version - capitalize when using as first word
    */
-  private getTimeText(eventDate: string): string {
-    const date = new Date(eventDate);
-    const dayOfWeek = date.getDay(); // 0 = Sunday, 1 = Monday, etc.
-    const hour = date.getHours();
-
-    // Sunday morning events (before 4 PM) use "Today"
-    if (dayOfWeek === 0 && hour < 16) {
-      return 'today';
+  private getTimeText(event: Pick<Event, 'date' | 'endDate'>): string {
+    const start = utcToZonedTime(new Date(event.date), this.amsterdamTimezone);
+
+    if (event.endDate) {
+      const end = utcToZonedTime(new Date(event.endDate), this.amsterdamTimezone);
+      const endsSameDay = end.toDateString() === start.toDateString();
+      return endsSameDay && end.getHours() * 60 + end.getMinutes() <= 18 * 60 ? 'today' : 'tonight';
     }
 
-    // All other events use "tonight"
-    return 'tonight';
+    return start.getHours() < 16 ? 'today' : 'tonight';
   }
 
   /**
-   * Format event type for display
+   * Format event type for display (Sunday EDs are "Morning Ecstatic Dance")
    */
   private formatEventType(eventType?: string, eventDate?: string): string {
-    switch (eventType) {
-      case 'ED':
-        // Check if it's Sunday for Morning Ecstatic Dance
-        if (eventDate) {
-          const date = new Date(eventDate);
-          if (date.getDay() === 0) {
-            // Sunday
-            return 'Morning Ecstatic Dance';
-          }
-        }
-        return 'Ecstatic Dance';
-      case 'Cacao ED':
-        return 'Cacao Ecstatic Dance';
-      case 'Live Music':
-        return 'Live Music';
-      case 'Queerstatic':
-        return 'Queerstatic';
-      case 'Ecstatic Journey':
-        return 'Journey';
-      default:
-        return 'Event';
-    }
+    return this.eventTypes.getDisplayName(eventType, eventDate ? { date: eventDate } : {});
+  }
+
+  /**
+   * "\n🕗 20:00–23:30 (3h 30m)" under the event line
+   */
+  private formatTimeLine(event: Event): string {
+    const duration = formatDuration(event);
+    return `\n🕗 ${escapeTelegramHtml(formatTimeRange(event))}${duration ? ` (${escapeTelegramHtml(duration)})` : ''}`;
+  }
+
+  /**
+   * "\n🎟️ SOLD OUT" under the event line; empty when there is no badge
+   */
+  private formatTicketLine(event: Event): string {
+    const badge = formatTicketBadge(event);
+    return badge ? `\n🎟️ ${escapeTelegramHtml(badge)}` : '';
+  }
+
+  /**
+   * "\n\n<blockquote expandable>…" with the event description summary;
+   * empty without a description
+   */
+  private formatDetails(event: Event): string {
+    const quote = formatDescriptionQuote(this.descriptionParser.parse(event.description ?? ''));
+    return quote ? `\n\n${quote}` : '';
+  }
+
+  /**
+   * Event text with the description quote between the event lines and the DJ
+   * bio; the quote is left out when a photo caption would get too long for Telegram
+   */
+  private withDetails(head: string, event: Event, bio: string, asCaption: boolean): string {
+    const text = `${head}${this.formatDetails(event)}${bio}`;
+    return asCaption && !fitsInCaption(text) ? `${head}${bio}` : text;
   }
 
   /**
@@ -105,7 +126,7 @@ export class WhosPlayingFormatter {
     if (events.length === 1) {
       // Single event - use event-based logic for time text
       const event = events[0]!;
-      const timeTextLower = this.getTimeText(event.date);
+      const timeTextLower = this.getTimeText(event);
       const timeText = timeTextLower.charAt(0).toUpperCase() + timeTextLower.slice(1);
 
       // Single event - check if it's a B2B event
@@ -119,12 +140,9 @@ export class WhosPlayingFormatter {
         return `🌟 ${bold(timeText)} with ${bold(djName)} ✨`;
       }
     } else {
-      // Multiple events - check if any are Sunday morning, otherwise use "Tonight"
-      const hasSundayMorning = events.some(event => {
-        const date = new Date(event.date);
-        return date.getDay() === 0 && date.getHours() < 16;
-      });
-      const timeText = hasSundayMorning ? 'Today' : 'Tonight';
+      // Multiple events - "Today" when any of them is a daytime event, otherwise "Tonight"
+      const hasDaytimeEvent = events.some(event => this.getTimeText(event) === 'today');
+      const timeText = hasDaytimeEvent ? 'Today' : 'Tonight';
 
       // Multiple events - create a more dynamic intro
       const uniqueDJs = new Set<string>();
@@ -160,6 +178,51 @@ export class WhosPlayingFormatter {
     }
   }
 
+  /**
+   * Format a personal /remindme reminder for an upcoming event
+   * Uses the same DJ photo and ticket/listen buttons as the today schedule
+   */
+  async formatEventReminder(
+    event: Event,
+    leadTimeLabel: string
+  ): Promise<{ text: string; photos?: string[]; keyboard?: InlineKeyboard }> {
+    const eventType = this.formatEventType(event.eventType, event.date);
+    const djNames =
+      event.djNames && event.djNames.length > 1 ? event.djNames : [event.djName ?? 'TBA'];
+    const djInfos = await Promise.all(djNames.map(djName => this.getDJInfo(djName)));
+    const displayNames = djNames.map((djName, index) => djInfos[index]?.name ?? djName);
+
+    const eventDate = utcToZonedTime(new Date(event.date), this.amsterdamTimezone);
+    const dateText = `${this.getDayName(eventDate)} ${eventDate.getDate()} ${getMonthName(eventDate.getMonth())} at ${formatTimeRange(event)}`;
+
+    let text = `⏰ ${bold('Reminder')}: ${escapeTelegramHtml(eventType)} with ${bold(displayNames.join(' & '))} starts in ${escapeTelegramHtml(leadTimeLabel)}\n\n🗓️ ${escapeTelegramHtml(dateText)}`;
+
+    // Only single-DJ events get a bio, B2B reminders stay short
+    const djInfo = djInfos.find(info => info !== null) ?? null;
+    if (djInfos.length === 1 && djInfo?.shortDescription) {
+      text += `\n\n${blockquote(djInfo.shortDescription, { expandable: true })}`;
+    }
+
+    const buttons: Array<{ text: string; url: string }> = [];
+
+    const ticketUrl = sanitizeUrl(event.ticketUrl, this.ticketsUrl);
+    if (ticketUrl) {
+      buttons.push({ text: '🎟️ TICKETS', url: ticketUrl });
+    }
+
+    if (djInfo?.soundcloudUrl && isValidUrl(djInfo.soundcloudUrl)) {
+      buttons.push({ text: '🎧 LISTEN', url: djInfo.soundcloudUrl });
+    }
+
+    const photo = djInfos.find(info => info?.photo)?.photo;
+
+    return {
+      text,
+      ...(photo ? { photos: [photo] } : {}),
+      ...(buttons.length > 0 ? { keyboard: { inline_keyboard: [buttons] } } : {}),
+    };
+  }
+
   /**
    * Format today's schedule specifically (legacy method for backward compatibility)
    */
@@ -199,7 +262,7 @@ export class WhosPlayingFormatter {
       return [
         {
           text: buttonText,
-          url: sanitizeUrl(event.ticketUrl),
+          url: sanitizeUrl(event.ticketUrl, this.ticketsUrl),
         },
       ];
     });
@@ -229,7 +292,6 @@ export class WhosPlayingFormatter {
   }> {
     console.log('🎭 Formatting enhanced today schedule...');
     console.log(`📊 Processing ${events.length} events`);
-    console.log('🔍 DJLoader available:', !!this.djLoader);
 
     if (events.length === 0) {
       return { text: "🎭 <b>Today's Schedule</b>\n\nNo events scheduled for today." };
@@ -273,18 +335,18 @@ export class WhosPlayingFormatter {
 
       // Create intro message mentioning the B2B
       // Use the same time logic as single events - capitalize when first word
-      const timeTextLower = this.getTimeText(event.date);
+      const timeTextLower = this.getTimeText(event);
       const timeText = timeTextLower.charAt(0).toUpperCase() + timeTextLower.slice(1);
 
       const introMessage = {
-        text: `🌟 ${escapeTelegramHtml(timeText)} with ${bold(event.djNames.join(' & '))} ✨\n\n🎶 ${escapeTelegramHtml(eventType)} B2B 🎶`,
+        text: `🌟 ${escapeTelegramHtml(timeText)} with ${bold(event.djNames.join(' & '))} ✨\n\n🎶 ${escapeTelegramHtml(eventType)} B2B 🎶${this.formatTimeLine(event)}${this.formatTicketLine(event)}${this.formatDetails(event)}`,
       };
       messages.push(introMessage);
 
       // Create separate message for each DJ in the B2B event
       for (const djName of event.djNames) {
         // Get enhanced DJ info from Wix with fallback
-        const djInfo = this.getDJInfo(djName);
+        const djInfo = await this.getDJInfo(djName);
 
         // For B2B events, just show the description without repetitive event text
         let eventText = '';
@@ -298,33 +360,24 @@ export class WhosPlayingFormatter {
         const buttons: Array<{ text: string; url: string }> = [];
 
         // Tickets button
-        const ticketUrl = sanitizeUrl(event.ticketUrl);
+        const ticketUrl = sanitizeUrl(event.ticketUrl, this.ticketsUrl);
         if (ticketUrl) {
           buttons.push({ text: '🎟️ TICKETS', url: ticketUrl });
         }
 
         // SoundCloud button if available
-        if (djInfo?.soundcloudUrl) {
-          const soundcloudUrl = sanitizeUrl(djInfo.soundcloudUrl);
-          if (soundcloudUrl) {
-            buttons.push({ text: '🎧 LISTEN', url: soundcloudUrl });
-          }
+        if (djInfo?.soundcloudUrl && isValidUrl(djInfo.soundcloudUrl)) {
+          buttons.push({ text: '🎧 LISTEN', url: djInfo.soundcloudUrl });
         }
 
         // Instagram button if available
-        if (djInfo?.instagramUrl) {
-          const instagramUrl = sanitizeUrl(djInfo.instagramUrl);
-          if (instagramUrl) {
-            buttons.push({ text: '📸 INSTAGRAM', url: instagramUrl });
-          }
+        if (djInfo?.instagramUrl && isValidUrl(djInfo.instagramUrl)) {
+          buttons.push({ text: '📸 INSTAGRAM', url: djInfo.instagramUrl });
         }
 
         // Website button if available
-        if (djInfo?.website) {
-          const websiteUrl = sanitizeUrl(djInfo.website);
-          if (websiteUrl) {
-            buttons.push({ text: '🌐 WEBSITE', url: websiteUrl });
-          }
+        if (djInfo?.website && isValidUrl(djInfo.website)) {
+          buttons.push({ text: '🌐 WEBSITE', url: djInfo.website });
         }
 
         const keyboard = buttons.length > 0 ? { inline_keyboard: [buttons] } : undefined;
@@ -356,51 +409,42 @@ export class WhosPlayingFormatter {
       const djName = event.djName || 'TBA';
 
       // Get enhanced DJ info from Wix with fallback
-      const djInfo = this.getDJInfo(djName);
+      const djInfo = await this.getDJInfo(djName);
 
       // Build the enhanced event text - combine intro and event into one line
       // Use the same time logic as B2B events - capitalize when first word
-      const timeTextLower = this.getTimeText(event.date);
+      const timeTextLower = this.getTimeText(event);
       const timeText = timeTextLower.charAt(0).toUpperCase() + timeTextLower.slice(1);
 
-      let eventText = `🎶 ${escapeTelegramHtml(timeText)} ${escapeTelegramHtml(eventType)} with ${bold(djInfo ? djInfo.name : djName)} 🎶`;
-
+      const head = `🎶 ${escapeTelegramHtml(timeText)} ${escapeTelegramHtml(eventType)} with ${bold(djInfo ? djInfo.name : djName)} 🎶${this.formatTimeLine(event)}${this.formatTicketLine(event)}`;
       // Add description if available
-      if (djInfo && djInfo.shortDescription) {
-        eventText += `\n\n${blockquote(djInfo.shortDescription, { expandable: true })}`;
-      }
+      const bio = djInfo?.shortDescription
+        ? `\n\n${blockquote(djInfo.shortDescription, { expandable: true })}`
+        : '';
+      const eventText = this.withDetails(head, event, bio, Boolean(djInfo?.photo));
 
       // Create buttons row
       const buttons: Array<{ text: string; url: string }> = [];
 
       // Tickets button
-      const ticketUrl = sanitizeUrl(event.ticketUrl);
+      const ticketUrl = sanitizeUrl(event.ticketUrl, this.ticketsUrl);
       if (ticketUrl) {
         buttons.push({ text: '🎟️ TICKETS', url: ticketUrl });
       }
 
       // SoundCloud button if available
-      if (djInfo?.soundcloudUrl) {
-        const soundcloudUrl = sanitizeUrl(djInfo.soundcloudUrl);
-        if (soundcloudUrl) {
-          buttons.push({ text: '🎧 LISTEN', url: soundcloudUrl });
-        }
+      if (djInfo?.soundcloudUrl && isValidUrl(djInfo.soundcloudUrl)) {
+        buttons.push({ text: '🎧 LISTEN', url: djInfo.soundcloudUrl });
       }
 
       // Instagram button if available
-      if (djInfo?.instagramUrl) {
-        const instagramUrl = sanitizeUrl(djInfo.instagramUrl);
-        if (instagramUrl) {
-          buttons.push({ text: '📸 INSTAGRAM', url: instagramUrl });
-        }
+      if (djInfo?.instagramUrl && isValidUrl(djInfo.instagramUrl)) {
+        buttons.push({ text: '📸 INSTAGRAM', url: djInfo.instagramUrl });
       }
 
       // Website button if available
-      if (djInfo?.website) {
-        const websiteUrl = sanitizeUrl(djInfo.website);
-        if (websiteUrl) {
-          buttons.push({ text: '🌐 WEBSITE', url: websiteUrl });
-        }
+      if (djInfo?.website && isValidUrl(djInfo.website)) {
+        buttons.push({ text: '🌐 WEBSITE', url: djInfo.website });
       }
 
       const keyboard = buttons.length > 0 ? { inline_keyboard: [buttons] } : undefined;
@@ -441,51 +485,42 @@ export class WhosPlayingFormatter {
       const djName = event.djName || 'TBA';
 
       // Get enhanced DJ info from Wix with fallback
-      const djInfo = this.getDJInfo(djName);
+      const djInfo = await this.getDJInfo(djName);
 
       // Build the event text - use simplified one-line format
       // Use the same time logic as other formats - capitalize when first word
-      const timeTextLower = this.getTimeText(event.date);
+      const timeTextLower = this.getTimeText(event);
       const timeText = timeTextLower.charAt(0).toUpperCase() + timeTextLower.slice(1);
 
-      let eventText = `🎶 ${escapeTelegramHtml(timeText)} ${escapeTelegramHtml(eventType)} with ${bold(djInfo ? djInfo.name : djName)} 🎶`;
-
+      const head = `🎶 ${escapeTelegramHtml(timeText)} ${escapeTelegramHtml(eventType)} with ${bold(djInfo ? djInfo.name : djName)} 🎶${this.formatTimeLine(event)}${this.formatTicketLine(event)}`;
       // Add description if available
-      if (djInfo && djInfo.shortDescription) {
-        eventText += `\n\n${blockquote(djInfo.shortDescription, { expandable: true })}`;
-      }
+      const bio = djInfo?.shortDescription
+        ? `\n\n${blockquote(djInfo.shortDescription, { expandable: true })}`
+        : '';
+      const eventText = this.withDetails(head, event, bio, Boolean(djInfo?.photo));
 
       // Create buttons row for this event
       const buttons: Array<{ text: string; url: string }> = [];
 
       // Tickets button
-      const ticketUrl = sanitizeUrl(event.ticketUrl);
+      const ticketUrl = sanitizeUrl(event.ticketUrl, this.ticketsUrl);
       if (ticketUrl) {
         buttons.push({ text: '🎟️ TICKETS', url: ticketUrl });
       }
 
       // SoundCloud button if available
-      if (djInfo?.soundcloudUrl) {
-        const soundcloudUrl = sanitizeUrl(djInfo.soundcloudUrl);
-        if (soundcloudUrl) {
-          buttons.push({ text: '🎧 LISTEN', url: soundcloudUrl });
-        }
+      if (djInfo?.soundcloudUrl && isValidUrl(djInfo.soundcloudUrl)) {
+        buttons.push({ text: '🎧 LISTEN', url: djInfo.soundcloudUrl });
       }
 
       // Instagram button if available
-      if (djInfo?.instagramUrl) {
-        const instagramUrl = sanitizeUrl(djInfo.instagramUrl);
-        if (instagramUrl) {
-          buttons.push({ text: '📸 INSTAGRAM', url: instagramUrl });
-        }
+      if (djInfo?.instagramUrl && isValidUrl(djInfo.instagramUrl)) {
+        buttons.push({ text: '📸 INSTAGRAM', url: djInfo.instagramUrl });
       }
 
       // Website button if available
-      if (djInfo?.website) {
-        const websiteUrl = sanitizeUrl(djInfo.website);
-        if (websiteUrl) {
-          buttons.push({ text: '🌐 WEBSITE', url: websiteUrl });
-        }
+      if (djInfo?.website && isValidUrl(djInfo.website)) {
+        buttons.push({ text: '🌐 WEBSITE', url: djInfo.website });
       }
 
       const keyboard = buttons.length > 0 ? { inline_keyboard: [buttons] } : undefined;
@@ -1,15 +1,26 @@
 import { HipsyScraper } from './scrapers/hipsy-scraper';
 import { WhosPlayingFormatter } from './formatters/whosplaying-formatter';
-import { utcToZonedTime } from 'date-fns-tz';
+import { utcToZonedTime, zonedTimeToUtc } from 'date-fns-tz';
+import { Event, ScrapingResult } from './types/event';
+import { formatStaleNotice } from './telegram/formatting';
+import { DJProfile } from './types/dj';
+import { DJRepository, createDJRepository } from './utils/dj-repository';
+import { getDefaultVenue } from './utils/venue-config';
 
 export class OdessaTodayGenerator {
   private scraper: HipsyScraper;
   private formatter: WhosPlayingFormatter;
+  private djRepository: DJRepository | undefined;
   private amsterdamTimezone = 'Europe/Amsterdam';
 
-  constructor() {
-    this.scraper = new HipsyScraper();
-    this.formatter = new WhosPlayingFormatter();
+  constructor(
+    scraper: HipsyScraper = new HipsyScraper(),
+    formatter: WhosPlayingFormatter = new WhosPlayingFormatter(),
+    djRepository?: DJRepository
+  ) {
+    this.scraper = scraper;
+    this.formatter = formatter;
+    this.djRepository = djRepository;
   }
 
   /**
@@ -21,7 +32,52 @@ export class OdessaTodayGenerator {
   }
 
   /**
-   * Generate enhanced today's schedule with Wix DJ data
+   * Fetch the events starting on the given Amsterdam calendar day
+   */
+  private async fetchTodayEvents(today: Date): Promise<ScrapingResult> {
+    const midnight = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+    const nextMidnight = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1);
+
+    const result = await this.scraper.getEventsBetween(
+      zonedTimeToUtc(midnight, this.amsterdamTimezone),
+      new Date(zonedTimeToUtc(nextMidnight, this.amsterdamTimezone).getTime() - 1)
+    );
+
+    if (!result.success) {
+      throw new Error('Failed to fetch events from Hipsy');
+    }
+    return result;
+  }
+
+  /**
+   * Append the "may be out of date" footer when events came from the cache.
+   * Goes on the intro text, or on the last message when there is no intro.
+   */
+  private withStaleNotice<T extends { text: string; messages?: Array<{ text: string }> }>(
+    schedule: T,
+    staleSince: string | undefined
+  ): T {
+    if (!staleSince) {
+      return schedule;
+    }
+
+    const notice = formatStaleNotice(staleSince);
+    const messages = schedule.messages;
+    const lastMessage = messages?.[messages.length - 1];
+    if (messages && lastMessage && !schedule.text) {
+      return {
+        ...schedule,
+        messages: [
+          ...messages.slice(0, -1),
+          { ...lastMessage, text: `${lastMessage.text}\n\n${notice}` },
+        ],
+      };
+    }
+    return { ...schedule, text: `${schedule.text.trimEnd()}\n\n${notice}` };
+  }
+
+  /**
+   * Generate enhanced today's schedule with DJ profiles
    */
   async generateEnhancedTodaySchedule(): Promise<{ 
     text: string; 
@@ -40,26 +96,10 @@ export class OdessaTodayGenerator {
       const today = this.getTodayInAmsterdam();
       console.log(`📅 Looking for events on: ${today.toDateString()} (Amsterdam time)`);
       
-      // Get events for today using the existing method
-      const result = await this.scraper.getEvents(1, 'upcoming', 10);
-      
-      if (!result.success) {
-        throw new Error('Failed to fetch events from Hipsy');
-      }
-      
-      // Filter events for today only (using Amsterdam timezone)
-      const todayEvents = result.events.filter(event => {
-        const eventDate = new Date(event.date);
-        
-        // Convert event date to Amsterdam timezone for comparison
-        const eventDateInAmsterdam = utcToZonedTime(eventDate, this.amsterdamTimezone);
-        
-        // Normalize dates to compare only the date part (ignore time)
-        const eventDateOnly = new Date(eventDateInAmsterdam.getFullYear(), eventDateInAmsterdam.getMonth(), eventDateInAmsterdam.getDate());
-        const todayOnly = new Date(today.getFullYear(), today.getMonth(), today.getDate());
-        
-        return eventDateOnly.getTime() === todayOnly.getTime();
-      });
+      // Get events for today (Amsterdam midnight to midnight)
+      const todayResult = await this.fetchTodayEvents(today);
+      const todayEvents = todayResult.events;
+      const staleSince = todayResult.stale ? todayResult.fetchedAt : undefined;
       
       console.log(`📊 Found ${todayEvents.length} events for today`);
       
@@ -67,7 +107,8 @@ export class OdessaTodayGenerator {
         console.log('❌ No events found for today');
         
         // Find the next upcoming event
-        const nextEvent = await this.findNextUpcomingEvent();
+        const next = await this.getNextEvent();
+        const nextEvent = next.event;
         
         if (nextEvent) {
           const nextEventDate = new Date(nextEvent.date);
@@ -100,13 +141,15 @@ export class OdessaTodayGenerator {
             }
           }
           
-          return { 
+          const nextSchedule = { 
             text: nextEventText,
             photos: djInfo?.photo ? [djInfo.photo] : undefined,
             keyboard: this.createTicketsKeyboard(nextEvent.ticketUrl, djInfo?.soundcloudUrl)
           } as { text: string; photos?: string[]; keyboard?: any };
+          return this.withStaleNotice(nextSchedule, staleSince ?? next.staleSince);
         } else {
-          return { text: '<b>🎯 Next Event: No upcoming events found.</b>' };
+          const noEvents = { text: '<b>🎯 Next Event: No upcoming events found.</b>' };
+          return this.withStaleNotice(noEvents, staleSince ?? next.staleSince);
         }
       }
       
@@ -114,7 +157,7 @@ export class OdessaTodayGenerator {
       const formattedToday = await this.formatter.formatEnhancedTodaySchedule(todayEvents);
       
       console.log('Enhanced today\'s schedule generated successfully');
-      return formattedToday;
+      return this.withStaleNotice(formattedToday, staleSince);
       
     } catch (error) {
       console.error('Error generating enhanced today schedule:', error);
@@ -126,34 +169,48 @@ export class OdessaTodayGenerator {
    * Find the next upcoming event (including today)
    */
   public async findNextUpcomingEvent(): Promise<any> {
+    return (await this.getNextEvent()).event;
+  }
+
+  /**
+   * Find the next upcoming event, with the cache time when Hipsy was unreachable
+   */
+  public async getNextEvent(): Promise<{ event: Event | null; staleSince?: string }> {
     try {
       const result = await this.scraper.getEvents(1, 'upcoming', 10);
 
       if (!result.success || result.events.length === 0) {
-        return null;
+        return { event: null };
+      }
+
+      if (result.stale && result.fetchedAt) {
+        // A cached list can include events that have started since
+        const now = Date.now();
+        const event = result.events.find(candidate => new Date(candidate.date).getTime() > now);
+        return { event: event ?? null, staleSince: result.fetchedAt };
       }
 
       // Return the first upcoming event (Hipsy API already returns them in order)
       // This includes today's events
-      return result.events[0] || null;
+      return { event: result.events[0] || null };
     } catch (error) {
       console.error('Error finding next upcoming event:', error);
-      return null;
+      return { event: null };
     }
   }
 
   /**
    * Get DJ information with SoundCloud link
    */
-  private async getDJInfo(djName?: string): Promise<any> {
+  private async getDJInfo(djName?: string): Promise<DJProfile | null> {
     if (!djName) return null;
     
     try {
-      // Import WixDJLoader dynamically to avoid circular dependencies
-      const { WixDJLoader } = await import('./utils/wix-dj-loader');
-      const wixDJLoader = new WixDJLoader();
+      if (!this.djRepository) {
+        this.djRepository = createDJRepository(getDefaultVenue());
+      }
       
-      return await wixDJLoader.getDJInfoWithFallback(djName);
+      return await this.djRepository.getProfile(djName);
     } catch (error) {
       console.error('Error getting DJ info:', error);
       return null;
@@ -200,26 +257,8 @@ export class OdessaTodayGenerator {
       const today = this.getTodayInAmsterdam();
       console.log(`📅 Looking for events on: ${today.toDateString()} (Amsterdam time)`);
       
-      // Get events for today using the existing method
-      const result = await this.scraper.getEvents(1, 'upcoming', 10);
-      
-      if (!result.success) {
-        throw new Error('Failed to fetch events from Hipsy');
-      }
-      
-      // Filter events for today only (using Amsterdam timezone)
-      const todayEvents = result.events.filter(event => {
-        const eventDate = new Date(event.date);
-        
-        // Convert event date to Amsterdam timezone for comparison
-        const eventDateInAmsterdam = utcToZonedTime(eventDate, this.amsterdamTimezone);
-        
-        // Normalize dates to compare only the date part (ignore time)
-        const eventDateOnly = new Date(eventDateInAmsterdam.getFullYear(), eventDateInAmsterdam.getMonth(), eventDateInAmsterdam.getDate());
-        const todayOnly = new Date(today.getFullYear(), today.getMonth(), today.getDate());
-        
-        return eventDateOnly.getTime() === todayOnly.getTime();
-      });
+      // Get events for today (Amsterdam midnight to midnight)
+      const todayEvents = (await this.fetchTodayEvents(today)).events;
       
       console.log(`📊 Found ${todayEvents.length} events for today`);
       
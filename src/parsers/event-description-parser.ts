@@ -0,0 +1,204 @@
+/**
+ * A Hipsy event description taken apart: plain text plus the practical bits
+ * people look for, e.g. "Doors 19:30, dance 20:00-23:00. Bring your own cup."
+ */
+export interface ParsedEventDescription {
+  /** Plain text, one paragraph or list item per line */
+  text: string;
+  /** "19:30" */
+  doorsTime?: string;
+  startTime?: string;
+  endTime?: string;
+  /** Lines about who plays or hosts, e.g. "Live cello by Mira" */
+  lineup: string[];
+  /** Things to bring or know, e.g. "Bring your own cacao cup." */
+  instructions: string[];
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  euro: '€',
+  hellip: '…',
+  ndash: '–',
+  mdash: '—',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+};
+
+const TIME = '(\\d{1,2})[:.](\\d{2})';
+// Up to a few words between the label and the time: "Doors open at 19:30"
+const LABEL_GAP = '[^\\d\\n]{0,20}?';
+const DOORS_TIME = new RegExp(
+  `\\b(?:doors?|deuren|walk[\\s-]?in|inloop)\\b${LABEL_GAP}${TIME}`,
+  'i'
+);
+const START_TIME = new RegExp(`\\b(?:starts?|starting|begins?|aanvang)\\b${LABEL_GAP}${TIME}`, 'i');
+const END_TIME = new RegExp(
+  `\\b(?:ends?|ending|until|till|finish(?:es)?|tot)\\b${LABEL_GAP}${TIME}`,
+  'i'
+);
+const TIME_RANGE = new RegExp(`${TIME}\\s*(?:-|–|—|to|tot)\\s*${TIME}`, 'i');
+
+// "Line-up: ...", "DJ: ...", "Live music by ...", "Hosted by ..."
+const LINEUP_LINE =
+  /^(?:line[\s-]?up|djs?|live(?:\s+music)?|music|musicians?|hosts?|hosted\s+by|facilitat\w*|opening(?:\s+circle)?|closing(?:\s+circle)?)\b\s*(?:[:\-–]|by\b)/i;
+const LINEUP_HEADING = /^line[\s-]?up\s*:?$/i;
+const INSTRUCTION =
+  /\b(?:bring|please|wear|don'?t\s+forget|remember\s+to|no\s+(?:phones?|shoes|alcohol|talking|photos?)|phone[\s-]?free|sober|arrive)\b/i;
+
+const MAX_INSTRUCTION_LENGTH = 160;
+
+/**
+ * Reads Hipsy event descriptions (HTML) into plain text, times, line-up notes
+ * and instructions. Descriptions are free-form, so everything but `text` is
+ * best effort and left out when it can't be found.
+ */
+export class EventDescriptionParser {
+  parse(description: string): ParsedEventDescription {
+    const lines = this.toLines(description);
+    const text = lines.map(line => line.text).join('\n');
+
+    const doorsTime = this.findTime(text, DOORS_TIME);
+    let startTime = this.findTime(text, START_TIME);
+    let endTime = this.findTime(text, END_TIME);
+
+    // "Dance 20:00 - 23:00"
+    const range = TIME_RANGE.exec(text);
+    if (range) {
+      startTime ??= this.formatTime(range[1], range[2]);
+      endTime ??= this.formatTime(range[3], range[4]);
+    }
+
+    return {
+      text,
+      ...(doorsTime ? { doorsTime } : {}),
+      ...(startTime && startTime !== doorsTime ? { startTime } : {}),
+      ...(endTime ? { endTime } : {}),
+      lineup: this.findLineup(lines),
+      instructions: this.findInstructions(lines),
+    };
+  }
+
+  /**
+   * HTML to trimmed lines, remembering which ones were list items
+   */
+  private toLines(html: string): Array<{ text: string; listItem: boolean }> {
+    const withBreaks = html
+      .replace(/<\s*(?:script|style)[^>]*>[\s\S]*?<\/\s*(?:script|style)\s*>/gi, '')
+      .replace(/<\s*li[^>]*>/gi, '\n• ')
+      .replace(/<\s*br\s*\/?>/gi, '\n')
+      .replace(/<\/\s*(?:p|div|li|ul|ol|h[1-6]|blockquote)\s*>/gi, '\n')
+      .replace(/<[^>]+>/g, '');
+
+    return this.decodeEntities(withBreaks)
+      .split('\n')
+      .map(line => line.replace(/\s+/g, ' ').trim())
+      .filter(line => line.length > 0)
+      .map(line => {
+        const listItem = /^[•*-]\s+/.test(line);
+        return { text: listItem ? line.replace(/^[•*-]\s+/, '') : line, listItem };
+      });
+  }
+
+  private decodeEntities(value: string): string {
+    return value.replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+      if (code.startsWith('#x') || code.startsWith('#X')) {
+        return String.fromCodePoint(parseInt(code.slice(2), 16));
+      }
+      if (code.startsWith('#')) {
+        return String.fromCodePoint(parseInt(code.slice(1), 10));
+      }
+      return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+    });
+  }
+
+  private findTime(text: string, pattern: RegExp): string | undefined {
+    const match = pattern.exec(text);
+    return match ? this.formatTime(match[1], match[2]) : undefined;
+  }
+
+  private formatTime(hours: string | undefined, minutes: string | undefined): string | undefined {
+    const hour = Number(hours);
+    const minute = Number(minutes);
+    if (!Number.isInteger(hour) || hour > 24 || !Number.isInteger(minute) || minute > 59) {
+      return undefined;
+    }
+    return `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
+  }
+
+  /**
+   * Labelled lines ("Live music by Yona"), and the list under a "Line-up" heading
+   */
+  private findLineup(lines: Array<{ text: string; listItem: boolean }>): string[] {
+    const lineup: string[] = [];
+    let underHeading = false;
+    for (const line of lines) {
+      if (LINEUP_HEADING.test(line.text)) {
+        underHeading = true;
+        continue;
+      }
+      if (underHeading && line.listItem) {
+        lineup.push(line.text);
+        continue;
+      }
+      underHeading = false;
+      if (LINEUP_LINE.test(line.text)) {
+        lineup.push(line.text);
+      }
+    }
+    return lineup;
+  }
+
+  /**
+   * Short sentences asking people to bring, wear or do something
+   */
+  private findInstructions(lines: Array<{ text: string; listItem: boolean }>): string[] {
+    const sentences = lines.flatMap(line => line.text.split(/(?<=[.!?])\s+/));
+    return Array.from(
+      new Set(
+        sentences.filter(
+          sentence => sentence.length <= MAX_INSTRUCTION_LENGTH && INSTRUCTION.test(sentence)
+        )
+      )
+    );
+  }
+}
+
+const SUMMARY_LIST_LIMIT = 3;
+const SUMMARY_TEXT_LENGTH = 280;
+
+/**
+ * A few plain-text lines for under an event: times, line-up notes and
+ * instructions, or the start of the text when none were found.
+ * Undefined for an empty description.
+ */
+export function getDescriptionSummary(parsed: ParsedEventDescription): string | undefined {
+  const times = [
+    parsed.doorsTime ? `Doors ${parsed.doorsTime}` : '',
+    parsed.startTime ? `Start ${parsed.startTime}` : '',
+    parsed.endTime ? `End ${parsed.endTime}` : '',
+  ].filter(Boolean);
+
+  const lines = [
+    ...(times.length > 0 ? [`🕗 ${times.join(' · ')}`] : []),
+    ...parsed.lineup.slice(0, SUMMARY_LIST_LIMIT).map(line => `🎶 ${line}`),
+    ...parsed.instructions.slice(0, SUMMARY_LIST_LIMIT).map(line => `💡 ${line}`),
+  ];
+  if (lines.length > 0) {
+    return lines.join('\n');
+  }
+
+  if (!parsed.text) {
+    return undefined;
+  }
+  return parsed.text.length > SUMMARY_TEXT_LENGTH
+    ? `${parsed.text.slice(0, SUMMARY_TEXT_LENGTH - 1).trimEnd()}…`
+    : parsed.text;
+}
@@ -0,0 +1,171 @@
+import { EventModifier, EventType } from '../types/event';
+import { EventTypeTaxonomy, getEventTypeTaxonomy } from '../utils/event-types';
+
+export type FacilitatorRole = 'dj' | 'live' | 'host';
+
+export interface EventFacilitator {
+  name: string;
+  role: FacilitatorRole;
+}
+
+/**
+ * A Hipsy title taken apart, e.g. "Cacao ED | Leela & Yona (live) [SOLD OUT]" →
+ * series "Cacao ED", type Cacao ED, Leela (dj) then Yona (live), sold out
+ */
+export interface ParsedEventTitle {
+  title: string;
+  /** Everything before the facilitators, without status tags */
+  series: string;
+  eventType?: EventType;
+  /** In title order */
+  facilitators: EventFacilitator[];
+  modifiers: EventModifier[];
+}
+
+const STATUS_WORDS = '(?:sold[\\s-]?out|uitverkocht|cancell?ed|geannuleerd|afgelast)';
+const TAG_WORDS = `(?:${STATUS_WORDS}|special(?:\\s+edition)?)`;
+
+// "(SOLD OUT)", "[Special]" anywhere; "CANCELLED: ..." at the start; "... - sold out" at the end
+const BRACKETED_TAG = new RegExp(`\\s*[[(]\\s*${TAG_WORDS}\\s*!*\\s*[\\])]`, 'gi');
+const STATUS_PREFIX = new RegExp(`^\\s*${STATUS_WORDS}\\s*!*\\s*[:|\\-–]\\s*`, 'i');
+const STATUS_SUFFIX = new RegExp(`\\s*[|\\-–]\\s*${STATUS_WORDS}\\s*!*\\s*$`, 'i');
+
+const MODIFIER_PATTERNS: Array<[EventModifier, RegExp]> = [
+  ['special', /\bspecial\b/i],
+  ['sold_out', /\b(?:sold[\s-]?out|uitverkocht)\b/i],
+  ['cancelled', /\b(?:cancell?ed|geannuleerd|afgelast)\b/i],
+  ['morning', /\bmorning\b/i],
+];
+
+// Between the series and the facilitators, most specific first.
+// A pipe splits at the last one; the others at the first occurrence.
+const SERIES_SEPARATORS: Array<{ pattern: RegExp; role?: FacilitatorRole }> = [
+  { pattern: /\s+hosted\s+by\s+/i, role: 'host' },
+  { pattern: /\s+with\s+/i },
+  { pattern: /\s+(?:feat\.?|ft\.)\s+/i },
+  { pattern: /\s+by\s+/i },
+  { pattern: /\s+[-–]\s+/ },
+];
+
+// Between facilitators: "B2B", "back to back", "vs", "x", "and", "&", "+", "," and "with"
+const NAME_SEPARATOR =
+  /\s+b2b\s+|\s+back\s+to\s+back\s+|\s+vs\.?\s+|\s+x\s+|\s+and\s+|\s*&\s*|\s*\+\s*|\s*,\s*|\s+with\s+/i;
+
+const PLACEHOLDER_NAMES = /^(?:tba|tbd|tbc|to be announced|dj tba)$/i;
+
+/**
+ * Single place where Hipsy event titles are read: series name, event type,
+ * facilitators with roles and status modifiers. Types come from the event-type
+ * taxonomy (src/data/event-types.json). Used by the scraper for
+ * `djName`/`djNames`/`eventType` and by the weekly schedule for title prefixes.
+ */
+export class EventTitleParser {
+  readonly taxonomy: EventTypeTaxonomy;
+
+  constructor(taxonomy: EventTypeTaxonomy = getEventTypeTaxonomy()) {
+    this.taxonomy = taxonomy;
+  }
+
+  parse(title: string): ParsedEventTitle {
+    const modifiers = MODIFIER_PATTERNS.filter(([, pattern]) => pattern.test(title)).map(
+      ([modifier]) => modifier
+    );
+    const cleaned = title
+      .replace(BRACKETED_TAG, '')
+      .replace(STATUS_PREFIX, '')
+      .replace(STATUS_SUFFIX, '')
+      .trim();
+
+    const { series, facilitatorText, defaultRole } = this.splitSeries(cleaned);
+    const definition = this.taxonomy.classify(series || cleaned);
+    const eventType = definition?.id;
+    // "Live Music Night with Yona" names a musician, not a DJ
+    const facilitators = facilitatorText
+      ? this.parseFacilitators(facilitatorText, defaultRole ?? definition?.facilitatorRole)
+      : [];
+
+    return {
+      title,
+      series,
+      ...(eventType ? { eventType } : {}),
+      facilitators,
+      modifiers,
+    };
+  }
+
+  /**
+   * Split "Leela B2B Yona (live)" into facilitators with roles
+   */
+  parseFacilitators(text: string, defaultRole: FacilitatorRole = 'dj'): EventFacilitator[] {
+    return text
+      .split(NAME_SEPARATOR)
+      .map(part => this.parseFacilitator(part, defaultRole))
+      .filter((facilitator): facilitator is EventFacilitator => facilitator !== null);
+  }
+
+  private splitSeries(title: string): {
+    series: string;
+    facilitatorText?: string;
+    defaultRole?: FacilitatorRole;
+  } {
+    const segments = title
+      .split('|')
+      .map(segment => segment.trim())
+      .filter(segment => segment.length > 0);
+    if (segments.length > 1) {
+      return {
+        series: segments.slice(0, -1).join(' | '),
+        facilitatorText: segments[segments.length - 1] as string,
+      };
+    }
+
+    for (const { pattern, role } of SERIES_SEPARATORS) {
+      const match = pattern.exec(title);
+      if (match && match.index > 0) {
+        const facilitatorText = title.slice(match.index + match[0].length).trim();
+        if (facilitatorText) {
+          return {
+            series: title.slice(0, match.index).trim(),
+            facilitatorText,
+            ...(role ? { defaultRole: role } : {}),
+          };
+        }
+      }
+    }
+    return { series: title };
+  }
+
+  private parseFacilitator(text: string, defaultRole: FacilitatorRole): EventFacilitator | null {
+    let name = text.trim();
+    let role = defaultRole;
+
+    const liveLead = /^live(?:\s+music)?\s*(?:by\s+|:\s*)/i.exec(name);
+    const hostLead = /^(?:hosted\s+by|host:)\s*/i.exec(name);
+    const roleTag = /\s*\((live(?:\s+music)?|host(?:ed)?)\)$/i.exec(name);
+    if (liveLead) {
+      name = name.slice(liveLead[0].length);
+      role = 'live';
+    } else if (hostLead) {
+      name = name.slice(hostLead[0].length);
+      role = 'host';
+    } else if (roleTag) {
+      name = name.slice(0, roleTag.index);
+      role = roleTag[1]?.toLowerCase().startsWith('live') ? 'live' : 'host';
+    }
+
+    name = name.trim();
+    if (!name || PLACEHOLDER_NAMES.test(name)) {
+      return null;
+    }
+    return { name, role };
+  }
+}
+
+/**
+ * DJ names in title order; live musicians and hosts are left out
+ */
+export function getDJNames(parsed: ParsedEventTitle): string[] {
+  return parsed.facilitators
+    .filter(facilitator => facilitator.role === 'dj')
+    .map(facilitator => facilitator.name);
+}
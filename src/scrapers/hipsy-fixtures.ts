@@ -0,0 +1,128 @@
+import axios from 'axios';
+import { existsSync, mkdirSync, readFileSync, readdirSync, writeFileSync } from 'fs';
+import { Server, createServer } from 'http';
+import { join } from 'path';
+import { zonedTimeToUtc } from 'date-fns-tz';
+import { HIPSY_API_URL } from './hipsy-scraper';
+
+type HipsyPeriod = 'upcoming' | 'past';
+
+/** An event as Hipsy sends it; only the fields replay needs are typed */
+interface RawHipsyEvent {
+  id: number | string;
+  date: string;
+  [field: string]: unknown;
+}
+
+const RECORD_LIMIT = 50;
+const MAX_RECORD_PAGES: Record<HipsyPeriod, number> = { upcoming: 20, past: 4 };
+const RECORDING_FILE = /^(upcoming|past)-(\d+)\.json$/;
+
+/**
+ * Where recordings live: HIPSY_FIXTURES_DIR, or fixtures/hipsy in the working directory
+ */
+export function getHipsyFixturesDir(env: NodeJS.ProcessEnv = process.env): string {
+  return env['HIPSY_FIXTURES_DIR'] ?? join(process.cwd(), 'fixtures', 'hipsy');
+}
+
+/**
+ * Save raw Hipsy responses for an organisation, one file per page
+ * (`<directory>/<slug>/upcoming-1.json`, `past-1.json`...).
+ * Upcoming events are recorded in full, past ones for the last few pages.
+ * Returns the files written.
+ */
+export async function recordHipsyFixtures(options: {
+  slug: string;
+  directory: string;
+  apiKey?: string | undefined;
+  baseUrl?: string;
+}): Promise<string[]> {
+  const baseUrl = options.baseUrl ?? HIPSY_API_URL;
+  const target = join(options.directory, options.slug);
+  mkdirSync(target, { recursive: true });
+
+  const files: string[] = [];
+  for (const period of ['upcoming', 'past'] as const) {
+    for (let page = 1; page <= MAX_RECORD_PAGES[period]; page++) {
+      const response = await axios.get(`${baseUrl}/organisation/${options.slug}/events`, {
+        params: { page, limit: RECORD_LIMIT, period },
+        headers: options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {},
+        timeout: 30000,
+      });
+
+      const file = join(target, `${period}-${page}.json`);
+      writeFileSync(file, `${JSON.stringify(response.data, null, 2)}\n`);
+      files.push(file);
+
+      const events: unknown = response.data?.data;
+      if (!Array.isArray(events) || events.length < RECORD_LIMIT) {
+        break;
+      }
+    }
+  }
+  return files;
+}
+
+/**
+ * Every recorded event for an organisation, once each, or null without recordings
+ */
+export function loadRecordedEvents(directory: string, slug: string): RawHipsyEvent[] | null {
+  const source = join(directory, slug);
+  if (!existsSync(source)) {
+    return null;
+  }
+
+  const byId = new Map<string, RawHipsyEvent>();
+  for (const file of readdirSync(source).filter(name => RECORDING_FILE.test(name))) {
+    const response = JSON.parse(readFileSync(join(source, file), 'utf-8')) as {
+      data?: RawHipsyEvent[];
+    };
+    for (const event of response.data ?? []) {
+      byId.set(String(event.id), event);
+    }
+  }
+  return Array.from(byId.values());
+}
+
+/**
+ * Local stand-in for the Hipsy API that answers
+ * `GET /v1/organisation/<slug>/events?page&limit&period` from recordings.
+ * Events are split into upcoming (soonest first) and past (latest first)
+ * against the current time, like Hipsy does, so old recordings keep working.
+ * Point the scraper at it with HIPSY_BASE_URL=http://localhost:<port>/v1.
+ */
+export function createHipsyReplayServer(
+  directory: string,
+  now: () => Date = (): Date => new Date()
+): Server {
+  return createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const match = /\/organisation\/([^/]+)\/events\/?$/.exec(url.pathname);
+    const events = match ? loadRecordedEvents(directory, decodeURIComponent(match[1] ?? '')) : null;
+
+    res.setHeader('Content-Type', 'application/json');
+    if (!events) {
+      res.statusCode = 404;
+      res.end(JSON.stringify({ error: `No recording for ${url.pathname}` }));
+      return;
+    }
+
+    const page = Math.max(1, Number(url.searchParams.get('page')) || 1);
+    const limit = Math.max(1, Number(url.searchParams.get('limit')) || 10);
+    const period = url.searchParams.get('period') ?? 'upcoming';
+    const nowMs = now().getTime();
+    const startOf = (event: RawHipsyEvent): number =>
+      zonedTimeToUtc(event.date, 'Europe/Amsterdam').getTime();
+
+    const selected = events
+      .filter(event => {
+        if (period === 'all') {
+          return true;
+        }
+        return period === 'past' ? startOf(event) < nowMs : startOf(event) >= nowMs;
+      })
+      .sort((a, b) => (period === 'past' ? startOf(b) - startOf(a) : startOf(a) - startOf(b)));
+
+    res.end(JSON.stringify({ data: selected.slice((page - 1) * limit, page * limit) }));
+  });
+}
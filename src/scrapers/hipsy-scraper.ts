@@ -1,22 +1,102 @@
 import axios from 'axios';
+import { formatInTimeZone, zonedTimeToUtc } from 'date-fns-tz';
 import { Event, ScrapingResult } from '../types/event';
+import { HipsyCache } from '../utils/hipsy-cache';
+import { EventTitleParser, getDJNames } from '../parsers/event-title-parser';
+
+/** Hipsy's public API; HIPSY_BASE_URL swaps it for a replay server (see hipsy-fixtures.ts) */
+export const HIPSY_API_URL = 'https://api.hipsy.nl/v1';
+
+const AMSTERDAM_TIMEZONE = 'Europe/Amsterdam';
+const RANGE_PAGE_LIMIT = 50;
+const RANGE_MAX_PAGES = 20;
+
+/**
+ * Instant of a Hipsy date; dates without an offset are Amsterdam wall-clock time
+ */
+function toAmsterdamInstant(date: string): Date {
+  const hasOffset = /(Z|[+-]\d{2}:?\d{2})$/i.test(date.trim());
+  return hasOffset ? new Date(date) : zonedTimeToUtc(date, AMSTERDAM_TIMEZONE);
+}
+
+function formatAmsterdamIso(instant: Date): string {
+  return formatInTimeZone(instant, AMSTERDAM_TIMEZONE, "yyyy-MM-dd'T'HH:mm:ssXXX");
+}
 
 export class HipsyScraper {
-  private baseUrl = 'https://api.hipsy.nl/v1';
+  private baseUrl = (process.env['HIPSY_BASE_URL'] || HIPSY_API_URL).replace(/\/+$/, '');
   private apiKey = process.env['HIPSY_API_KEY'] || '';
   private organisationSlug = 'odessa-amsterdam-ecstatic-dance';
 
-  constructor() {
+  private cache: HipsyCache | null;
+  private titleParser: EventTitleParser;
+
+  constructor(
+    cache: HipsyCache | null = new HipsyCache(),
+    titleParser: EventTitleParser = new EventTitleParser()
+  ) {
+    this.cache = cache;
+    this.titleParser = titleParser;
+
     // Set default headers
     axios.defaults.headers.common['Authorization'] = `Bearer ${this.apiKey}`;
     axios.defaults.headers.common['User-Agent'] = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36';
   }
 
   /**
-   * Fetch events from Hipsy.nl API with retry logic
+   * Fetch events, served from the cache while fresh.
+   * When Hipsy fails, the last good copy comes back marked `stale`.
    */
   async getEvents(page: number = 1, period: 'past' | 'upcoming' | 'all' = 'upcoming', limit: number = 10): Promise<ScrapingResult> {
-    const maxRetries = 2;
+    // Replayed responses are kept apart from real ones
+    const source = this.baseUrl === HIPSY_API_URL ? '' : `${this.baseUrl}|`;
+    const cacheKey = `${source}${this.organisationSlug}:${period}:${page}:${limit}`;
+    const cached = this.cache ? await this.cache.get(cacheKey) : null;
+
+    if (cached && this.cache?.isFresh(cached)) {
+      return {
+        events: cached.events,
+        totalCount: cached.events.length,
+        success: true,
+        fetchedAt: cached.fetchedAt,
+      };
+    }
+
+    // With a stored copy to fall back on, one short attempt is enough
+    const result = cached
+      ? await this.fetchEvents(page, period, limit, 1, 10000)
+      : await this.fetchEvents(page, period, limit, 2, 30000);
+
+    if (result.success) {
+      await this.cache?.set(cacheKey, result.events);
+      return result;
+    }
+
+    if (cached) {
+      console.warn(
+        `⚠️ Hipsy unavailable (${result.error ?? 'Unknown error'}), serving events cached at ${cached.fetchedAt}`
+      );
+      return {
+        events: cached.events,
+        totalCount: cached.events.length,
+        success: true,
+        stale: true,
+        fetchedAt: cached.fetchedAt,
+      };
+    }
+    return result;
+  }
+
+  /**
+   * Fetch events from Hipsy.nl API with retry logic
+   */
+  private async fetchEvents(
+    page: number,
+    period: 'past' | 'upcoming' | 'all',
+    limit: number,
+    maxRetries: number,
+    timeoutMs: number
+  ): Promise<ScrapingResult> {
 
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       try {
@@ -28,7 +108,7 @@ export class HipsyScraper {
             limit,
             period
           },
-          timeout: 30000, // Increased from 10000ms to 30000ms (30 seconds)
+          timeout: timeoutMs,
         });
 
         if (!response.data || !response.data.data || !Array.isArray(response.data.data)) {
@@ -42,10 +122,9 @@ export class HipsyScraper {
         }
 
         const events: Event[] = response.data.data.map((event: any) => {
-          const djInfo = this.extractDJName(event.title);
-          console.log(`📋 Event: "${event.title}"`);
-          console.log(`   → djName: ${djInfo.djName || 'undefined'}`);
-          console.log(`   → djNames: ${djInfo.djNames ? JSON.stringify(djInfo.djNames) : 'undefined'}`);
+          const parsed = this.titleParser.parse(event.title);
+          const djNames = getDJNames(parsed);
+          console.log(`📋 Event: "${event.title}" → ${djNames.length > 0 ? djNames.join(' & ') : 'no DJ'}`);
           return {
             id: event.id.toString(),
             title: event.title,
@@ -53,9 +132,12 @@ export class HipsyScraper {
             picture: event.picture || event.picture_small || 'https://via.placeholder.com/150',
             ticketUrl: this.convertToPublicUrl(event.url_ticketshop || event.url_hipsy),
             originalDate: event.date,
-            djName: djInfo.djName,
-            djNames: djInfo.djNames,
-            eventType: this.classifyEventType(event.title),
+            djName: djNames[0],
+            // Only set for B2B events, as before
+            ...(djNames.length > 1 ? { djNames } : {}),
+            eventType: parsed.eventType,
+            ...(parsed.modifiers.length > 0 ? { modifiers: parsed.modifiers } : {}),
+            ...this.parseEndDate(event, parsed.eventType),
             description: event.description || ''
           };
         });
@@ -109,174 +191,98 @@ export class HipsyScraper {
   }
 
   /**
-   * Extract DJ name(s) from event title
-   * Handles both single DJ and B2B (back-to-back) events
+   * Fetch every event starting between `start` and `end` (inclusive).
+   * Walks `upcoming` forwards and `past` backwards only as far as the window
+   * needs, then returns the events sorted by start time with `date` as an
+   * ISO string in Amsterdam time (e.g. 2026-10-24T20:00:00+02:00).
    */
-  private extractDJName(title: string): { djName?: string; djNames?: string[] } {
-    console.log(`🔍 extractDJName called with title: "${title}"`);
-    
-    // Common patterns for DJ names in event titles
-    const patterns = [
-      /\|\s*([^|]+)$/, // "Event Name | DJ Name"
-      /\s+with\s+([^|]+)$/i, // "Event Name with DJ Name"
-      /\s+feat\.?\s+([^|]+)$/i, // "Event Name feat. DJ Name"
-      /\s+by\s+([^|]+)$/i, // "Event Name by DJ Name"
-      /\s+-\s+([^|]+)$/, // "Event Name - DJ Name"
-    ];
-
-    for (const pattern of patterns) {
-      const match = title.match(pattern);
-      if (match && match[1]) {
-        const djText = match[1].trim();
-        console.log(`   → Matched pattern, extracted DJ text: "${djText}"`);
-        if (djText && djText !== 'TBA' && djText !== 'TBD') {
-          // Check if this is a B2B event or has multiple DJs with "and"
-          // First check for explicit B2B indicators
-          if (djText.toLowerCase().includes('b2b') || djText.toLowerCase().includes('back to back')) {
-            // Extract multiple DJ names from B2B format
-            const djNames = this.extractB2BDJNames(djText);
-            if (djNames.length > 0) {
-              const firstDJ = djNames[0];
-              if (firstDJ) {
-                return { djNames, djName: firstDJ }; // First DJ for backward compatibility
-              }
-            }
-          } else {
-            // Check for "and" separator (e.g., "Samaya and Henners", "Samaya & Henners")
-            // Try patterns in order of specificity (most specific first)
-            const andSeparators = [
-              { pattern: /\s+and\s+/i, name: 'and' },           // "Samaya and Henners"
-              { pattern: /\s+&\s+/, name: '& with spaces' },   // "Samaya & Henners" (with spaces)
-              { pattern: /&/, name: '&' },                      // "Samaya&Henners" or any & (catch-all)
-              { pattern: /\s*\+\s*/, name: '+' },               // "Samaya+Henners" or "Samaya + Henners"
-            ];
-            
-            for (const { pattern, name } of andSeparators) {
-              console.log(`   → Testing pattern "${name}": ${pattern}`);
-              if (pattern.test(djText)) {
-                console.log(`   → Pattern "${name}" matched! Splitting...`);
-                const parts = djText.split(pattern);
-                console.log(`   → Split result: ${JSON.stringify(parts)}`);
-                if (parts.length >= 2) {
-                  const dj1 = parts[0]?.trim();
-                  const dj2 = parts.slice(1).join(' ').trim(); // Handle multiple separators by joining remaining parts
-                  console.log(`   → dj1: "${dj1}", dj2: "${dj2}"`);
-                  
-                  if (dj1 && dj2 && dj1.length > 0 && dj2.length > 0) {
-                    console.log(`✅ Detected B2B event via "${name}": "${dj1}" & "${dj2}" from "${djText}"`);
-                    return { djNames: [dj1, dj2], djName: dj1 }; // Return as B2B event
-                  } else {
-                    console.log(`   ⚠️ Split failed validation: dj1="${dj1}", dj2="${dj2}"`);
-                  }
-                } else {
-                  console.log(`   ⚠️ Split produced < 2 parts: ${parts.length}`);
-                }
-              } else {
-                console.log(`   → Pattern "${name}" did not match`);
-              }
-            }
-            
-            // Single DJ event
-            console.log(`ℹ️ Single DJ event: "${djText}"`);
-            return { djName: djText };
-          }
-        }
-      }
+  async getEventsBetween(start: Date, end: Date): Promise<ScrapingResult> {
+    const now = new Date();
+    const byId = new Map<string, Event>();
+    let staleSince: string | undefined;
+    const periods: Array<'upcoming' | 'past'> = [];
+    if (end.getTime() >= now.getTime()) {
+      periods.push('upcoming');
+    }
+    if (start.getTime() < now.getTime()) {
+      periods.push('past');
     }
 
-    return {};
-  }
+    for (const period of periods) {
+      for (let page = 1; page <= RANGE_MAX_PAGES; page++) {
+        const result = await this.getEvents(page, period, RANGE_PAGE_LIMIT);
+        if (!result.success) {
+          return result;
+        }
+        if (result.stale && result.fetchedAt && (!staleSince || result.fetchedAt < staleSince)) {
+          staleSince = result.fetchedAt;
+        }
 
-  /**
-   * Extract DJ names from B2B (back-to-back) format
-   * Handles formats like: "Ruby B2B Indi Raeva", "DJ1 Back to Back DJ2", etc.
-   */
-  private extractB2BDJNames(b2bText: string): string[] {
-    const djNames: string[] = [];
-    
-    // Common B2B separators
-    const separators = [
-      /\s+b2b\s+/i,           // "Ruby B2B Indi Raeva"
-      /\s+back\s+to\s+back\s+/i, // "Ruby Back to Back Indi Raeva"
-      /\s+vs\s+/i,            // "Ruby vs Indi Raeva"
-      /\s+&\s+/i,             // "Ruby & Indi Raeva"
-      /\s+and\s+/i,           // "Ruby and Indi Raeva"
-      /\s*\+\s*/i,            // "Ruby + Indi Raeva"
-    ];
-
-    for (const separator of separators) {
-      if (separator.test(b2bText)) {
-        const parts = b2bText.split(separator);
-        if (parts.length === 2) {
-          const dj1 = parts[0]?.trim();
-          const dj2 = parts[1]?.trim();
-          
-          if (dj1 && dj2) {
-            djNames.push(dj1, dj2);
-            break;
+        const events = result.events.map(event => this.toAmsterdamEvent(event));
+        for (const event of events) {
+          const time = new Date(event.date).getTime();
+          if (time >= start.getTime() && time <= end.getTime()) {
+            byId.set(event.id, event);
           }
         }
-      }
-    }
 
-    // If no separators found, try to split by common conjunctions
-    if (djNames.length === 0) {
-      const conjunctionPatterns = [
-        /\s+and\s+/i,
-        /\s+&\s+/,
-        /\s*\+\s*/,
-      ];
-
-      for (const pattern of conjunctionPatterns) {
-        if (pattern.test(b2bText)) {
-          const parts = b2bText.split(pattern);
-          if (parts.length === 2) {
-            const dj1 = parts[0]?.trim();
-            const dj2 = parts[1]?.trim();
-            
-            if (dj1 && dj2) {
-              djNames.push(dj1, dj2);
-              break;
-            }
-          }
+        // Upcoming runs soonest first and past runs latest first, so one event
+        // beyond the window means every later page is beyond it too
+        const pastWindow = events.some(event =>
+          period === 'upcoming'
+            ? new Date(event.date).getTime() > end.getTime()
+            : new Date(event.date).getTime() < start.getTime()
+        );
+        if (pastWindow || result.events.length < RANGE_PAGE_LIMIT) {
+          break;
         }
       }
     }
 
-    return djNames;
+    const events = Array.from(byId.values()).sort(
+      (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
+    );
+    console.log(
+      `📅 Found ${events.length} events between ${start.toISOString()} and ${end.toISOString()}`
+    );
+
+    return {
+      events,
+      totalCount: events.length,
+      success: true,
+      ...(staleSince ? { stale: true, fetchedAt: staleSince } : {})
+    };
   }
 
   /**
-   * Classify event type based on title
+   * Rewrite an event's start as an Amsterdam ISO string (`originalDate` keeps the API value).
+   * Dates without an offset are read as Amsterdam wall-clock time.
    */
-  private classifyEventType(title: string): 'ED' | 'Cacao ED' | 'Live Music' | 'Queerstatic' | 'Ecstatic Journey' | undefined {
-    const lowerTitle = title.toLowerCase();
-    
-    console.log(`🎭 Classifying event type for title: "${title}" -> lowercase: "${lowerTitle}"`);
-    
-    // Check for Ecstatic Journey - must be exact phrase to avoid false matches
-    // Use word boundaries to ensure "ecstatic journey" is a complete phrase
-    if (/\becstatic\s+journey\b/i.test(title)) {
-      return 'Ecstatic Journey';
+  private toAmsterdamEvent(event: Event): Event {
+    const instant = toAmsterdamInstant(event.date);
+    if (isNaN(instant.getTime())) {
+      return event;
     }
-    
-    if (lowerTitle.includes('ecstatic dance') || lowerTitle.includes('ed')) {
-      if (lowerTitle.includes('cacao') || lowerTitle.includes('cacao ed')) {
-        return 'Cacao ED';
-      }
-      return 'ED';
-    }
-    
-    if (lowerTitle.includes('live music') || lowerTitle.includes('live')) {
-      return 'Live Music';
-    }
-    
-    if (lowerTitle.includes('queerstatic')) {
-      return 'Queerstatic';
+    return {
+      ...event,
+      date: formatAmsterdamIso(instant),
+    };
+  }
+
+  /**
+   * End as an Amsterdam ISO string: the start plus the event type's `durationMinutes`.
+   * Hipsy's end time isn't read until its field name is confirmed against a recording.
+   */
+  private parseEndDate(
+    event: { date: string },
+    eventType: string | undefined
+  ): { endDate?: string } {
+    const start = toAmsterdamInstant(event.date);
+    const durationMinutes = this.titleParser.taxonomy.get(eventType)?.durationMinutes;
+    if (isNaN(start.getTime()) || !durationMinutes) {
+      return {};
     }
-    
-    console.log(`🎭 No event type found in: "${title}"`);
-    return undefined;
+    return { endDate: formatAmsterdamIso(new Date(start.getTime() + durationMinutes * 60 * 1000)) };
   }
 
   /**
@@ -284,7 +290,7 @@ export class HipsyScraper {
    */
   private convertToPublicUrl(apiUrl: string): string {
     if (!apiUrl) {
-      return 'https://hipsy.nl/odessa-amsterdam-ecstatic-dance';
+      return `https://hipsy.nl/${this.organisationSlug}`;
     }
     
     // Convert API URL to public URL
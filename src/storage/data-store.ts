@@ -0,0 +1,118 @@
+import { join } from 'path';
+import { FileDataStore } from './file-data-store';
+import { SqliteDataStore } from './sqlite-data-store';
+import { KVDataStore } from './kv-data-store';
+
+/**
+ * Minimal persistent document store.
+ * Values are JSON-serialisable documents addressed by a short key such as `groups`.
+ */
+export interface DataStore {
+  readonly backend: DataStoreBackend;
+  get<T>(key: string): Promise<T | null>;
+  set<T>(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export type DataStoreBackend = 'file' | 'sqlite' | 'kv' | 'memory';
+
+/**
+ * Where the file and SQLite backends keep runtime state by default. Kept apart
+ * from src/data, which holds committed data such as djs.json, and git-ignored.
+ */
+export const DEFAULT_DATA_DIR = '.data';
+
+/**
+ * In-process store, used in tests and as a last resort when nothing else is configured
+ */
+export class MemoryDataStore implements DataStore {
+  readonly backend = 'memory' as const;
+  private values: Map<string, string> = new Map();
+
+  async get<T>(key: string): Promise<T | null> {
+    const raw = this.values.get(key);
+    return raw === undefined ? null : (JSON.parse(raw) as T);
+  }
+
+  async set<T>(key: string, value: T): Promise<void> {
+    this.values.set(key, JSON.stringify(value));
+  }
+
+  async delete(key: string): Promise<void> {
+    this.values.delete(key);
+  }
+}
+
+/**
+ * View of another store with every key prefixed, so several venues can share
+ * one backend without seeing each other's groups, subscriptions or follows
+ */
+export class ScopedDataStore implements DataStore {
+  private inner: DataStore;
+  private prefix: string;
+
+  constructor(inner: DataStore, prefix: string) {
+    this.inner = inner;
+    this.prefix = prefix;
+  }
+
+  get backend(): DataStoreBackend {
+    return this.inner.backend;
+  }
+
+  get<T>(key: string): Promise<T | null> {
+    return this.inner.get<T>(`${this.prefix}${key}`);
+  }
+
+  set<T>(key: string, value: T): Promise<void> {
+    return this.inner.set(`${this.prefix}${key}`, value);
+  }
+
+  delete(key: string): Promise<void> {
+    return this.inner.delete(`${this.prefix}${key}`);
+  }
+}
+
+/**
+ * Pick the backend from environment variables.
+ *
+ * STORAGE_BACKEND=file|sqlite|kv selects explicitly. Without it, Vercel KV
+ * (KV_REST_API_URL + KV_REST_API_TOKEN) is used when connected, otherwise JSON files
+ * in STORAGE_DIR (default `.data/`).
+ */
+export function createDataStore(env: NodeJS.ProcessEnv = process.env): DataStore {
+  const kvUrl = env['KV_REST_API_URL'];
+  const kvToken = env['KV_REST_API_TOKEN'];
+  const backend = env['STORAGE_BACKEND'] ?? (kvUrl && kvToken ? 'kv' : 'file');
+
+  switch (backend) {
+    case 'kv':
+      if (!kvUrl || !kvToken) {
+        throw new Error('STORAGE_BACKEND=kv requires KV_REST_API_URL and KV_REST_API_TOKEN');
+      }
+      return new KVDataStore(kvUrl, kvToken, env['STORAGE_KEY_PREFIX'] ?? 'odessa:');
+    case 'sqlite':
+      return new SqliteDataStore(
+        env['STORAGE_SQLITE_PATH'] ?? join(process.cwd(), DEFAULT_DATA_DIR, 'odessa.sqlite')
+      );
+    case 'memory':
+      return new MemoryDataStore();
+    case 'file':
+      return new FileDataStore(env['STORAGE_DIR'] ?? join(process.cwd(), DEFAULT_DATA_DIR));
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND "${backend}" (expected file, sqlite or kv)`);
+  }
+}
+
+let sharedStore: DataStore | null = null;
+
+/**
+ * Shared store for this process, created from the environment on first use
+ */
+export function getDataStore(): DataStore {
+  if (!sharedStore) {
+    sharedStore = createDataStore();
+    console.log(`💾 Using ${sharedStore.backend} storage backend`);
+  }
+  return sharedStore;
+}
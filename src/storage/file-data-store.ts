@@ -0,0 +1,45 @@
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { DataStore } from './data-store';
+
+/**
+ * One JSON file per key (`groups` → `<dir>/groups.json`).
+ * Works for local development and long-running hosts; Vercel's filesystem is read-only.
+ */
+export class FileDataStore implements DataStore {
+  readonly backend = 'file' as const;
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    try {
+      const content = await readFile(this.pathFor(key), 'utf-8');
+      return JSON.parse(content) as T;
+    } catch (error) {
+      if (isErrorWithCode(error, 'ENOENT')) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async set<T>(key: string, value: T): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(this.pathFor(key), `${JSON.stringify(value, null, 2)}\n`, 'utf-8');
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.pathFor(key), { force: true });
+  }
+
+  private pathFor(key: string): string {
+    return join(this.directory, `${key.replace(/[^a-zA-Z0-9_-]/g, '_')}.json`);
+  }
+}
+
+export function isErrorWithCode(error: unknown, code: string): boolean {
+  return !!error && typeof error === 'object' && 'code' in error && error.code === code;
+}
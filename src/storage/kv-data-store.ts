@@ -0,0 +1,54 @@
+import { DataStore } from './data-store';
+
+/**
+ * Key-value backend over the Redis REST protocol used by Vercel KV and Upstash.
+ * This is the backend that survives serverless invocations on Vercel.
+ */
+export class KVDataStore implements DataStore {
+  readonly backend = 'kv' as const;
+  private url: string;
+  private token: string;
+  private keyPrefix: string;
+  private fetchImpl: typeof fetch;
+
+  constructor(url: string, token: string, keyPrefix = 'odessa:', fetchImpl: typeof fetch = fetch) {
+    this.url = url.replace(/\/$/, '');
+    this.token = token;
+    this.keyPrefix = keyPrefix;
+    this.fetchImpl = fetchImpl;
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const result = await this.command(['GET', this.keyPrefix + key]);
+    return typeof result === 'string' ? (JSON.parse(result) as T) : null;
+  }
+
+  async set<T>(key: string, value: T): Promise<void> {
+    await this.command(['SET', this.keyPrefix + key, JSON.stringify(value)]);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.command(['DEL', this.keyPrefix + key]);
+  }
+
+  private async command(args: string[]): Promise<unknown> {
+    const response = await this.fetchImpl(this.url, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(args),
+    });
+
+    const body = (await response.json().catch(() => ({}))) as { result?: unknown; error?: string };
+
+    if (!response.ok || body.error) {
+      throw new Error(
+        `KV ${args[0]} failed: ${response.status} ${body.error ?? response.statusText}`
+      );
+    }
+
+    return body.result ?? null;
+  }
+}
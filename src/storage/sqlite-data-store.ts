@@ -0,0 +1,94 @@
+import { mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import { DataStore } from './data-store';
+
+// Subset of node:sqlite's DatabaseSync that we use (Node 22+)
+interface SqliteStatement {
+  get(...params: unknown[]): unknown;
+  run(...params: unknown[]): unknown;
+}
+
+interface SqliteDatabase {
+  exec(sql: string): void;
+  prepare(sql: string): SqliteStatement;
+  close(): void;
+}
+
+interface SqliteModule {
+  DatabaseSync: new (path: string) => SqliteDatabase;
+}
+
+/**
+ * Embedded SQLite backend using Node's built-in `node:sqlite`.
+ * Keeps every document in a single `kv` table, so one file holds all bot state.
+ */
+export class SqliteDataStore implements DataStore {
+  readonly backend = 'sqlite' as const;
+  private path: string;
+  private database: Promise<SqliteDatabase> | null = null;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const db = await this.open();
+    const row = db.prepare('SELECT value FROM kv WHERE key = ?').get(key) as
+      | { value: string }
+      | undefined;
+    return row ? (JSON.parse(row.value) as T) : null;
+  }
+
+  async set<T>(key: string, value: T): Promise<void> {
+    const db = await this.open();
+    db.prepare(
+      `INSERT INTO kv (key, value, updated_at) VALUES (?, ?, ?)
+       ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at`
+    ).run(key, JSON.stringify(value), new Date().toISOString());
+  }
+
+  async delete(key: string): Promise<void> {
+    const db = await this.open();
+    db.prepare('DELETE FROM kv WHERE key = ?').run(key);
+  }
+
+  /**
+   * Close the database file
+   */
+  async close(): Promise<void> {
+    if (this.database) {
+      (await this.database).close();
+      this.database = null;
+    }
+  }
+
+  private open(): Promise<SqliteDatabase> {
+    if (!this.database) {
+      this.database = this.connect();
+    }
+    return this.database;
+  }
+
+  private async connect(): Promise<SqliteDatabase> {
+    let sqlite: SqliteModule;
+    try {
+      // Kept as a variable so TypeScript doesn't need node:sqlite type definitions
+      const moduleName = 'node:sqlite';
+      sqlite = (await import(moduleName)) as SqliteModule;
+    } catch (error) {
+      throw new Error(
+        `SQLite storage needs Node 22+ with node:sqlite (${error instanceof Error ? error.message : 'unavailable'})`
+      );
+    }
+
+    if (this.path !== ':memory:') {
+      await mkdir(dirname(this.path), { recursive: true });
+    }
+
+    const db = new sqlite.DatabaseSync(this.path);
+    db.exec(
+      'CREATE TABLE IF NOT EXISTS kv (key TEXT PRIMARY KEY, value TEXT NOT NULL, updated_at TEXT NOT NULL)'
+    );
+    return db;
+  }
+}
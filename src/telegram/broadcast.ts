@@ -0,0 +1,63 @@
+import { SubscriptionFeed, SubscriptionManager } from '../utils/subscription-manager';
+import { TelegramApiError } from './client';
+
+export interface BroadcastResult {
+  chatIds: number[];
+  successful: number;
+  failed: number;
+}
+
+/**
+ * Send a scheduled post to every chat subscribed to a feed.
+ * Chats that blocked or removed the bot are unsubscribed so later runs skip them.
+ */
+export async function broadcastToSubscribers(
+  feed: SubscriptionFeed,
+  send: (chatId: number) => Promise<void>,
+  subscriptions: SubscriptionManager = new SubscriptionManager()
+): Promise<BroadcastResult> {
+  let chatIds: number[];
+  try {
+    chatIds = await subscriptions.getSubscribedChats(feed);
+  } catch (error) {
+    // Storage may be unavailable or misconfigured, the venue's default groups still work
+    console.error('Error loading subscriptions:', error);
+    chatIds = subscriptions.getDefaultChats();
+  }
+
+  if (chatIds.length === 0) {
+    console.warn(`⚠️ No chats subscribed to ${feed}`);
+    return { chatIds, successful: 0, failed: 0 };
+  }
+
+  console.log(`📤 Posting ${feed} to ${chatIds.length} chat(s): ${chatIds.join(', ')}`);
+
+  const results = await Promise.allSettled(chatIds.map(chatId => send(chatId)));
+
+  let successful = 0;
+  let failed = 0;
+  for (const [index, result] of results.entries()) {
+    const chatId = chatIds[index] as number;
+    if (result.status === 'fulfilled') {
+      successful++;
+      continue;
+    }
+
+    failed++;
+    console.error(`   Failed for chat ID ${chatId}:`, result.reason);
+
+    if (result.reason instanceof TelegramApiError && result.reason.kind === 'forbidden') {
+      await subscriptions
+        .unsubscribe(chatId)
+        .then(() => console.log(`🔕 Unsubscribed chat ${chatId} after the bot lost access`))
+        .catch(error => console.error(`Error unsubscribing chat ${chatId}:`, error));
+    }
+  }
+
+  console.log(`✅ Posted successfully to ${successful} chat(s)`);
+  if (failed > 0) {
+    console.warn(`⚠️ Failed to post to ${failed} chat(s)`);
+  }
+
+  return { chatIds, successful, failed };
+}
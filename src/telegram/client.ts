@@ -0,0 +1,412 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { InlineKeyboard, InlineQueryResult, TelegramTransport } from './command-registry';
+import { stripTelegramHtml } from './formatting';
+
+export type TelegramErrorKind =
+  | 'parse' // Telegram rejected our HTML entities
+  | 'rate_limit' // 429 Too Many Requests
+  | 'forbidden' // Bot was blocked, kicked or lacks rights in the chat
+  | 'bad_request' // Anything else Telegram refused (bad file_id, unknown chat, ...)
+  | 'server' // 5xx from Telegram
+  | 'network'; // Request never got a response
+
+/**
+ * Error thrown by TelegramClient once fallbacks and retries are exhausted
+ */
+export class TelegramApiError extends Error {
+  readonly kind: TelegramErrorKind;
+  readonly method: string;
+  readonly status?: number | undefined;
+  readonly retryAfterSeconds?: number | undefined;
+
+  constructor(
+    message: string,
+    details: {
+      kind: TelegramErrorKind;
+      method: string;
+      status?: number | undefined;
+      retryAfterSeconds?: number | undefined;
+    }
+  ) {
+    super(message);
+    this.name = 'TelegramApiError';
+    this.kind = details.kind;
+    this.method = details.method;
+    this.status = details.status;
+    this.retryAfterSeconds = details.retryAfterSeconds;
+  }
+
+  get retryable(): boolean {
+    return this.kind === 'rate_limit' || this.kind === 'server' || this.kind === 'network';
+  }
+}
+
+export interface TelegramMediaItem {
+  type: 'photo' | 'video';
+  media: string;
+  caption?: string;
+}
+
+export interface TelegramClientOptions {
+  apiBaseUrl?: string;
+  /** Extra attempts for rate limits, 5xx and network errors */
+  maxRetries?: number;
+  /** Base delay for exponential backoff when Telegram gives no retry_after */
+  retryDelayMs?: number;
+  /** Longest wait before a retry; a longer retry_after is thrown to the caller instead */
+  maxRetryDelayMs?: number;
+  fetch?: typeof fetch;
+}
+
+interface TelegramResponse<T> {
+  ok: boolean;
+  result?: T;
+  description?: string;
+  error_code?: number;
+  parameters?: { retry_after?: number };
+}
+
+// Methods that post something: a network error may hide a delivered message,
+// so retrying could post it twice
+const NON_IDEMPOTENT_METHOD = /^(?:send(?!ChatAction$)|forward|copy)/;
+
+const PARSE_ERROR_PATTERN =
+  /can't parse entities|can't find end tag|unsupported start tag|Bad Request: can't parse/i;
+
+/**
+ * Classify a failed Telegram API response
+ */
+export function classifyTelegramError(status: number, description: string): TelegramErrorKind {
+  if (PARSE_ERROR_PATTERN.test(description)) {
+    return 'parse';
+  }
+  if (status === 429) {
+    return 'rate_limit';
+  }
+  if (status === 403) {
+    return 'forbidden';
+  }
+  if (status >= 500) {
+    return 'server';
+  }
+  return 'bad_request';
+}
+
+/**
+ * Typed client for outgoing Telegram messages.
+ * Used by the webhook, the cron endpoints and OdessaBot so HTML-parse
+ * fallbacks, media fallbacks and retries live in one place.
+ */
+export class TelegramClient implements TelegramTransport {
+  private token: string;
+  private apiBaseUrl: string;
+  private maxRetries: number;
+  private retryDelayMs: number;
+  private maxRetryDelayMs: number;
+  private fetchImpl: typeof fetch;
+
+  constructor(token: string, options: TelegramClientOptions = {}) {
+    this.token = token;
+    this.apiBaseUrl = options.apiBaseUrl ?? 'https://api.telegram.org';
+    this.maxRetries = options.maxRetries ?? 2;
+    this.retryDelayMs = options.retryDelayMs ?? 1000;
+    // Serverless functions get about 10 seconds in total
+    this.maxRetryDelayMs = options.maxRetryDelayMs ?? 3000;
+    this.fetchImpl = options.fetch ?? fetch;
+  }
+
+  /**
+   * Send an HTML message, resending as plain text if Telegram can't parse it
+   */
+  async sendMessage(chatId: number, text: string, keyboard?: InlineKeyboard): Promise<void> {
+    try {
+      await this.call('sendMessage', {
+        chat_id: chatId,
+        text,
+        parse_mode: 'HTML',
+        disable_web_page_preview: true,
+        reply_markup: keyboard,
+      });
+    } catch (error) {
+      if (error instanceof TelegramApiError && error.kind === 'parse') {
+        console.warn('Telegram could not parse HTML, sending plain text instead');
+        await this.sendPlainMessage(chatId, text, keyboard);
+        return;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Send a message without parse mode, stripping our HTML tags
+   */
+  async sendPlainMessage(chatId: number, text: string, keyboard?: InlineKeyboard): Promise<void> {
+    await this.call('sendMessage', {
+      chat_id: chatId,
+      text: stripTelegramHtml(text),
+      disable_web_page_preview: true,
+      reply_markup: keyboard,
+    });
+  }
+
+  /**
+   * Send a photo with caption, falling back to a text message if the photo fails
+   */
+  async sendPhoto(
+    chatId: number,
+    photo: string,
+    caption: string,
+    keyboard?: InlineKeyboard
+  ): Promise<void> {
+    await this.sendMediaWithFallback('sendPhoto', { photo }, chatId, caption, keyboard);
+  }
+
+  /**
+   * Send a video (URL or file_id) with caption, falling back to a text message
+   */
+  async sendVideo(
+    chatId: number,
+    video: string,
+    caption: string,
+    keyboard?: InlineKeyboard
+  ): Promise<void> {
+    await this.sendMediaWithFallback('sendVideo', { video }, chatId, caption, keyboard);
+  }
+
+  /**
+   * Send a map pin
+   */
+  async sendLocation(chatId: number, latitude: number, longitude: number): Promise<void> {
+    await this.call('sendLocation', { chat_id: chatId, latitude, longitude });
+  }
+
+  /**
+   * Send up to 10 photos/videos as an album. Only the first caption is rendered.
+   */
+  async sendMediaGroup(chatId: number, items: TelegramMediaItem[]): Promise<void> {
+    if (items.length === 0) {
+      return;
+    }
+
+    const media = items.slice(0, 10).map(item => ({
+      type: item.type,
+      media: item.media,
+      ...(item.caption ? { caption: item.caption, parse_mode: 'HTML' } : {}),
+    }));
+
+    try {
+      await this.call('sendMediaGroup', { chat_id: chatId, media });
+    } catch (error) {
+      if (error instanceof TelegramApiError && error.kind === 'parse') {
+        await this.call('sendMediaGroup', {
+          chat_id: chatId,
+          media: media.map(({ type, media: file, caption }) => ({
+            type,
+            media: file,
+            ...(caption ? { caption: stripTelegramHtml(caption) } : {}),
+          })),
+        });
+        return;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Show a chat action such as "typing". Failures are logged, never thrown.
+   */
+  async sendChatAction(chatId: number, action: TelegramBot.ChatAction): Promise<void> {
+    try {
+      await this.call('sendChatAction', { chat_id: chatId, action });
+    } catch (error) {
+      console.error('Error sending Telegram chat action:', error);
+    }
+  }
+
+  /**
+   * Replace the text and buttons of a message we sent earlier
+   */
+  async editMessageText(
+    chatId: number,
+    messageId: number,
+    text: string,
+    keyboard?: InlineKeyboard
+  ): Promise<void> {
+    await this.editMessage('editMessageText', 'text', chatId, messageId, text, keyboard);
+  }
+
+  /**
+   * Edit the caption and inline keyboard of a photo or video message
+   */
+  async editMessageCaption(
+    chatId: number,
+    messageId: number,
+    caption: string,
+    keyboard?: InlineKeyboard
+  ): Promise<void> {
+    await this.editMessage('editMessageCaption', 'caption', chatId, messageId, caption, keyboard);
+  }
+
+  private async editMessage(
+    method: 'editMessageText' | 'editMessageCaption',
+    field: 'text' | 'caption',
+    chatId: number,
+    messageId: number,
+    text: string,
+    keyboard?: InlineKeyboard
+  ): Promise<void> {
+    const payload = {
+      chat_id: chatId,
+      message_id: messageId,
+      reply_markup: keyboard,
+      ...(field === 'text' ? { disable_web_page_preview: true } : {}),
+    };
+
+    try {
+      await this.call(method, { ...payload, [field]: text, parse_mode: 'HTML' });
+    } catch (error) {
+      if (!(error instanceof TelegramApiError)) {
+        throw error;
+      }
+      if (error.kind === 'parse') {
+        await this.call(method, { ...payload, [field]: stripTelegramHtml(text) });
+        return;
+      }
+      // Pressing the same button twice edits the message to identical content
+      if (!/message is not modified/i.test(error.message)) {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Stop the loading spinner on an inline button, optionally showing a toast
+   */
+  async answerCallbackQuery(callbackQueryId: string, text?: string): Promise<void> {
+    await this.call('answerCallbackQuery', {
+      callback_query_id: callbackQueryId,
+      ...(text ? { text } : {}),
+    });
+  }
+
+  /**
+   * Answer an inline query; results are cached by Telegram for `cacheTime` seconds
+   */
+  async answerInlineQuery(
+    inlineQueryId: string,
+    results: InlineQueryResult[],
+    options: { cacheTime?: number } = {}
+  ): Promise<void> {
+    await this.call('answerInlineQuery', {
+      inline_query_id: inlineQueryId,
+      results: results.slice(0, 50),
+      cache_time: options.cacheTime ?? 300,
+    });
+  }
+
+  /**
+   * Look up a user's membership (and admin status) in a chat
+   */
+  async getChatMember(chatId: number, userId: number): Promise<TelegramBot.ChatMember> {
+    return this.call<TelegramBot.ChatMember>('getChatMember', { chat_id: chatId, user_id: userId });
+  }
+
+  /**
+   * Send photo/video media, degrading to HTML text and then plain text
+   */
+  private async sendMediaWithFallback(
+    method: 'sendPhoto' | 'sendVideo',
+    media: { photo: string } | { video: string },
+    chatId: number,
+    caption: string,
+    keyboard?: InlineKeyboard
+  ): Promise<void> {
+    try {
+      await this.call(method, {
+        chat_id: chatId,
+        ...media,
+        caption,
+        parse_mode: 'HTML',
+        reply_markup: keyboard,
+      });
+    } catch (error) {
+      if (!(error instanceof TelegramApiError) || error.kind === 'forbidden') {
+        throw error;
+      }
+
+      console.error(`Failed to ${method}, falling back to text:`, error.message);
+      if (error.kind === 'parse') {
+        await this.sendPlainMessage(chatId, caption, keyboard);
+      } else {
+        await this.sendMessage(chatId, caption, keyboard);
+      }
+    }
+  }
+
+  /**
+   * Call a Bot API method, retrying rate limits, 5xx and network failures.
+   * Network failures are only retried for methods that don't post anything, and
+   * a retry_after longer than maxRetryDelayMs is thrown rather than waited out.
+   */
+  async call<T = unknown>(method: string, payload: Record<string, unknown>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.request<T>(method, payload);
+      } catch (error) {
+        if (
+          !(error instanceof TelegramApiError) ||
+          !error.retryable ||
+          attempt >= this.maxRetries ||
+          (error.kind === 'network' && NON_IDEMPOTENT_METHOD.test(method))
+        ) {
+          throw error;
+        }
+
+        const delay =
+          error.retryAfterSeconds !== undefined
+            ? error.retryAfterSeconds * 1000
+            : Math.pow(2, attempt) * this.retryDelayMs;
+        if (delay > this.maxRetryDelayMs) {
+          throw error;
+        }
+        console.warn(
+          `Telegram ${method} failed (${error.kind}), retrying in ${delay}ms (attempt ${attempt + 1}/${this.maxRetries})`
+        );
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  private async request<T>(method: string, payload: Record<string, unknown>): Promise<T> {
+    let response: Response;
+    try {
+      response = await this.fetchImpl(`${this.apiBaseUrl}/bot${this.token}/${method}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(payload),
+      });
+    } catch (error) {
+      throw new TelegramApiError(
+        `Telegram ${method} request failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        { kind: 'network', method }
+      );
+    }
+
+    const body = (await response.json().catch(() => ({}))) as TelegramResponse<T>;
+
+    if (!response.ok || !body.ok) {
+      const status = body.error_code ?? response.status;
+      const description = body.description ?? response.statusText;
+      throw new TelegramApiError(`Telegram API error: ${status} ${description}`, {
+        kind: classifyTelegramError(status, description),
+        method,
+        status,
+        retryAfterSeconds: body.parameters?.retry_after,
+      });
+    }
+
+    return body.result as T;
+  }
+}
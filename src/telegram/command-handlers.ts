@@ -0,0 +1,1030 @@
+import { utcToZonedTime } from 'date-fns-tz';
+import { OdessaTodayGenerator } from '../index';
+import { WhosPlayingFormatter } from '../formatters/whosplaying-formatter';
+import { HipsyScraper } from '../scrapers/hipsy-scraper';
+import { EventTitleParser } from '../parsers/event-title-parser';
+import {
+  EventDescriptionParser,
+  ParsedEventDescription,
+} from '../parsers/event-description-parser';
+import {
+  MAX_WEEK_OFFSET,
+  SCHEDULE_CALLBACK_PREFIX,
+  WeeklyScheduleGenerator,
+} from '../weekly-schedule-generator';
+import { DJRepository, createDJRepository } from '../utils/dj-repository';
+import {
+  ALL_FEEDS,
+  SUBSCRIPTION_FEEDS,
+  SubscriptionFeed,
+  SubscriptionManager,
+  parseSubscriptionFeed,
+} from '../utils/subscription-manager';
+import {
+  REMINDER_LEAD_TIMES,
+  ReminderLeadTime,
+  ReminderManager,
+  isReminderLeadTime,
+} from '../utils/reminder-manager';
+import { FollowManager } from '../utils/follow-manager';
+import { ArchivedEvent, EventArchive } from '../utils/event-archive';
+import { EventTypeTaxonomy, getEventTypeTaxonomy } from '../utils/event-types';
+import { VenueConfig, getDefaultVenue, getVenueDataStore } from '../utils/venue-config';
+import { formatDJsList } from '../formatters/djs-formatter';
+import { formatEventTypes, getDescribedEventTypes } from '../formatters/event-types-formatter';
+import { formatDJHistory, formatPlayedLine } from '../formatters/history-formatter';
+import { DJProfile } from '../types/dj';
+import { Event } from '../types/event';
+import {
+  CallbackContext,
+  CommandContext,
+  CommandRegistry,
+  CommandRegistryOptions,
+  InlineKeyboard,
+  InlineQueryContext,
+  TelegramTransport,
+} from './command-registry';
+import {
+  blockquote,
+  bold,
+  escapeTelegramHtml,
+  fitsInCaption,
+  formatDescriptionQuote,
+  formatDuration,
+  formatShortEventDate,
+  formatStaleNotice,
+  formatTicketBadge,
+  formatTimeRange,
+  getMonthName,
+} from './formatting';
+import { buildInlineResults } from './inline-query';
+
+const AMSTERDAM_TIMEZONE = 'Europe/Amsterdam';
+
+const DJ_CALLBACK_PREFIX = 'dj';
+const MAX_DJ_SUGGESTIONS = 5;
+// Telegram's limit on callback_data
+const MAX_CALLBACK_DATA_BYTES = 64;
+
+export type TodaySchedule = Awaited<
+  ReturnType<OdessaTodayGenerator['generateEnhancedTodaySchedule']>
+>;
+
+/**
+ * Shared dependencies for command handlers, created once per registry
+ */
+export interface CommandServices {
+  todayGenerator: OdessaTodayGenerator;
+  weeklyGenerator: WeeklyScheduleGenerator;
+  djRepository: DJRepository;
+  subscriptions: SubscriptionManager;
+  scraper: HipsyScraper;
+  reminders: ReminderManager;
+  follows: FollowManager;
+  archive: EventArchive;
+  eventTypes: EventTypeTaxonomy;
+  venue: VenueConfig;
+}
+
+/**
+ * Services for one venue: its Hipsy organisation, DJ database and storage scope
+ */
+export function createCommandServices(venue: VenueConfig = getDefaultVenue()): CommandServices {
+  const eventTypes = getEventTypeTaxonomy(venue.eventTypesPath);
+  const scraper = new HipsyScraper(undefined, new EventTitleParser(eventTypes));
+  scraper.setOrganisationSlug(venue.hipsyOrganisationSlug);
+  const djRepository = createDJRepository(venue);
+  const store = getVenueDataStore(venue);
+
+  return {
+    todayGenerator: new OdessaTodayGenerator(
+      scraper,
+      new WhosPlayingFormatter(djRepository, eventTypes, venue),
+      djRepository
+    ),
+    weeklyGenerator: new WeeklyScheduleGenerator(scraper, djRepository, venue),
+    djRepository,
+    subscriptions: new SubscriptionManager(store, venue.defaultGroupChatIds),
+    scraper,
+    reminders: new ReminderManager(store),
+    follows: new FollowManager(store),
+    archive: new EventArchive(store),
+    eventTypes,
+    venue,
+  };
+}
+
+/**
+ * Build the registry with every command for the services' venue.
+ * Registration order is the order shown in /commands; commands whose
+ * copy a venue doesn't configure (/membership, /parking...) are left out.
+ */
+export function createOdessaCommandRegistry(
+  services: CommandServices = createCommandServices(),
+  options: CommandRegistryOptions = {}
+): CommandRegistry {
+  const { venue } = services;
+  const registry = new CommandRegistry({
+    botUsername: options.botUsername ?? venue.botUsername ?? 'odessa_tg_bot',
+    ...(options.rateLimitMs !== undefined ? { rateLimitMs: options.rateLimitMs } : {}),
+  });
+
+  registry
+    .register({
+      command: '/whosplaying',
+      description: "Who's facilitating today",
+      rateLimited: true,
+      showTyping: true,
+      errorMessage: "❌ Sorry, I couldn't fetch today's schedule. Please try again later.",
+      handler: ctx => handleWhosPlaying(ctx, services),
+    })
+    .register({
+      command: '/schedule',
+      description: "This week's schedule",
+      rateLimited: true,
+      showTyping: true,
+      errorMessage:
+        "❌ Sorry, I couldn't fetch the weekly schedule right now. Please try again later.",
+      handler: ctx => handleSchedule(ctx, services),
+    })
+    .register({
+      command: '/next',
+      description: "Who's facilitating next",
+      rateLimited: true,
+      showTyping: true,
+      errorMessage: "❌ Sorry, I couldn't fetch the next event. Please try again later.",
+      handler: ctx => handleNext(ctx, services),
+    })
+    .register({
+      command: '/djs',
+      description: 'List all DJs',
+      errorMessage: "❌ Sorry, I couldn't fetch the DJ list. Please try again later.",
+      handler: async ctx =>
+        ctx.replyText(formatDJsList(await services.djRepository.listProfiles(), venue.name)),
+    })
+    .register({
+      command: '/dj',
+      usage: '/dj [name]',
+      description: 'DJ profile lookup',
+      rateLimited: true,
+      showTyping: true,
+      errorMessage: "❌ Sorry, I couldn't fetch DJ info. Please try again later.",
+      handler: ctx => handleDJ(ctx, services),
+    })
+    .register({
+      command: '/history',
+      usage: '/history [dj]',
+      description: 'When a DJ last played and how often',
+      rateLimited: true,
+      showTyping: true,
+      errorMessage: "❌ Sorry, I couldn't fetch the play history. Please try again later.",
+      handler: ctx => handleHistory(ctx, services),
+    })
+    .register({
+      command: '/discover',
+      description: 'Discover a random DJ',
+      rateLimited: true,
+      showTyping: true,
+      errorMessage: "❌ Sorry, I couldn't fetch a random DJ. Please try again later.",
+      handler: ctx => handleDiscover(ctx, services),
+    })
+    .register({
+      command: '/remindme',
+      description: 'Get a private reminder before an event',
+      rateLimited: true,
+      showTyping: true,
+      errorMessage: "❌ Sorry, I couldn't fetch upcoming events. Please try again later.",
+      handler: ctx => handleRemindMe(ctx, services),
+    })
+    .register({
+      command: '/follow',
+      usage: '/follow [dj]',
+      description: 'Get a private message when a DJ is booked',
+      errorMessage: "❌ Sorry, I couldn't update your follows. Please try again later.",
+      handler: ctx => handleFollow(ctx, services),
+    })
+    .register({
+      command: '/unfollow',
+      usage: '/unfollow [dj]',
+      description: 'Stop following a DJ',
+      errorMessage: "❌ Sorry, I couldn't update your follows. Please try again later.",
+      handler: ctx => handleUnfollow(ctx, services),
+    })
+    .register({
+      command: '/calendar',
+      description: 'Add the programme to your calendar',
+      handler: ctx => handleCalendar(ctx, venue),
+    });
+
+  const { membership } = venue;
+  if (membership) {
+    registry.register({
+      command: '/membership',
+      description: 'Join our MemberShip',
+      handler: ctx =>
+        ctx.replyPhoto(membership.imageUrl, membership.text, {
+          inline_keyboard: [[{ text: '✨ Become a member', url: membership.url }]],
+        }),
+    });
+  }
+
+  registry.register({
+    command: '/location',
+    description: 'Get map pin',
+    errorMessage: "❌ Sorry, I couldn't send the location. Please try again.",
+    handler: ctx => handleLocation(ctx, venue),
+  });
+
+  if (getDescribedEventTypes(services.eventTypes).length > 0) {
+    registry.register({
+      command: '/types',
+      description: 'Event types explained',
+      handler: ctx =>
+        ctx.replyText(
+          formatEventTypes(services.eventTypes, {
+            venueName: venue.name,
+            showMembership: venue.membership !== undefined,
+          })
+        ),
+    });
+  }
+  const { lostPropertyText } = venue;
+  if (lostPropertyText) {
+    registry.register({
+      command: '/lostproperty',
+      description: 'Lost & found info',
+      handler: ctx => ctx.replyText(lostPropertyText),
+    });
+  }
+
+  registry
+    .register({
+      command: '/subscribe',
+      usage: '/subscribe [whosplaying|schedule|lineup]',
+      description: 'Get scheduled posts in this chat',
+      adminOnly: true,
+      errorMessage:
+        "❌ Sorry, I couldn't update this chat's subscriptions. Please try again later.",
+      handler: ctx => handleSubscription(ctx, services, 'subscribe'),
+    })
+    .register({
+      command: '/unsubscribe',
+      usage: '/unsubscribe [whosplaying|schedule|lineup]',
+      description: 'Stop scheduled posts in this chat',
+      adminOnly: true,
+      errorMessage:
+        "❌ Sorry, I couldn't update this chat's subscriptions. Please try again later.",
+      handler: ctx => handleSubscription(ctx, services, 'unsubscribe'),
+    })
+    .register({
+      command: '/commands',
+      description: 'This list',
+      handler: handleCommands,
+    });
+
+  const { parking } = venue;
+  if (parking) {
+    registry.register({
+      command: '/parking',
+      description: `Parking near ${venue.name}`,
+      hidden: true,
+      handler: ctx =>
+        ctx.replyText(
+          parking.text,
+          parking.links.length > 0 ? { inline_keyboard: [parking.links] } : undefined
+        ),
+    });
+  }
+
+  registry
+    .registerCallback({
+      prefix: 'remind',
+      errorMessage: "❌ Sorry, I couldn't set that reminder. Please try again later.",
+      handler: ctx => handleRemindCallback(ctx, services),
+    })
+    .registerCallback({
+      prefix: DJ_CALLBACK_PREFIX,
+      errorMessage: "❌ Sorry, I couldn't fetch DJ info. Please try again later.",
+      handler: ctx => handleDJCallback(ctx, services),
+    })
+    .registerCallback({
+      prefix: SCHEDULE_CALLBACK_PREFIX,
+      errorMessage: "❌ Sorry, I couldn't load that part of the schedule.",
+      handler: ctx => handleScheduleCallback(ctx, services),
+    })
+    .registerInlineHandler(ctx => handleInlineQuery(ctx, services));
+
+  return registry;
+}
+
+/**
+ * Send a generated "who's playing" schedule to a chat.
+ * Multi-DJ days come back as an intro plus one message per DJ.
+ */
+export async function sendTodaySchedule(
+  transport: TelegramTransport,
+  chatId: number,
+  schedule: TodaySchedule
+): Promise<void> {
+  if (schedule.messages && schedule.messages.length > 0) {
+    if (schedule.text) {
+      await transport.sendMessage(chatId, schedule.text);
+    }
+
+    for (const message of schedule.messages) {
+      if (message.photo) {
+        await transport.sendPhoto(chatId, message.photo, message.text, message.keyboard);
+      } else {
+        await transport.sendMessage(chatId, message.text, message.keyboard);
+      }
+    }
+    return;
+  }
+
+  const photo = schedule.photos?.[0];
+  if (photo) {
+    await transport.sendPhoto(chatId, photo, schedule.text, schedule.keyboard);
+  } else {
+    await transport.sendMessage(chatId, schedule.text, schedule.keyboard);
+  }
+}
+
+/**
+ * Handle /whosplaying command
+ */
+async function handleWhosPlaying(ctx: CommandContext, services: CommandServices): Promise<void> {
+  const todaySchedule = await services.todayGenerator.generateEnhancedTodaySchedule();
+  await sendTodaySchedule(ctx.transport, ctx.chatId, todaySchedule);
+}
+
+/**
+ * Handle /schedule command
+ */
+async function handleSchedule(ctx: CommandContext, services: CommandServices): Promise<void> {
+  const { video, text, keyboard } = await services.weeklyGenerator.generateWeeklySchedule();
+  if (video) {
+    await ctx.replyVideo(video, text, keyboard);
+  } else {
+    await ctx.replyText(text, keyboard);
+  }
+}
+
+/**
+ * Handle /schedule buttons: `schedule:week:<offset>` shows another week,
+ * `schedule:day:<offset>:<YYYY-MM-DD>` shows one day in detail
+ */
+async function handleScheduleCallback(
+  ctx: CallbackContext,
+  services: CommandServices
+): Promise<void> {
+  const [view, offsetText, dayKey] = ctx.data.split(':');
+  const weekOffset = Number(offsetText);
+
+  if (!Number.isInteger(weekOffset) || weekOffset < 0 || weekOffset > MAX_WEEK_OFFSET) {
+    await ctx.answer('That week is out of range.');
+    return;
+  }
+
+  if (view === 'day' && dayKey && /^\d{4}-\d{2}-\d{2}$/.test(dayKey)) {
+    const daySchedule = await services.weeklyGenerator.generateDaySchedule(weekOffset, dayKey);
+    await ctx.editText(daySchedule.text, daySchedule.keyboard);
+    return;
+  }
+
+  const weeklySchedule = await services.weeklyGenerator.generateWeeklySchedule(weekOffset);
+  await ctx.editText(weeklySchedule.text, weeklySchedule.keyboard);
+}
+
+/**
+ * Handle /next command - show next upcoming event with countdown
+ */
+async function handleNext(ctx: CommandContext, services: CommandServices): Promise<void> {
+  const { event: nextEvent, staleSince } = await services.todayGenerator.getNextEvent();
+
+  if (!nextEvent) {
+    await ctx.replyText('🚢 No upcoming events found. Check back later!');
+    return;
+  }
+
+  const djInfo = nextEvent.djName ? await services.djRepository.getProfile(nextEvent.djName) : null;
+
+  const buttons: Array<{ text: string; url: string }> = [];
+  if (nextEvent.ticketUrl) {
+    buttons.push({ text: '🎫 TICKETS', url: nextEvent.ticketUrl });
+  }
+  if (djInfo?.soundcloudUrl) {
+    buttons.push({ text: '🎧 LISTEN', url: djInfo.soundcloudUrl });
+  }
+  if (djInfo?.instagramUrl) {
+    buttons.push({ text: '📸 INSTAGRAM', url: djInfo.instagramUrl });
+  }
+
+  const now = new Date();
+  const staleNotice = staleSince ? `\n\n${formatStaleNotice(staleSince)}` : '';
+  let text = `${formatNextEvent(nextEvent, now, services.venue.name)}${staleNotice}`;
+  if (djInfo?.photo && !fitsInCaption(text)) {
+    // Keep the DJ photo; the description quote is what doesn't fit
+    text = `${formatNextEvent(nextEvent, now, services.venue.name, null)}${staleNotice}`;
+  }
+
+  await replyWithOptionalPhoto(ctx, text, djInfo?.photo, toKeyboard(buttons));
+}
+
+/**
+ * Format the /next message for an event; a null description leaves the quote out
+ */
+export function formatNextEvent(
+  event: Event,
+  now: Date = new Date(),
+  venueName = 'Odessa',
+  description: ParsedEventDescription | null = new EventDescriptionParser().parse(
+    event.description ?? ''
+  )
+): string {
+  const eventDateInAmsterdam = utcToZonedTime(new Date(event.date), AMSTERDAM_TIMEZONE);
+  const nowInAmsterdam = utcToZonedTime(now, AMSTERDAM_TIMEZONE);
+
+  const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+  const dayName = dayNames[eventDateInAmsterdam.getDay()];
+  const monthName = getMonthName(eventDateInAmsterdam.getMonth());
+  const dayNum = eventDateInAmsterdam.getDate();
+  const duration = formatDuration(event);
+  const timeText = `${formatTimeRange(event)}${duration ? ` (${duration})` : ''}`;
+
+  const diffMs = eventDateInAmsterdam.getTime() - nowInAmsterdam.getTime();
+  const diffDays = Math.floor(diffMs / (1000 * 60 * 60 * 24));
+  const diffHours = Math.floor((diffMs % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60));
+
+  let relativeTime = '';
+  if (diffDays > 0) {
+    relativeTime = `In ${diffDays} day${diffDays > 1 ? 's' : ''}, ${diffHours} hour${diffHours !== 1 ? 's' : ''}`;
+  } else if (diffHours > 0) {
+    relativeTime = `In ${diffHours} hour${diffHours !== 1 ? 's' : ''}`;
+  } else {
+    relativeTime = 'Starting soon!';
+  }
+
+  const ticketBadge = formatTicketBadge(event);
+  const ticketLine = ticketBadge ? `\n🎟️ ${escapeTelegramHtml(ticketBadge)}` : '';
+  const descriptionQuote = description ? formatDescriptionQuote(description) : undefined;
+  const details = descriptionQuote ? `\n\n${descriptionQuote}` : '';
+
+  return `🚀 <b>Next up at ${escapeTelegramHtml(venueName)}:</b>
+
+🗓️ ${escapeTelegramHtml(dayName)}, ${escapeTelegramHtml(monthName)} ${dayNum} at ${escapeTelegramHtml(timeText)}
+
+🎶 ${escapeTelegramHtml(event.title)}${ticketLine}${details}
+
+⏰ ${escapeTelegramHtml(relativeTime)}`;
+}
+
+/**
+ * Handle /dj command - DJ profile lookup, or the full list without a name
+ */
+async function handleDJ(ctx: CommandContext, services: CommandServices): Promise<void> {
+  const djName = ctx.args.trim();
+
+  if (!djName) {
+    const listText = formatDJsList(await services.djRepository.listProfiles(), services.venue.name);
+    await ctx.replyText(`${listText}\n\n<i>Usage: /dj Samaya</i>`);
+    return;
+  }
+
+  // A typo or a name that fits several DJs gets buttons instead of a guess
+  const resolvedName = services.djRepository.matchName(djName);
+  if (!resolvedName) {
+    const suggestions = buildDJSuggestionKeyboard(
+      services.djRepository.suggestNames(djName, MAX_DJ_SUGGESTIONS)
+    );
+    if (suggestions) {
+      await ctx.replyText(
+        `🤔 No DJ called "${escapeTelegramHtml(djName)}". Did you mean one of these?`,
+        suggestions
+      );
+      return;
+    }
+  }
+
+  const djInfo = await services.djRepository.getProfile(resolvedName ?? djName);
+
+  if (!djInfo) {
+    await ctx.replyText(
+      `❌ DJ "${escapeTelegramHtml(djName)}" not found. Try /dj to see all available DJs.`
+    );
+    return;
+  }
+
+  const profile = await buildDJProfileMessage(services, djInfo, resolvedName ?? djInfo.name);
+  await replyWithOptionalPhoto(ctx, profile.text, profile.photo, profile.keyboard);
+}
+
+/**
+ * A "did you mean" button opens that DJ's profile
+ */
+async function handleDJCallback(ctx: CallbackContext, services: CommandServices): Promise<void> {
+  const djInfo = await services.djRepository.getProfile(ctx.data);
+  if (!djInfo) {
+    await ctx.answer('That DJ is no longer in the database.');
+    return;
+  }
+
+  const profile = await buildDJProfileMessage(services, djInfo, ctx.data);
+  if (profile.photo) {
+    await ctx.transport.sendPhoto(ctx.chatId, profile.photo, profile.text, profile.keyboard);
+  } else {
+    await ctx.replyText(profile.text, profile.keyboard);
+  }
+}
+
+/**
+ * The /dj profile: name, bio, last/next gig and link buttons
+ */
+async function buildDJProfileMessage(
+  services: CommandServices,
+  djInfo: DJProfile,
+  djName: string
+): Promise<{ text: string; photo: string | undefined; keyboard: InlineKeyboard | undefined }> {
+  let text = `🎧 ${bold(djInfo.name.toUpperCase())}`;
+
+  if (djInfo.shortDescription) {
+    text += `\n\n${blockquote(djInfo.shortDescription, { expandable: true })}`;
+  }
+
+  const playedLine = await getPlayedLine(services, djName);
+  if (playedLine) {
+    text += `\n\n${playedLine}`;
+  }
+
+  return { text, photo: djInfo.photo, keyboard: toKeyboard(buildDJLinkButtons(djInfo)) };
+}
+
+/**
+ * One button per suggested DJ, each on its own row
+ */
+function buildDJSuggestionKeyboard(djNames: string[]): InlineKeyboard | undefined {
+  const buttons = djNames
+    .map(djName => ({ text: `🎧 ${djName}`, callback_data: `${DJ_CALLBACK_PREFIX}:${djName}` }))
+    .filter(button => Buffer.byteLength(button.callback_data, 'utf-8') <= MAX_CALLBACK_DATA_BYTES);
+  return buttons.length > 0 ? { inline_keyboard: buttons.map(button => [button]) } : undefined;
+}
+
+/**
+ * Handle /history - how often and when a DJ played, from the event archive
+ */
+async function handleHistory(ctx: CommandContext, services: CommandServices): Promise<void> {
+  const query = ctx.args.trim();
+  if (!query) {
+    await ctx.replyText('📜 Whose history would you like to see?\n\n<i>Usage: /history Samaya</i>');
+    return;
+  }
+
+  const djName = services.djRepository.matchName(query) ?? query;
+  const [played, next] = await Promise.all([
+    findPlayedEvents(services, djName),
+    findNextGig(services, djName),
+  ]);
+  await ctx.replyText(formatDJHistory(djName, played, next, services.venue.name));
+}
+
+/**
+ * "Last played / next playing" for /dj; left out when the archive or Hipsy can't be read
+ */
+async function getPlayedLine(services: CommandServices, djName: string): Promise<string> {
+  try {
+    const [played, next] = await Promise.all([
+      findPlayedEvents(services, djName),
+      findNextGig(services, djName),
+    ]);
+    return formatPlayedLine(played[played.length - 1], next);
+  } catch (error) {
+    console.warn('⚠️ Could not load play history:', error);
+    return '';
+  }
+}
+
+/**
+ * Archived events with the DJ, oldest first
+ */
+async function findPlayedEvents(
+  services: CommandServices,
+  djName: string
+): Promise<ArchivedEvent[]> {
+  const events = await services.archive.getEvents();
+  return events.filter(event => featuresDJ(services, event, djName));
+}
+
+async function findNextGig(services: CommandServices, djName: string): Promise<Event | undefined> {
+  const result = await services.scraper.getEvents(1, 'upcoming', 50);
+  const now = Date.now();
+  return result.events.find(
+    event => new Date(event.date).getTime() > now && featuresDJ(services, event, djName)
+  );
+}
+
+/**
+ * Whether a DJ (database key, or the name as typed for DJs not in the database) plays an event
+ */
+function featuresDJ(
+  services: CommandServices,
+  event: Pick<Event, 'djName' | 'djNames'>,
+  djName: string
+): boolean {
+  if (services.djRepository.resolveEventDJNames(event).includes(djName)) {
+    return true;
+  }
+  const names = event.djNames && event.djNames.length > 0 ? event.djNames : [event.djName];
+  return names.some(name => name?.toLowerCase() === djName.toLowerCase());
+}
+
+/**
+ * Handle /discover command - random DJ discovery
+ */
+async function handleDiscover(ctx: CommandContext, services: CommandServices): Promise<void> {
+  const allDJs = services.djRepository.getAllNames();
+
+  if (allDJs.length === 0) {
+    await ctx.replyText('❌ No DJs found in the database.');
+    return;
+  }
+
+  const randomName = allDJs[Math.floor(Math.random() * allDJs.length)] as string;
+  const djInfo = await services.djRepository.getProfile(randomName);
+
+  let text = `🎲 <b>Discover a DJ</b>
+
+✨ ${bold((djInfo?.name ?? randomName).toUpperCase())} ✨`;
+
+  if (djInfo?.shortDescription) {
+    text += `\n\n${blockquote(djInfo.shortDescription, { expandable: true })}`;
+  }
+
+  text += '\n\nGive them a listen before the next event!';
+
+  const buttons = djInfo ? buildDJLinkButtons(djInfo) : [];
+  await replyWithOptionalPhoto(ctx, text, djInfo?.photo, toKeyboard(buttons));
+}
+
+/**
+ * Handle /location command - map pin followed by map links
+ */
+async function handleLocation(ctx: CommandContext, venue: VenueConfig): Promise<void> {
+  await ctx.replyLocation(venue.latitude, venue.longitude);
+
+  const text =
+    venue.locationText ??
+    `📍 <b>${escapeTelegramHtml(venue.name)} Location</b>\n\n${blockquote(venue.address.join('\n'))}`;
+  const buttons = [
+    [
+      {
+        text: '📍 GOOGLE MAPS',
+        url: `https://maps.google.com/?q=${venue.latitude},${venue.longitude}`,
+      },
+    ],
+  ];
+  if (venue.appleMapsUrl) {
+    buttons.push([{ text: '🍎 APPLE MAPS', url: venue.appleMapsUrl }]);
+  }
+
+  await ctx.replyText(text, { inline_keyboard: buttons });
+}
+
+/**
+ * Handle /remindme - pick an upcoming event, then a lead time (see handleRemindCallback)
+ */
+async function handleRemindMe(ctx: CommandContext, services: CommandServices): Promise<void> {
+  const events = await getUpcomingEvents(services);
+
+  if (events.length === 0) {
+    await ctx.replyText('🚢 No upcoming events found. Check back later!');
+    return;
+  }
+
+  let text = '⏰ <b>Which event should I remind you about?</b>';
+
+  if (ctx.userId !== undefined) {
+    const reminders = await services.reminders.getForUser(ctx.userId);
+    if (reminders.length > 0) {
+      const lines = reminders.map(
+        reminder =>
+          `• ${escapeTelegramHtml(formatShortEventDate(reminder.eventDate))} — ${escapeTelegramHtml(reminder.eventTitle)} (${REMINDER_LEAD_TIMES[reminder.leadTime].label} before)`
+      );
+      text += `\n\n🔔 Your reminders:\n${lines.join('\n')}`;
+    }
+  }
+
+  await ctx.replyText(text, buildEventChoiceKeyboard(events));
+}
+
+/**
+ * Handle /remindme buttons: `remind:<eventId>` asks for a lead time,
+ * `remind:<eventId>:<leadTime>` stores the reminder, `remind:list` goes back
+ */
+async function handleRemindCallback(
+  ctx: CallbackContext,
+  services: CommandServices
+): Promise<void> {
+  const events = await getUpcomingEvents(services);
+
+  if (ctx.data === 'list') {
+    await ctx.editText(
+      '⏰ <b>Which event should I remind you about?</b>',
+      buildEventChoiceKeyboard(events)
+    );
+    return;
+  }
+
+  const [eventId, leadTime] = ctx.data.split(':');
+  const event = events.find(candidate => candidate.id === eventId);
+
+  if (!event) {
+    await ctx.answer('That event is no longer on the schedule.');
+    return;
+  }
+
+  const eventLine = `${bold(event.title)}\n🗓️ ${escapeTelegramHtml(formatShortEventDate(event.date))}`;
+
+  if (!leadTime || !isReminderLeadTime(leadTime)) {
+    const leadTimes = Object.keys(REMINDER_LEAD_TIMES) as ReminderLeadTime[];
+    await ctx.editText(`⏰ When should I remind you about ${eventLine}`, {
+      inline_keyboard: [
+        leadTimes.map(key => ({
+          text: `${REMINDER_LEAD_TIMES[key].label} before`,
+          callback_data: `remind:${event.id}:${key}`,
+        })),
+        [{ text: '« Other events', callback_data: 'remind:list' }],
+      ],
+    });
+    return;
+  }
+
+  const { label, ms } = REMINDER_LEAD_TIMES[leadTime];
+  if (new Date(event.date).getTime() - ms <= Date.now()) {
+    await ctx.answer(`That's less than ${label} away — pick a shorter time.`);
+    return;
+  }
+
+  await services.reminders.add(ctx.userId, event, leadTime);
+
+  if (ctx.isPrivateChat) {
+    await ctx.answer('✅ Reminder set');
+    await ctx.editText(`✅ I'll remind you ${escapeTelegramHtml(label)} before ${eventLine}`);
+  } else {
+    // Leave the group message alone so others can pick their own reminder
+    await ctx.answer(
+      `✅ I'll message you privately ${label} before. Start a private chat with me if you haven't yet.`
+    );
+  }
+}
+
+/**
+ * Handle /follow - follow a DJ, or list followed DJs without a name
+ */
+async function handleFollow(ctx: CommandContext, services: CommandServices): Promise<void> {
+  const userId = ctx.userId;
+  if (userId === undefined) {
+    return;
+  }
+
+  const query = ctx.args.trim();
+  if (!query) {
+    await ctx.replyText(
+      `${await formatFollowedDJs(services, userId)}\n\n<i>Usage: /follow Samaya</i>`
+    );
+    return;
+  }
+
+  const djName = services.djRepository.matchName(query);
+  if (!djName) {
+    await ctx.replyText(`❌ DJ "${escapeTelegramHtml(query)}" not found. Try /djs to see all DJs.`);
+    return;
+  }
+
+  const added = await services.follows.follow(userId, djName);
+  let text = added
+    ? `🔔 You're now following ${bold(djName)}. I'll message you privately when they're booked.`
+    : `🔔 You're already following ${bold(djName)}.`;
+
+  // Gigs that are already on the schedule won't be announced, so show them now
+  const result = await services.scraper.getEvents(1, 'upcoming', 50);
+  const gigs = result.events.filter(event =>
+    services.djRepository.resolveEventDJNames(event).includes(djName)
+  );
+  if (gigs.length > 0) {
+    const lines = gigs.map(
+      event =>
+        `• ${escapeTelegramHtml(formatShortEventDate(event.date))} — ${escapeTelegramHtml(event.title)}`
+    );
+    text += `\n\n🗓️ Already booked:\n${lines.join('\n')}`;
+  }
+
+  if (ctx.message.chat.type !== 'private') {
+    text += "\n\n<i>Start a private chat with me if you haven't yet, so I can message you.</i>";
+  }
+
+  await ctx.replyText(text);
+}
+
+/**
+ * Handle /unfollow - stop following a DJ, or list followed DJs without a name
+ */
+async function handleUnfollow(ctx: CommandContext, services: CommandServices): Promise<void> {
+  const userId = ctx.userId;
+  if (userId === undefined) {
+    return;
+  }
+
+  const query = ctx.args.trim();
+  if (!query) {
+    await ctx.replyText(
+      `${await formatFollowedDJs(services, userId)}\n\n<i>Usage: /unfollow Samaya</i>`
+    );
+    return;
+  }
+
+  const djName = services.djRepository.matchName(query) ?? query;
+  const removed = await services.follows.unfollow(userId, djName);
+  await ctx.replyText(
+    removed
+      ? `🔕 You're no longer following ${bold(djName)}.`
+      : `❌ You're not following "${escapeTelegramHtml(query)}".`
+  );
+}
+
+async function formatFollowedDJs(services: CommandServices, userId: number): Promise<string> {
+  const djNames = await services.follows.getFollowedDJs(userId);
+  if (djNames.length === 0) {
+    return "🔔 You're not following any DJs yet.";
+  }
+  return `🔔 <b>DJs you follow</b>\n\n${djNames.map(djName => `• ${escapeTelegramHtml(djName)}`).join('\n')}`;
+}
+
+/**
+ * Answer `@odessa_tg_bot <query>` with shareable event and DJ cards.
+ * DJ results come from the DJ repository, so a Hipsy outage still answers.
+ */
+async function handleInlineQuery(
+  ctx: InlineQueryContext,
+  services: CommandServices
+): Promise<void> {
+  const result = await services.scraper.getEvents(1, 'upcoming', 50);
+  if (!result.success) {
+    console.warn('⚠️ Inline query without events:', result.error);
+  }
+
+  const results = await buildInlineResults(ctx.text, {
+    events: result.success ? result.events : [],
+    djRepository: services.djRepository,
+    venue: services.venue,
+  });
+  // Short cache when events are missing or stale, so the next query retries Hipsy
+  await ctx.answer(results, { cacheTime: result.success && !result.stale ? 300 : 30 });
+}
+
+/**
+ * Future events from Hipsy for the /remindme picker
+ */
+async function getUpcomingEvents(services: CommandServices): Promise<Event[]> {
+  const result = await services.scraper.getEvents(1, 'upcoming', 10);
+  if (!result.success) {
+    throw new Error(`Failed to fetch upcoming events: ${result.error ?? 'Unknown error'}`);
+  }
+
+  const now = Date.now();
+  return result.events.filter(event => new Date(event.date).getTime() > now).slice(0, 8);
+}
+
+function buildEventChoiceKeyboard(events: Event[]): InlineKeyboard {
+  return {
+    inline_keyboard: events.map(event => {
+      const name =
+        event.djNames && event.djNames.length > 1
+          ? event.djNames.join(' & ')
+          : (event.djName ?? event.title);
+      return [
+        {
+          text: `${formatShortEventDate(event.date)} · ${name}`.slice(0, 60),
+          callback_data: `remind:${event.id}`,
+        },
+      ];
+    }),
+  };
+}
+
+/**
+ * Handle /subscribe and /unsubscribe - without a feed name, all feeds change
+ */
+async function handleSubscription(
+  ctx: CommandContext,
+  services: CommandServices,
+  action: 'subscribe' | 'unsubscribe'
+): Promise<void> {
+  const feedName = ctx.args.trim();
+  let feeds: SubscriptionFeed[] = ALL_FEEDS;
+
+  if (feedName) {
+    const feed = parseSubscriptionFeed(feedName);
+    if (!feed) {
+      await ctx.replyText(
+        `❌ Unknown feed "${escapeTelegramHtml(feedName)}". Choose one of: ${ALL_FEEDS.join(', ')}`
+      );
+      return;
+    }
+    feeds = [feed];
+  }
+
+  const current =
+    action === 'subscribe'
+      ? await services.subscriptions.subscribe(ctx.chatId, feeds)
+      : await services.subscriptions.unsubscribe(ctx.chatId, feeds);
+
+  await ctx.replyText(formatSubscriptionStatus(current));
+}
+
+/**
+ * Describe which scheduled posts a chat receives
+ */
+export function formatSubscriptionStatus(feeds: SubscriptionFeed[]): string {
+  if (feeds.length === 0) {
+    return '🔕 This chat gets no scheduled posts. Use /subscribe to turn them on.';
+  }
+
+  const lines = ALL_FEEDS.map(
+    feed => `${feeds.includes(feed) ? '✅' : '▫️'} ${escapeTelegramHtml(SUBSCRIPTION_FEEDS[feed])}`
+  );
+  return `🔔 <b>Scheduled posts for this chat</b>\n\n${lines.join('\n')}`;
+}
+
+/**
+ * Handle /calendar command - links to the iCalendar feed served by api/calendar.ts
+ */
+async function handleCalendar(ctx: CommandContext, venue: VenueConfig): Promise<void> {
+  const { calendarUrl } = venue;
+  const webcalUrl = calendarUrl.replace(/^https?:\/\//, 'webcal://');
+  const name = escapeTelegramHtml(venue.name);
+
+  await ctx.replyText(
+    `📅 <b>${name} Calendar</b>
+
+Subscribe once and every upcoming ${name} event shows up in your calendar, with DJ info and ticket links. It updates automatically.
+
+🍎 <b>Apple Calendar</b>: File → New Calendar Subscription (Mac) or Settings → Calendar → Accounts → Add Subscribed Calendar (iPhone), then paste:
+<code>${escapeTelegramHtml(calendarUrl)}</code>`,
+    {
+      inline_keyboard: [
+        [
+          {
+            text: '📅 GOOGLE CALENDAR',
+            url: `https://calendar.google.com/calendar/render?cid=${encodeURIComponent(webcalUrl)}`,
+          },
+        ],
+        [{ text: '⬇️ DOWNLOAD .ICS', url: calendarUrl }],
+      ],
+    }
+  );
+}
+
+/**
+ * Handle /commands command - list every visible registered command
+ */
+async function handleCommands(ctx: CommandContext): Promise<void> {
+  const lines = ctx.registry
+    .list()
+    .filter(definition => !definition.hidden)
+    .map(definition => `• ${definition.usage ?? definition.command} — ${definition.description}`);
+
+  await ctx.replyText(`🤖 <b>Available Commands</b>\n\n${lines.join('\n')}`);
+}
+
+/**
+ * SoundCloud, Instagram and website buttons for a DJ profile
+ */
+function buildDJLinkButtons(djInfo: DJProfile): Array<{ text: string; url: string }> {
+  const buttons: Array<{ text: string; url: string }> = [];
+  if (djInfo.soundcloudUrl) {
+    buttons.push({ text: '🎧 SOUNDCLOUD', url: djInfo.soundcloudUrl });
+  }
+  if (djInfo.instagramUrl) {
+    buttons.push({ text: '📸 INSTAGRAM', url: djInfo.instagramUrl });
+  }
+  if (djInfo.website) {
+    buttons.push({ text: '🌐 WEBSITE', url: djInfo.website });
+  }
+  return buttons;
+}
+
+function toKeyboard(buttons: Array<{ text: string; url: string }>): InlineKeyboard | undefined {
+  return buttons.length > 0 ? { inline_keyboard: [buttons] } : undefined;
+}
+
+async function replyWithOptionalPhoto(
+  ctx: CommandContext,
+  text: string,
+  photo: string | undefined,
+  keyboard: InlineKeyboard | undefined
+): Promise<void> {
+  if (photo) {
+    await ctx.replyPhoto(photo, text, keyboard);
+  } else {
+    await ctx.replyText(text, keyboard);
+  }
+}
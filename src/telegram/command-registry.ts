@@ -0,0 +1,431 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { parseTelegramCommand } from './commands';
+
+export type InlineKeyboard = TelegramBot.InlineKeyboardMarkup;
+
+/**
+ * Inline query results we send (current Bot API field names)
+ */
+export type InlineQueryResult =
+  | {
+      type: 'article';
+      id: string;
+      title: string;
+      description?: string;
+      thumbnail_url?: string;
+      input_message_content: { message_text: string; parse_mode?: 'HTML' };
+      reply_markup?: InlineKeyboard;
+    }
+  | {
+      type: 'photo';
+      id: string;
+      photo_url: string;
+      thumbnail_url: string;
+      title?: string;
+      description?: string;
+      caption?: string;
+      parse_mode?: 'HTML';
+      reply_markup?: InlineKeyboard;
+    };
+
+/**
+ * Outgoing side of a Telegram runtime.
+ * The polling bot and the webhook each provide one, so command handlers never
+ * talk to the Telegram API directly.
+ */
+export interface TelegramTransport {
+  sendMessage(chatId: number, text: string, keyboard?: InlineKeyboard): Promise<void>;
+  sendPhoto(
+    chatId: number,
+    photo: string,
+    caption: string,
+    keyboard?: InlineKeyboard
+  ): Promise<void>;
+  sendVideo(
+    chatId: number,
+    video: string,
+    caption: string,
+    keyboard?: InlineKeyboard
+  ): Promise<void>;
+  sendLocation(chatId: number, latitude: number, longitude: number): Promise<void>;
+  sendChatAction(chatId: number, action: TelegramBot.ChatAction): Promise<void>;
+  getChatMember(chatId: number, userId: number): Promise<TelegramBot.ChatMember>;
+  answerCallbackQuery(callbackQueryId: string, text?: string): Promise<void>;
+  editMessageText(
+    chatId: number,
+    messageId: number,
+    text: string,
+    keyboard?: InlineKeyboard
+  ): Promise<void>;
+  editMessageCaption(
+    chatId: number,
+    messageId: number,
+    caption: string,
+    keyboard?: InlineKeyboard
+  ): Promise<void>;
+  answerInlineQuery(
+    inlineQueryId: string,
+    results: InlineQueryResult[],
+    options?: { cacheTime?: number }
+  ): Promise<void>;
+}
+
+/**
+ * Everything a command handler needs to answer a single message
+ */
+export interface CommandContext {
+  command: string;
+  args: string;
+  chatId: number;
+  userId?: number | undefined;
+  message: TelegramBot.Message;
+  transport: TelegramTransport;
+  registry: CommandRegistry;
+  replyText(text: string, keyboard?: InlineKeyboard): Promise<void>;
+  replyPhoto(photo: string, caption: string, keyboard?: InlineKeyboard): Promise<void>;
+  replyVideo(video: string, caption: string, keyboard?: InlineKeyboard): Promise<void>;
+  replyLocation(latitude: number, longitude: number): Promise<void>;
+}
+
+export interface CommandDefinition {
+  /** Command including the leading slash, e.g. `/next` */
+  command: string;
+  /** One-line description shown in /commands */
+  description: string;
+  /** Usage shown in /commands instead of the bare command, e.g. `/dj [name]` */
+  usage?: string;
+  /** Leave the command out of /commands */
+  hidden?: boolean;
+  /** Apply the per-user rate limit before running the handler */
+  rateLimited?: boolean;
+  /** In groups and channels, only let chat administrators run the command */
+  adminOnly?: boolean;
+  /** Show the typing indicator while the handler runs */
+  showTyping?: boolean;
+  /** Sent to the chat when the handler throws */
+  errorMessage?: string;
+  handler(context: CommandContext): Promise<void>;
+}
+
+/**
+ * Everything a callback handler needs to answer an inline button press
+ */
+export interface CallbackContext {
+  /** Callback data after the `prefix:` part */
+  data: string;
+  chatId: number;
+  messageId?: number | undefined;
+  userId: number;
+  /** Whether the button was pressed in a private chat with the bot */
+  isPrivateChat: boolean;
+  query: TelegramBot.CallbackQuery;
+  transport: TelegramTransport;
+  /** Answer the query, optionally with a toast; the registry answers silently otherwise */
+  answer(text?: string): Promise<void>;
+  /** Replace the text (or media caption) and buttons of the message the button belongs to */
+  editText(text: string, keyboard?: InlineKeyboard): Promise<void>;
+  replyText(text: string, keyboard?: InlineKeyboard): Promise<void>;
+}
+
+export interface CallbackDefinition {
+  /** Routes callback data of the form `prefix:payload`, e.g. `remind` */
+  prefix: string;
+  /** Shown as a toast when the handler throws */
+  errorMessage?: string;
+  handler(context: CallbackContext): Promise<void>;
+}
+
+/**
+ * Everything the inline handler needs to answer `@bot query` from any chat
+ */
+export interface InlineQueryContext {
+  /** Query text after the bot username, trimmed */
+  text: string;
+  userId: number;
+  query: TelegramBot.InlineQuery;
+  transport: TelegramTransport;
+  answer(results: InlineQueryResult[], options?: { cacheTime?: number }): Promise<void>;
+}
+
+export type InlineQueryHandler = (context: InlineQueryContext) => Promise<void>;
+
+export type DispatchResult = 'handled' | 'rate_limited' | 'forbidden' | 'ignored' | 'unknown';
+
+export interface CommandRegistryOptions {
+  botUsername?: string | undefined;
+  rateLimitMs?: number;
+}
+
+export const RATE_LIMIT_MS = 60000;
+
+const RATE_LIMIT_MESSAGE = '⏰ Please wait a moment before requesting again.';
+const ADMIN_ONLY_MESSAGE = '🔒 Only group admins can use this command here.';
+
+/**
+ * Single source of truth for bot commands.
+ * Both the polling bot (`OdessaBot`) and the Vercel webhook dispatch incoming
+ * messages through a registry, so a command behaves the same in either runtime.
+ */
+export class CommandRegistry {
+  private commands: Map<string, CommandDefinition> = new Map();
+  private callbacks: Map<string, CallbackDefinition> = new Map();
+  private inlineHandler: InlineQueryHandler | undefined;
+  private userRateLimits: Map<number, number> = new Map();
+  private botUsername: string | undefined;
+  private rateLimitMs: number;
+
+  constructor(options: CommandRegistryOptions = {}) {
+    this.botUsername = options.botUsername;
+    this.rateLimitMs = options.rateLimitMs ?? RATE_LIMIT_MS;
+  }
+
+  /**
+   * Register a command; later registrations replace earlier ones
+   */
+  register(definition: CommandDefinition): this {
+    this.commands.set(definition.command.toLowerCase(), definition);
+    return this;
+  }
+
+  /**
+   * Register an inline button handler for callback data starting with `prefix:`
+   */
+  registerCallback(definition: CallbackDefinition): this {
+    this.callbacks.set(definition.prefix, definition);
+    return this;
+  }
+
+  /**
+   * Set the handler for inline queries (`@bot query` typed in any chat)
+   */
+  registerInlineHandler(handler: InlineQueryHandler): this {
+    this.inlineHandler = handler;
+    return this;
+  }
+
+  /**
+   * Look up a command by name (with leading slash)
+   */
+  get(command: string): CommandDefinition | undefined {
+    return this.commands.get(command.toLowerCase());
+  }
+
+  /**
+   * All registered commands in registration order
+   */
+  list(): CommandDefinition[] {
+    return Array.from(this.commands.values());
+  }
+
+  /**
+   * Route an incoming message to its command handler
+   */
+  async dispatch(
+    message: TelegramBot.Message,
+    transport: TelegramTransport
+  ): Promise<DispatchResult> {
+    const parsed = parseTelegramCommand(message.text, this.botUsername);
+    if (!parsed) {
+      return 'unknown';
+    }
+
+    if (!parsed.isAddressedToThisBot) {
+      console.log(`Ignoring command addressed to @${parsed.botUsername}: ${parsed.command}`);
+      return 'ignored';
+    }
+
+    const definition = this.get(parsed.command);
+    if (!definition) {
+      return 'unknown';
+    }
+
+    const chatId = message.chat.id;
+    const userId = message.from?.id;
+
+    if (definition.rateLimited && userId !== undefined && this.isRateLimited(userId)) {
+      await transport
+        .sendMessage(chatId, RATE_LIMIT_MESSAGE)
+        .catch(error => console.error('Error sending rate limit message:', error));
+      return 'rate_limited';
+    }
+
+    if (definition.adminOnly && !(await this.isChatAdmin(message, transport))) {
+      await transport
+        .sendMessage(chatId, ADMIN_ONLY_MESSAGE)
+        .catch(error => console.error('Error sending admin-only message:', error));
+      return 'forbidden';
+    }
+
+    const context: CommandContext = {
+      command: definition.command,
+      args: parsed.args,
+      chatId,
+      userId,
+      message,
+      transport,
+      registry: this,
+      replyText: (text, keyboard) => transport.sendMessage(chatId, text, keyboard),
+      replyPhoto: (photo, caption, keyboard) =>
+        transport.sendPhoto(chatId, photo, caption, keyboard),
+      replyVideo: (video, caption, keyboard) =>
+        transport.sendVideo(chatId, video, caption, keyboard),
+      replyLocation: (latitude, longitude) => transport.sendLocation(chatId, latitude, longitude),
+    };
+
+    try {
+      if (definition.showTyping) {
+        await transport.sendChatAction(chatId, 'typing');
+      }
+      await definition.handler(context);
+    } catch (error) {
+      console.error(`Error handling ${definition.command} command:`, error);
+      if (definition.errorMessage) {
+        await transport
+          .sendMessage(chatId, definition.errorMessage)
+          .catch(sendError => console.error('Error sending command error message:', sendError));
+      }
+    }
+
+    return 'handled';
+  }
+
+  /**
+   * Route an inline button press to its callback handler.
+   * Every query is answered so the button stops showing a spinner.
+   */
+  async dispatchCallback(
+    query: TelegramBot.CallbackQuery,
+    transport: TelegramTransport
+  ): Promise<DispatchResult> {
+    const separator = (query.data ?? '').indexOf(':');
+    const prefix = separator === -1 ? query.data : query.data?.slice(0, separator);
+    const definition = prefix ? this.callbacks.get(prefix) : undefined;
+    const message = query.message;
+
+    if (!definition || !message) {
+      await transport
+        .answerCallbackQuery(query.id)
+        .catch(error => console.error('Error answering callback query:', error));
+      return 'unknown';
+    }
+
+    let answered = false;
+    const answer = async (text?: string): Promise<void> => {
+      answered = true;
+      await transport.answerCallbackQuery(query.id, text);
+    };
+
+    const context: CallbackContext = {
+      data: separator === -1 ? '' : (query.data ?? '').slice(separator + 1),
+      chatId: message.chat.id,
+      messageId: message.message_id,
+      userId: query.from.id,
+      isPrivateChat: message.chat.type === 'private',
+      query,
+      transport,
+      answer,
+      editText: (text, keyboard) =>
+        message.photo !== undefined || message.video !== undefined
+          ? transport.editMessageCaption(message.chat.id, message.message_id, text, keyboard)
+          : transport.editMessageText(message.chat.id, message.message_id, text, keyboard),
+      replyText: (text, keyboard) => transport.sendMessage(message.chat.id, text, keyboard),
+    };
+
+    try {
+      await definition.handler(context);
+    } catch (error) {
+      console.error(`Error handling ${definition.prefix} callback:`, error);
+      if (!answered) {
+        await answer(definition.errorMessage).catch(answerError =>
+          console.error('Error answering callback query:', answerError)
+        );
+      }
+      return 'handled';
+    }
+
+    if (!answered) {
+      await answer().catch(error => console.error('Error answering callback query:', error));
+    }
+    return 'handled';
+  }
+
+  /**
+   * Route an inline query to the inline handler.
+   * Failures are answered with no results so the client stops waiting.
+   */
+  async dispatchInlineQuery(
+    query: TelegramBot.InlineQuery,
+    transport: TelegramTransport
+  ): Promise<DispatchResult> {
+    const handler = this.inlineHandler;
+    if (!handler) {
+      return 'unknown';
+    }
+
+    let answered = false;
+    const context: InlineQueryContext = {
+      text: query.query.trim(),
+      userId: query.from.id,
+      query,
+      transport,
+      answer: async (results, options) => {
+        answered = true;
+        await transport.answerInlineQuery(query.id, results, options);
+      },
+    };
+
+    try {
+      await handler(context);
+    } catch (error) {
+      console.error('Error handling inline query:', error);
+      if (!answered) {
+        await transport
+          .answerInlineQuery(query.id, [], { cacheTime: 0 })
+          .catch(answerError => console.error('Error answering inline query:', answerError));
+      }
+    }
+
+    return 'handled';
+  }
+
+  /**
+   * Private chats always pass; in groups the sender must be an administrator.
+   * Anonymous admins post as the group itself (`sender_chat`).
+   */
+  private async isChatAdmin(
+    message: TelegramBot.Message,
+    transport: TelegramTransport
+  ): Promise<boolean> {
+    if (message.chat.type === 'private') {
+      return true;
+    }
+    if (message.sender_chat?.id === message.chat.id) {
+      return true;
+    }
+    if (!message.from) {
+      return false;
+    }
+
+    try {
+      const member = await transport.getChatMember(message.chat.id, message.from.id);
+      return member.status === 'creator' || member.status === 'administrator';
+    } catch (error) {
+      console.error('Error checking chat admin status:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Check and update the per-user rate limit
+   */
+  private isRateLimited(userId: number): boolean {
+    const now = Date.now();
+    const lastRequest = this.userRateLimits.get(userId);
+    if (lastRequest && now - lastRequest < this.rateLimitMs) {
+      return true;
+    }
+
+    this.userRateLimits.set(userId, now);
+    return false;
+  }
+}
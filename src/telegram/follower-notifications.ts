@@ -0,0 +1,120 @@
+import { HipsyScraper } from '../scrapers/hipsy-scraper';
+import { Event } from '../types/event';
+import { DJRepository, createDJRepository } from '../utils/dj-repository';
+import { FollowManager } from '../utils/follow-manager';
+import { sanitizeUrl } from '../utils/url-validator';
+import { getDefaultVenue } from '../utils/venue-config';
+import { TelegramApiError } from './client';
+import { InlineKeyboard, TelegramTransport } from './command-registry';
+import { bold, escapeTelegramHtml, formatShortEventDate } from './formatting';
+
+export interface FollowerNotificationOptions {
+  follows?: FollowManager;
+  scraper?: HipsyScraper;
+  djRepository?: DJRepository;
+  /** Venue named in the announcement */
+  venueName?: string;
+  /** Ticket link for events without one of their own; the default venue's otherwise */
+  ticketsUrl?: string;
+}
+
+export interface FollowerNotificationResult {
+  newEvents: number;
+  notified: number;
+  failed: number;
+}
+
+/**
+ * DM /follow users when a newly listed Hipsy event features a DJ they follow.
+ * The first run only records the current events, so nobody gets a burst of old gigs.
+ */
+export async function notifyFollowers(
+  transport: TelegramTransport,
+  options: FollowerNotificationOptions = {}
+): Promise<FollowerNotificationResult> {
+  const follows = options.follows ?? new FollowManager();
+  const scraper = options.scraper ?? new HipsyScraper();
+  const djRepository = options.djRepository ?? createDJRepository(getDefaultVenue());
+  const ticketsUrl = options.ticketsUrl ?? getDefaultVenue().ticketsUrl;
+  const result: FollowerNotificationResult = { newEvents: 0, notified: 0, failed: 0 };
+
+  const upcoming = await scraper.getEvents(1, 'upcoming', 50);
+  if (!upcoming.success || upcoming.stale) {
+    // Don't touch the seen list, or the next successful run would re-announce everything
+    throw new Error(`Failed to fetch upcoming events: ${upcoming.error ?? 'Hipsy unavailable'}`);
+  }
+
+  const seenEventIds = await follows.getSeenEventIds();
+  const currentEventIds = upcoming.events.map(event => event.id);
+
+  if (seenEventIds === null) {
+    console.log(`👀 First follower check, recording ${currentEventIds.length} existing events`);
+    await follows.setSeenEventIds(currentEventIds);
+    return result;
+  }
+
+  const newEvents = upcoming.events.filter(event => !seenEventIds.includes(event.id));
+  result.newEvents = newEvents.length;
+
+  for (const event of newEvents) {
+    // One DM per user, even if they follow both DJs of a B2B
+    const djsByFollower = new Map<number, string[]>();
+    for (const djName of djRepository.resolveEventDJNames(event)) {
+      for (const userId of await follows.getFollowers(djName)) {
+        djsByFollower.set(userId, [...(djsByFollower.get(userId) ?? []), djName]);
+      }
+    }
+
+    for (const [userId, djNames] of djsByFollower) {
+      const profiles = await Promise.all(djNames.map(djName => djRepository.getProfile(djName)));
+      const photo = profiles.map(profile => profile?.photo).find(candidate => !!candidate);
+      const text = formatFollowAnnouncement(event, djNames, options.venueName);
+      const keyboard = buildTicketKeyboard(event, ticketsUrl);
+
+      try {
+        if (photo) {
+          await transport.sendPhoto(userId, photo, text, keyboard);
+        } else {
+          await transport.sendMessage(userId, text, keyboard);
+        }
+        result.notified++;
+      } catch (error) {
+        console.error(`Failed to notify follower ${userId}:`, error);
+        result.failed++;
+        if (error instanceof TelegramApiError && error.kind === 'forbidden') {
+          await follows.removeUser(userId);
+        }
+      }
+    }
+  }
+
+  await follows.setSeenEventIds(currentEventIds);
+
+  console.log(
+    `🔔 Followers: ${result.newEvents} new event(s), ${result.notified} notified, ${result.failed} failed`
+  );
+  return result;
+}
+
+/**
+ * "Samaya is playing at Odessa!" message for followers
+ */
+export function formatFollowAnnouncement(
+  event: Event,
+  djNames: string[],
+  venueName = 'Odessa'
+): string {
+  const names = djNames.map(djName => bold(djName)).join(' & ');
+  return `🔔 ${names} ${djNames.length > 1 ? 'are' : 'is'} playing at ${escapeTelegramHtml(venueName)}!
+
+🎶 ${escapeTelegramHtml(event.title)}
+🗓️ ${escapeTelegramHtml(formatShortEventDate(event.date))}
+
+<i>Use /unfollow to stop these messages.</i>`;
+}
+
+function buildTicketKeyboard(event: Event, ticketsUrl: string): InlineKeyboard {
+  return {
+    inline_keyboard: [[{ text: '🎟️ TICKETS', url: sanitizeUrl(event.ticketUrl, ticketsUrl) }]],
+  };
+}
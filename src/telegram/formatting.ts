@@ -1,3 +1,7 @@
+import { utcToZonedTime } from 'date-fns-tz';
+import { ParsedEventDescription, getDescriptionSummary } from '../parsers/event-description-parser';
+import { Event } from '../types/event';
+
 const HTML_ESCAPE_MAP: Record<string, string> = {
   '&': '&amp;',
   '<': '&lt;',
@@ -6,7 +10,7 @@ const HTML_ESCAPE_MAP: Record<string, string> = {
 };
 
 export function escapeTelegramHtml(value: unknown): string {
-  return String(value ?? '').replace(/[&<>"]/g, char => HTML_ESCAPE_MAP[char] || char);
+  return String(value ?? '').replace(/[&<>"]/g, char => HTML_ESCAPE_MAP[char] ?? char);
 }
 
 export function bold(value: unknown): string {
@@ -32,3 +36,121 @@ export function stripTelegramHtml(value: string): string {
     .replace(/&lt;/g, '<')
     .replace(/&amp;/g, '&');
 }
+
+/** Telegram's limit for photo and video captions, counted after HTML parsing */
+export const MAX_CAPTION_LENGTH = 1024;
+
+/**
+ * Whether HTML text can go out as a caption without Telegram rejecting it
+ */
+export function fitsInCaption(html: string): boolean {
+  return stripTelegramHtml(html).length <= MAX_CAPTION_LENGTH;
+}
+
+const MONTH_NAMES = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+];
+
+/**
+ * "Oct", or "October" with `long`, for a 0-based month as from `Date.getMonth()`
+ */
+export function getMonthName(month: number, options: { long?: boolean } = {}): string {
+  const name = MONTH_NAMES[month] ?? '';
+  return options.long ? name : name.slice(0, 3);
+}
+
+/**
+ * "Sat 20 Oct 20:00" in Amsterdam time
+ */
+export function formatShortEventDate(date: string): string {
+  const eventDate = utcToZonedTime(new Date(date), 'Europe/Amsterdam');
+  const dayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+  const hours = eventDate.getHours().toString().padStart(2, '0');
+  const minutes = eventDate.getMinutes().toString().padStart(2, '0');
+  return `${dayNames[eventDate.getDay()]} ${eventDate.getDate()} ${getMonthName(eventDate.getMonth())} ${hours}:${minutes}`;
+}
+
+/**
+ * "20:00" in Amsterdam time
+ */
+export function formatEventTime(date: string): string {
+  const local = utcToZonedTime(new Date(date), 'Europe/Amsterdam');
+  return `${local.getHours().toString().padStart(2, '0')}:${local.getMinutes().toString().padStart(2, '0')}`;
+}
+
+/**
+ * "20:00–23:30" in Amsterdam time, or just the start when the end is unknown
+ */
+export function formatTimeRange(event: Pick<Event, 'date' | 'endDate'>): string {
+  const start = formatEventTime(event.date);
+  return event.endDate ? `${start}–${formatEventTime(event.endDate)}` : start;
+}
+
+/**
+ * Length in minutes; undefined when the end is unknown
+ */
+export function getEventDurationMinutes(
+  event: Pick<Event, 'date' | 'endDate'>
+): number | undefined {
+  if (!event.endDate) {
+    return undefined;
+  }
+  const minutes = Math.round(
+    (new Date(event.endDate).getTime() - new Date(event.date).getTime()) / (60 * 1000)
+  );
+  return minutes > 0 ? minutes : undefined;
+}
+
+/**
+ * "3h", "3h 30m" or "45m"; undefined when the end is unknown
+ */
+export function formatDuration(event: Pick<Event, 'date' | 'endDate'>): string | undefined {
+  const minutes = getEventDurationMinutes(event);
+  if (minutes === undefined) {
+    return undefined;
+  }
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) {
+    return `${rest}m`;
+  }
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
+
+/**
+ * Footer for programmes served from the cache while Hipsy is unreachable
+ */
+export function formatStaleNotice(fetchedAt: string): string {
+  return italic(
+    `⚠️ Hipsy isn't responding, so this is the programme as of ${formatShortEventDate(fetchedAt)}. It may be out of date.`
+  );
+}
+
+/**
+ * Plain-text ticket badge: "SOLD OUT" when the title says so, otherwise
+ * undefined. Prices and what's left need Hipsy's ticket fields, which haven't
+ * been confirmed against a recorded response yet.
+ */
+export function formatTicketBadge(event: Pick<Event, 'modifiers'>): string | undefined {
+  return event.modifiers?.includes('sold_out') === true ? 'SOLD OUT' : undefined;
+}
+
+/**
+ * Expandable quote with the gist of a parsed Hipsy description (times,
+ * line-up, what to bring); undefined when there is nothing to show
+ */
+export function formatDescriptionQuote(description: ParsedEventDescription): string | undefined {
+  const summary = getDescriptionSummary(description);
+  return summary ? blockquote(summary, { expandable: true }) : undefined;
+}
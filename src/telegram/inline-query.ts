@@ -0,0 +1,196 @@
+import { utcToZonedTime } from 'date-fns-tz';
+import { Event } from '../types/event';
+import { DJProfile } from '../types/dj';
+import { DJRepository } from '../utils/dj-repository';
+import { VenueConfig, getDefaultVenue } from '../utils/venue-config';
+import { InlineKeyboard, InlineQueryResult } from './command-registry';
+import { blockquote, bold, escapeTelegramHtml, formatShortEventDate } from './formatting';
+
+const AMSTERDAM_TIMEZONE = 'Europe/Amsterdam';
+const MAX_INLINE_RESULTS = 20;
+
+const WEEKDAYS: Record<string, number> = {
+  sunday: 0,
+  sun: 0,
+  monday: 1,
+  mon: 1,
+  tuesday: 2,
+  tue: 2,
+  tues: 2,
+  wednesday: 3,
+  wed: 3,
+  thursday: 4,
+  thu: 4,
+  thurs: 4,
+  friday: 5,
+  fri: 5,
+  saturday: 6,
+  sat: 6,
+};
+
+export interface InlineResultSources {
+  /** Upcoming events, soonest first */
+  events: Event[];
+  djRepository: DJRepository;
+  /** Venue named on event cards, Odessa by default */
+  venue?: VenueConfig;
+  now?: Date;
+}
+
+/**
+ * Build inline results for `@bot <query>`: matching upcoming events first,
+ * then DJ cards. Day words (`friday`, `tonight`, `tomorrow`) match events by
+ * Amsterdam date; anything else matches event titles, DJ names and DJ keys.
+ * An empty query lists the next events.
+ */
+export async function buildInlineResults(
+  query: string,
+  sources: InlineResultSources
+): Promise<InlineQueryResult[]> {
+  const now = sources.now ?? new Date();
+  const normalized = query.trim().toLowerCase();
+  const dayFilter = parseDayFilter(normalized, now);
+  const upcoming = sources.events.filter(event => new Date(event.date).getTime() > now.getTime());
+
+  const events = upcoming.filter(event => {
+    if (!normalized) {
+      return true;
+    }
+    if (dayFilter) {
+      return dayFilter(new Date(event.date));
+    }
+    const names = [event.title, event.djName ?? '', ...(event.djNames ?? [])];
+    return names.some(name => name.toLowerCase().includes(normalized));
+  });
+
+  const djNames =
+    normalized && !dayFilter
+      ? sources.djRepository
+          .getAllNames()
+          .filter(name =>
+            [name, ...sources.djRepository.getAliases(name)].some(candidate =>
+              candidate.toLowerCase().includes(normalized)
+            )
+          )
+          .sort((a, b) => a.localeCompare(b, 'en', { sensitivity: 'base' }))
+      : [];
+
+  const shownEvents = events.slice(0, MAX_INLINE_RESULTS);
+  const shownDJNames = djNames.slice(0, MAX_INLINE_RESULTS - shownEvents.length);
+  const [eventResults, djProfiles] = await Promise.all([
+    Promise.all(shownEvents.map(event => buildEventResult(event, sources))),
+    Promise.all(shownDJNames.map(name => sources.djRepository.getProfile(name))),
+  ]);
+
+  return [
+    ...eventResults,
+    ...shownDJNames.map((name, index) => buildDJResult(djProfiles[index] ?? { name })),
+  ];
+}
+
+/**
+ * Match day words against an event's Amsterdam calendar date
+ */
+function parseDayFilter(query: string, now: Date): ((date: Date) => boolean) | null {
+  const today = amsterdamDateKey(now);
+  if (query === 'today' || query === 'tonight') {
+    return date => amsterdamDateKey(date) === today;
+  }
+  if (query === 'tomorrow') {
+    const tomorrow = amsterdamDateKey(new Date(now.getTime() + 24 * 60 * 60 * 1000));
+    return date => amsterdamDateKey(date) === tomorrow;
+  }
+
+  const weekday = WEEKDAYS[query];
+  if (weekday !== undefined) {
+    return date => utcToZonedTime(date, AMSTERDAM_TIMEZONE).getDay() === weekday;
+  }
+  return null;
+}
+
+function amsterdamDateKey(date: Date): string {
+  const local = utcToZonedTime(date, AMSTERDAM_TIMEZONE);
+  return `${local.getFullYear()}-${local.getMonth() + 1}-${local.getDate()}`;
+}
+
+async function buildEventResult(
+  event: Event,
+  sources: InlineResultSources
+): Promise<InlineQueryResult> {
+  const djNames = sources.djRepository.resolveEventDJNames(event);
+  const firstDJ = djNames[0] ? await sources.djRepository.getProfile(djNames[0]) : null;
+  const when = formatShortEventDate(event.date);
+  const venue = sources.venue ?? getDefaultVenue();
+  const place = [venue.name, ...venue.address.slice(0, 1)].join(', ');
+
+  let text = `🎶 ${bold(event.title)}\n\n🗓️ ${escapeTelegramHtml(when)}\n📍 ${escapeTelegramHtml(place)}`;
+  if (djNames.length === 1 && firstDJ?.shortDescription) {
+    text += `\n\n${blockquote(firstDJ.shortDescription, { expandable: true })}`;
+  }
+
+  const buttons: Array<{ text: string; url: string }> = [];
+  if (event.ticketUrl) {
+    buttons.push({ text: '🎫 TICKETS', url: event.ticketUrl });
+  }
+  if (firstDJ?.soundcloudUrl) {
+    buttons.push({ text: '🎧 LISTEN', url: firstDJ.soundcloudUrl });
+  }
+
+  const thumbnail = event.picture ?? firstDJ?.photo;
+  const keyboard = toKeyboard(buttons);
+  return {
+    type: 'article',
+    id: `event-${event.id}`,
+    title: event.title,
+    description: `${when} · ${venue.name}`,
+    input_message_content: { message_text: text, parse_mode: 'HTML' },
+    ...(thumbnail ? { thumbnail_url: thumbnail } : {}),
+    ...(keyboard ? { reply_markup: keyboard } : {}),
+  };
+}
+
+function buildDJResult(info: DJProfile): InlineQueryResult {
+  const { name } = info;
+  let text = `🎧 ${bold(name.toUpperCase())}`;
+  if (info.shortDescription) {
+    text += `\n\n${blockquote(info.shortDescription, { expandable: true })}`;
+  }
+
+  const buttons: Array<{ text: string; url: string }> = [];
+  if (info.soundcloudUrl) {
+    buttons.push({ text: '🎧 SOUNDCLOUD', url: info.soundcloudUrl });
+  }
+  if (info.instagramUrl) {
+    buttons.push({ text: '📸 INSTAGRAM', url: info.instagramUrl });
+  }
+
+  const id = `dj-${name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`;
+  const keyboard = toKeyboard(buttons);
+  const extras = {
+    title: name,
+    ...(info.shortDescription ? { description: info.shortDescription } : {}),
+    ...(keyboard ? { reply_markup: keyboard } : {}),
+  };
+
+  if (info.photo) {
+    return {
+      type: 'photo',
+      id,
+      photo_url: info.photo,
+      thumbnail_url: info.photo,
+      caption: text,
+      parse_mode: 'HTML',
+      ...extras,
+    };
+  }
+  return {
+    type: 'article',
+    id,
+    input_message_content: { message_text: text, parse_mode: 'HTML' },
+    ...extras,
+  };
+}
+
+function toKeyboard(buttons: Array<{ text: string; url: string }>): InlineKeyboard | undefined {
+  return buttons.length > 0 ? { inline_keyboard: [buttons] } : undefined;
+}
@@ -0,0 +1,72 @@
+import { formatLineupUpdate } from '../formatters/lineup-formatter';
+import { HipsyScraper } from '../scrapers/hipsy-scraper';
+import { LineupChange, LineupTracker, diffLineups, toLineupEvent } from '../utils/lineup-tracker';
+import { SubscriptionManager } from '../utils/subscription-manager';
+import { BroadcastResult, broadcastToSubscribers } from './broadcast';
+import { TelegramTransport } from './command-registry';
+
+const LINEUP_PAGE_LIMIT = 50;
+
+export interface LineupAnnouncementOptions {
+  tracker?: LineupTracker;
+  scraper?: HipsyScraper;
+  subscriptions?: SubscriptionManager;
+  now?: Date;
+}
+
+export interface LineupAnnouncementResult {
+  changes: LineupChange[];
+  broadcast?: BroadcastResult;
+}
+
+/**
+ * Diff upcoming Hipsy events against the last snapshot and post a
+ * "lineup update" to chats subscribed to the `lineup` feed.
+ * The first run only stores the snapshot.
+ */
+export async function announceLineupChanges(
+  transport: TelegramTransport,
+  options: LineupAnnouncementOptions = {}
+): Promise<LineupAnnouncementResult> {
+  const tracker = options.tracker ?? new LineupTracker();
+  const scraper = options.scraper ?? new HipsyScraper();
+  const now = options.now ?? new Date();
+
+  const upcoming = await scraper.getEvents(1, 'upcoming', LINEUP_PAGE_LIMIT);
+  if (!upcoming.success || upcoming.stale) {
+    // An empty or outdated result would be reported as lineup changes
+    throw new Error(`Failed to fetch upcoming events: ${upcoming.error ?? 'Hipsy unavailable'}`);
+  }
+
+  const current = upcoming.events.map(toLineupEvent);
+  const previous = await tracker.getSnapshot();
+
+  if (previous === null) {
+    console.log(`👀 First lineup check, recording ${current.length} upcoming events`);
+    await tracker.saveSnapshot(current);
+    return { changes: [] };
+  }
+
+  const lastEvent = current[current.length - 1];
+  const horizon =
+    current.length >= LINEUP_PAGE_LIMIT && lastEvent ? new Date(lastEvent.date) : undefined;
+  const changes = diffLineups(previous, current, { now, ...(horizon ? { horizon } : {}) });
+
+  if (changes.length === 0) {
+    console.log('✅ No lineup changes');
+    await tracker.saveSnapshot(current);
+    return { changes };
+  }
+
+  console.log(`📣 ${changes.length} lineup change(s) detected`);
+  const text = formatLineupUpdate(changes);
+  const broadcast = await broadcastToSubscribers(
+    'lineup',
+    chatId => transport.sendMessage(chatId, text),
+    options.subscriptions
+  );
+
+  // Saved after posting, so a crash mid-run re-announces instead of losing changes
+  await tracker.saveSnapshot(current);
+  return { changes, broadcast };
+}
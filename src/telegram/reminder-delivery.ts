@@ -0,0 +1,99 @@
+import { WhosPlayingFormatter } from '../formatters/whosplaying-formatter';
+import { HipsyScraper } from '../scrapers/hipsy-scraper';
+import { Event } from '../types/event';
+import { REMINDER_LEAD_TIMES, Reminder, ReminderManager } from '../utils/reminder-manager';
+import { TelegramApiError } from './client';
+import { TelegramTransport } from './command-registry';
+
+export interface ReminderDeliveryOptions {
+  reminders?: ReminderManager;
+  scraper?: HipsyScraper;
+  formatter?: WhosPlayingFormatter;
+  now?: Date;
+}
+
+export interface ReminderDeliveryResult {
+  delivered: number;
+  expired: number;
+  failed: number;
+}
+
+/**
+ * Send every due /remindme reminder to the user's private chat.
+ * Delivered, expired and undeliverable reminders are removed; reminders that hit
+ * a temporary Telegram error stay for the next run.
+ */
+export async function deliverDueReminders(
+  transport: TelegramTransport,
+  options: ReminderDeliveryOptions = {}
+): Promise<ReminderDeliveryResult> {
+  const reminders = options.reminders ?? new ReminderManager();
+  const now = options.now ?? new Date();
+  const result: ReminderDeliveryResult = { delivered: 0, expired: 0, failed: 0 };
+
+  const due = await reminders.getDue(now);
+  if (due.length === 0) {
+    return result;
+  }
+
+  // Refresh event details so reminders show the current DJ and ticket link
+  const scraper = options.scraper ?? new HipsyScraper();
+  const formatter = options.formatter ?? new WhosPlayingFormatter();
+  const upcoming = await scraper.getEvents(1, 'upcoming', 50);
+  const eventsById = new Map(upcoming.events.map(event => [event.id, event]));
+
+  const finished: string[] = [];
+
+  for (const reminder of due) {
+    const event = eventsById.get(reminder.eventId) ?? toEvent(reminder);
+
+    if (new Date(event.date).getTime() <= now.getTime()) {
+      console.log(`⏭️ Skipping reminder ${reminder.id}, the event already started`);
+      result.expired++;
+      finished.push(reminder.id);
+      continue;
+    }
+
+    const message = await formatter.formatEventReminder(
+      event,
+      REMINDER_LEAD_TIMES[reminder.leadTime].label
+    );
+    const photo = message.photos?.[0];
+
+    try {
+      if (photo) {
+        await transport.sendPhoto(reminder.userId, photo, message.text, message.keyboard);
+      } else {
+        await transport.sendMessage(reminder.userId, message.text, message.keyboard);
+      }
+      result.delivered++;
+      finished.push(reminder.id);
+    } catch (error) {
+      console.error(`Failed to deliver reminder ${reminder.id}:`, error);
+      result.failed++;
+      if (!(error instanceof TelegramApiError) || !error.retryable) {
+        finished.push(reminder.id);
+      }
+    }
+  }
+
+  await reminders.remove(finished);
+
+  console.log(
+    `⏰ Reminders: ${result.delivered} delivered, ${result.expired} expired, ${result.failed} failed`
+  );
+  return result;
+}
+
+/**
+ * Event details saved with the reminder, used when Hipsy no longer lists the event
+ */
+function toEvent(reminder: Reminder): Event {
+  return {
+    id: reminder.eventId,
+    title: reminder.eventTitle,
+    date: reminder.eventDate,
+    ticketUrl: '',
+    originalDate: reminder.eventDate,
+  };
+}
@@ -12,6 +12,8 @@ export interface DJDatabase {
     instagram?: string;
     website?: string;
     tags?: string[];
+    /** Other spellings that resolve to this entry, e.g. "Ma-rifa" for "Ma'rifa" */
+    aliases?: string[];
   };
 }
 
@@ -30,4 +32,17 @@ export interface EnhancedDJ {
 
 export interface EnhancedDJDatabase {
   [key: string]: EnhancedDJ;
-} 
\ No newline at end of file
+}
+
+/**
+ * A DJ as commands show them, merged from the JSON database and Wix
+ */
+export interface DJProfile {
+  /** Display name */
+  name: string;
+  photo?: string | undefined;
+  shortDescription?: string | undefined;
+  soundcloudUrl?: string | undefined;
+  instagramUrl?: string | undefined;
+  website?: string | undefined;
+}
@@ -1,13 +1,22 @@
+/** Id of an entry in src/data/event-types.json, e.g. 'ED' or 'Cacao ED' */
+export type EventType = string;
+
+/** Flags read from the title, e.g. "(SOLD OUT)" or "Special" */
+export type EventModifier = 'special' | 'sold_out' | 'cancelled' | 'morning';
+
 export interface Event {
   id: string;
   title: string;
   date: string; // ISO date string
+  /** End, as an Amsterdam ISO string; the start plus the event type's default length */
+  endDate?: string;
   picture?: string;
   ticketUrl: string;
   originalDate: string;
   djName?: string | undefined; // Single DJ name for backward compatibility
   djNames?: string[]; // Array of DJ names for B2B events
-  eventType?: 'ED' | 'Cacao ED' | 'Live Music' | 'Queerstatic' | 'Ecstatic Journey' | undefined;
+  eventType?: EventType | undefined;
+  modifiers?: EventModifier[];
   description?: string;
 }
 
@@ -32,4 +41,8 @@ export interface ScrapingResult {
   totalCount: number;
   success: boolean;
   error?: string;
-} 
\ No newline at end of file
+  /** Served from the cache because Hipsy failed; the programme may be out of date */
+  stale?: boolean;
+  /** When a cached result was fetched from Hipsy (ISO string) */
+  fetchedAt?: string;
+}
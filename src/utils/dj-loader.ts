@@ -1,9 +1,19 @@
 import { readFileSync } from 'fs';
 import { join } from 'path';
-import { DJDatabase } from '../types/dj';
+import { DJDatabase, DJProfile } from '../types/dj';
+import { Event } from '../types/event';
+import { DJNameCandidate, foldName, pickConfidentMatch, rankDJNames } from './dj-name-matcher';
 
 export class DJLoader {
+  /** Name of this source in DJ field precedence lists */
+  readonly sourceId = 'json';
   private djData: DJDatabase | null = null;
+  private aliasIndex: Map<string, string> | null = null;
+  private filePath: string;
+
+  constructor(filePath: string = join(process.cwd(), 'src', 'data', 'djs.json')) {
+    this.filePath = filePath;
+  }
 
   /**
    * Load DJ data from JSON file
@@ -14,8 +24,7 @@ export class DJLoader {
     }
 
     try {
-      const filePath = join(process.cwd(), 'src', 'data', 'djs.json');
-      const fileContent = readFileSync(filePath, 'utf-8');
+      const fileContent = readFileSync(this.filePath, 'utf-8');
       this.djData = JSON.parse(fileContent);
       console.log(`✅ DJ data loaded successfully (${Object.keys(this.djData || {}).length} DJs)`);
       return this.djData || {};
@@ -30,21 +39,46 @@ export class DJLoader {
 
   /**
    * Normalize DJ name for matching (trim, lowercase, normalize special characters)
-   * Handles apostrophes, hyphens, and other special characters
+   * Other spellings of a name belong in the entry's `aliases`
    */
   private normalizeName(name: string): string {
     return name
       .trim()
       .toLowerCase()
-      .replace(/[''`]/g, "'") // Normalize different apostrophe types
+      .replace(/[‘’`]/g, "'") // Normalize different apostrophe types
       .replace(/[-–—]/g, "-") // Normalize different hyphen types
-      .replace(/'/g, "-") // Treat apostrophe as hyphen for matching (Ma'rifa = Ma-rifa)
       .replace(/\s+/g, " "); // Normalize whitespace
   }
 
   /**
-   * Find DJ by name with fuzzy matching
-   * Tries exact match first, then case-insensitive, then normalized special chars, then partial match
+   * Normalized alias -> database key, built from each entry's `aliases`
+   */
+  private getAliasIndex(djData: DJDatabase): Map<string, string> {
+    if (this.aliasIndex) {
+      return this.aliasIndex;
+    }
+
+    const index = new Map<string, string>();
+    for (const [key, info] of Object.entries(djData)) {
+      for (const alias of info.aliases ?? []) {
+        const normalized = this.normalizeName(alias);
+        const existing = index.get(normalized);
+        if (existing && existing !== key) {
+          console.warn(`⚠️ DJ alias "${alias}" is used by both ${existing} and ${key}`);
+          continue;
+        }
+        index.set(normalized, key);
+      }
+    }
+    this.aliasIndex = index;
+    return index;
+  }
+
+  /**
+   * Find DJ by name or alias
+   * Tries exact match first, then case-insensitive, then normalized special chars, then aliases,
+   * then the same ignoring accents and punctuation ("Faralduin" is Faralduín). Never guesses:
+   * event titles go through here, and a guest called "Leena" is not Leela.
    */
   private findDJByName(djName: string, djData: DJDatabase): string | null {
     const normalized = this.normalizeName(djName);
@@ -69,20 +103,44 @@ export class DJLoader {
         return key;
       }
     }
-    
-    // Try partial match (if "Ruby" is searched but "RubyDub" exists)
-    for (const key in djData) {
-      const keyLower = this.normalizeName(key);
-      if (keyLower.includes(normalized) || normalized.includes(keyLower)) {
-        return key;
-      }
+
+    // Try aliases ("Ma-rifa" is Ma'rifa)
+    const aliases = this.getAliasIndex(djData);
+    const aliasKey = aliases.get(normalized);
+    if (aliasKey) {
+      return aliasKey;
     }
-    
-    return null;
+
+    // Try names and aliases without accents and punctuation
+    const folded = foldName(djName);
+    const candidate = this.getNameCandidates(djData).find(({ names }) =>
+      names.some(name => foldName(name) === folded)
+    );
+    return folded && candidate ? candidate.key : null;
+  }
+
+  /**
+   * Every entry with the names it goes by, for fuzzy matching
+   */
+  private getNameCandidates(djData: DJDatabase): DJNameCandidate[] {
+    return Object.entries(djData).map(([key, info]) => ({
+      key,
+      names: [key, ...(info.aliases ?? [])],
+    }));
+  }
+
+  /**
+   * Closest database names to a typed name, best first
+   */
+  suggestDJNames(djName: string, limit = 5): string[] {
+    const djData = this.loadDJData();
+    return rankDJNames(djName, this.getNameCandidates(djData))
+      .slice(0, limit)
+      .map(match => match.key);
   }
 
   /**
-   * Get DJ information by name with fuzzy matching
+   * Get DJ information by name or alias
    */
   getDJInfo(djName: string): {
     link?: string;
@@ -100,7 +158,7 @@ export class DJLoader {
       return djData[djName];
     }
 
-    // Try fuzzy matching
+    // Try other spellings and aliases
     const matchedKey = this.findDJByName(djName, djData);
     if (matchedKey) {
       const result = djData[matchedKey];
@@ -111,13 +169,75 @@ export class DJLoader {
   }
 
   /**
-   * Get all DJ names
+   * Profile fields from the JSON database, for the DJ repository
+   */
+  async getProfile(djName: string): Promise<Partial<DJProfile> | null> {
+    const info = this.getDJInfo(djName);
+    if (!info) {
+      return null;
+    }
+    return {
+      name: this.resolveDJName(djName) ?? djName,
+      photo: info.photo,
+      shortDescription: info.shortDescription,
+      soundcloudUrl: info.soundcloud || info.link,
+      instagramUrl: info.instagram,
+      website: info.website,
+    };
+  }
+
+  /**
+   * Resolve a name or alias to the DJ's database key
+   */
+  resolveDJName(djName: string): string | null {
+    const djData = this.loadDJData();
+    if (djData[djName]) {
+      return djName;
+    }
+    return this.findDJByName(djName, djData);
+  }
+
+  /**
+   * Resolve a name someone typed, allowing typos and partial names ("Samya" is Samaya),
+   * as long as one DJ is clearly the best match
+   */
+  matchDJName(query: string): string | null {
+    const resolved = this.resolveDJName(query);
+    if (resolved) {
+      return resolved;
+    }
+    const candidates = this.getNameCandidates(this.loadDJData());
+    return pickConfidentMatch(rankDJNames(query, candidates))?.key ?? null;
+  }
+
+  /**
+   * Resolve every facilitator of an event (B2B or single) to database keys
+   */
+  resolveEventDJNames(event: Pick<Event, 'djName' | 'djNames'>): string[] {
+    const names = event.djNames && event.djNames.length > 0 ? event.djNames : [event.djName];
+    const resolved = names
+      .filter((name): name is string => !!name)
+      .map(name => this.resolveDJName(name))
+      .filter((name): name is string => name !== null);
+    return Array.from(new Set(resolved));
+  }
+
+  /**
+   * Get all DJ names (database keys, without aliases)
    */
   getAllDJNames(): string[] {
     const djData = this.loadDJData();
     return Object.keys(djData);
   }
 
+  /**
+   * Other names a DJ goes by, from their entry's `aliases`
+   */
+  getAliases(djName: string): string[] {
+    const key = this.resolveDJName(djName);
+    return key ? (this.loadDJData()[key]?.aliases ?? []) : [];
+  }
+
   /**
    * Check if DJ exists in database
    */
@@ -0,0 +1,132 @@
+/**
+ * Ranked fuzzy matching of typed DJ names against the DJ database
+ */
+
+/** A database entry and every name it goes by (key first, then aliases) */
+export interface DJNameCandidate {
+  key: string;
+  names: string[];
+}
+
+export interface DJNameMatch {
+  key: string;
+  /** 1 for an exact match, down to 0 for nothing in common */
+  score: number;
+}
+
+/** Lowest score offered as a "did you mean" suggestion */
+const SUGGESTION_SCORE = 0.45;
+/** Lowest score taken as the DJ without asking */
+const CONFIDENT_SCORE = 0.75;
+/** Share of the score a single-word match can reach */
+const WORD_MATCH_WEIGHT = 0.9;
+/** How far the best match has to be ahead of the next one to be taken without asking */
+const CONFIDENT_MARGIN = 0.1;
+
+/**
+ * Lowercase, strip diacritics and punctuation: "Faralduín" -> "faralduin", "Ma'rifa" -> "ma rifa"
+ */
+export function foldName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Levenshtein distance between two strings
+ */
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = (previous[j - 1] as number) + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current[j] = Math.min(
+        (previous[j] as number) + 1,
+        (current[j - 1] as number) + 1,
+        substitution
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length] as number;
+}
+
+function similarity(a: string, b: string): number {
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 0 : 1 - editDistance(a, b) / length;
+}
+
+/**
+ * How well a typed name matches one of a DJ's names, from 0 to 1.
+ * Whole-name and per-word edit distance catch typos ("Samya", "Raiva");
+ * word prefixes catch partial names ("Indi" for "Indi Raeva"); and a name
+ * that appears as a word in the query catches "DJ Leela".
+ */
+export function scoreDJName(query: string, name: string): number {
+  const foldedQuery = foldName(query);
+  const foldedName = foldName(name);
+  if (!foldedQuery || !foldedName) {
+    return 0;
+  }
+  if (foldedQuery === foldedName) {
+    return 1;
+  }
+  // Spacing and punctuation only: "ma-rifa", "marifa", "bart"
+  if (foldedQuery.replace(/ /g, '') === foldedName.replace(/ /g, '')) {
+    return 0.95;
+  }
+
+  const queryTokens = foldedQuery.split(' ');
+  const nameTokens = foldedName.split(' ');
+  let score = similarity(foldedQuery, foldedName);
+
+  if (` ${foldedQuery} `.includes(` ${foldedName} `)) {
+    score = Math.max(score, 0.85);
+  }
+  if (foldedQuery.length >= 3 && nameTokens.some(token => token.startsWith(foldedQuery))) {
+    score = Math.max(score, 0.8);
+  } else if (foldedQuery.length >= 3 && foldedName.includes(foldedQuery)) {
+    score = Math.max(score, 0.65);
+  }
+
+  // A typo in one word of the name ("Raiva" for "Indi Raeva") counts a little less
+  for (const queryToken of queryTokens) {
+    for (const nameToken of nameTokens) {
+      if (queryToken.length >= 3 && nameToken.length >= 3) {
+        score = Math.max(score, similarity(queryToken, nameToken) * WORD_MATCH_WEIGHT);
+      }
+    }
+  }
+  return score;
+}
+
+/**
+ * Candidates worth suggesting for a typed name, best first
+ */
+export function rankDJNames(query: string, candidates: DJNameCandidate[]): DJNameMatch[] {
+  return candidates
+    .map(candidate => ({
+      key: candidate.key,
+      score: Math.max(...candidate.names.map(name => scoreDJName(query, name))),
+    }))
+    .filter(match => match.score >= SUGGESTION_SCORE)
+    .sort((a, b) => b.score - a.score || a.key.localeCompare(b.key, 'en', { sensitivity: 'base' }));
+}
+
+/**
+ * The ranked match to use without asking: good enough and clearly ahead of the rest
+ */
+export function pickConfidentMatch(matches: DJNameMatch[]): DJNameMatch | null {
+  const [best, next] = matches;
+  if (!best || best.score < CONFIDENT_SCORE) {
+    return null;
+  }
+  if (next && best.score < 1 && best.score - next.score < CONFIDENT_MARGIN) {
+    return null;
+  }
+  return best;
+}
@@ -0,0 +1,159 @@
+import { join } from 'path';
+import { DJProfile } from '../types/dj';
+import { Event } from '../types/event';
+import { DJLoader } from './dj-loader';
+import type { VenueConfig } from './venue-config';
+import { WixDJLoader } from './wix-dj-loader';
+
+/**
+ * Somewhere DJ profiles come from: the JSON database ('json') or the Wix CMS ('wix')
+ */
+export interface DJSource {
+  /** Name used in precedence lists */
+  readonly sourceId: string;
+  getProfile(djName: string): Promise<Partial<DJProfile> | null>;
+}
+
+/**
+ * Source order per profile field, e.g. `{ "photo": ["json", "wix"] }`.
+ * Fields not listed use the repository's source order.
+ */
+export type DJFieldPrecedence = Partial<Record<keyof DJProfile, string[]>>;
+
+/**
+ * The one way commands and formatters read DJ data
+ */
+export interface DJRepository {
+  /** Profile merged field by field from every source; null when none knows the DJ */
+  getProfile(djName: string): Promise<DJProfile | null>;
+  /** Profiles of everyone in the DJ database */
+  listProfiles(): Promise<DJProfile[]>;
+  /** Database name for a name or alias, as written in event titles */
+  resolveName(djName: string): string | null;
+  /** Database name for a name someone typed, allowing typos and partial names */
+  matchName(query: string): string | null;
+  /** Database names of every facilitator of an event (B2B or single) */
+  resolveEventDJNames(event: Pick<Event, 'djName' | 'djNames'>): string[];
+  /** Every DJ in the database, by canonical name (aliases left out) */
+  getAllNames(): string[];
+  /** Other names the DJ goes by */
+  getAliases(djName: string): string[];
+  /** Closest database names to a typed name, best first, for "did you mean" */
+  suggestNames(djName: string, limit?: number): string[];
+}
+
+const PROFILE_FIELDS: Array<keyof DJProfile> = [
+  'name',
+  'photo',
+  'shortDescription',
+  'soundcloudUrl',
+  'instagramUrl',
+  'website',
+];
+
+/**
+ * Merges DJ sources field by field: a Wix entry without a photo still gets
+ * the photo from djs.json. The JSON database decides who exists and what
+ * names resolve to; each source is asked with the resolved name.
+ */
+export class MergedDJRepository implements DJRepository {
+  private roster: DJLoader;
+  private sources: DJSource[];
+  private precedence: DJFieldPrecedence;
+
+  /**
+   * @param roster JSON database used for names
+   * @param sources In default precedence order
+   * @param precedence Per-field overrides of the source order
+   */
+  constructor(
+    roster: DJLoader,
+    sources: DJSource[] = [roster],
+    precedence: DJFieldPrecedence = {}
+  ) {
+    this.roster = roster;
+    this.sources = sources;
+    this.precedence = precedence;
+  }
+
+  async getProfile(djName: string): Promise<DJProfile | null> {
+    const name = this.roster.resolveDJName(djName) ?? djName;
+    const found = new Map<string, Partial<DJProfile>>();
+    await Promise.all(
+      this.sources.map(async source => {
+        try {
+          const profile = await source.getProfile(name);
+          if (profile) {
+            found.set(source.sourceId, profile);
+          }
+        } catch (error) {
+          console.warn(`⚠️ DJ source "${source.sourceId}" failed for ${name}:`, error);
+        }
+      })
+    );
+    if (found.size === 0) {
+      return null;
+    }
+
+    const profile: DJProfile = { name };
+    for (const field of PROFILE_FIELDS) {
+      const value = this.getSourceOrder(field)
+        .map(sourceId => found.get(sourceId)?.[field])
+        .find(candidate => !!candidate);
+      if (value) {
+        profile[field] = value;
+      }
+    }
+    return profile;
+  }
+
+  async listProfiles(): Promise<DJProfile[]> {
+    const profiles = await Promise.all(this.getAllNames().map(name => this.getProfile(name)));
+    return profiles.filter((profile): profile is DJProfile => profile !== null);
+  }
+
+  resolveName(djName: string): string | null {
+    return this.roster.resolveDJName(djName);
+  }
+
+  matchName(query: string): string | null {
+    return this.roster.matchDJName(query);
+  }
+
+  resolveEventDJNames(event: Pick<Event, 'djName' | 'djNames'>): string[] {
+    return this.roster.resolveEventDJNames(event);
+  }
+
+  getAllNames(): string[] {
+    return this.roster.getAllDJNames();
+  }
+
+  getAliases(djName: string): string[] {
+    return this.roster.getAliases(djName);
+  }
+
+  suggestNames(djName: string, limit?: number): string[] {
+    return this.roster.suggestDJNames(djName, limit);
+  }
+
+  /**
+   * Sources named in the field's precedence first, then the rest in default order
+   */
+  private getSourceOrder(field: keyof DJProfile): string[] {
+    const sourceIds = this.sources.map(source => source.sourceId);
+    const preferred = (this.precedence[field] ?? []).filter(sourceId =>
+      sourceIds.includes(sourceId)
+    );
+    return [...preferred, ...sourceIds.filter(sourceId => !preferred.includes(sourceId))];
+  }
+}
+
+/**
+ * A venue's DJ repository: Wix first when the venue uses it, then its JSON database,
+ * with the venue's `djFieldPrecedence` on top
+ */
+export function createDJRepository(venue: VenueConfig): DJRepository {
+  const djLoader = new DJLoader(join(process.cwd(), venue.djDatabasePath));
+  const sources: DJSource[] = venue.useWix ? [new WixDJLoader(djLoader), djLoader] : [djLoader];
+  return new MergedDJRepository(djLoader, sources, venue.djFieldPrecedence);
+}
@@ -0,0 +1,149 @@
+import { DJDatabase } from '../types/dj';
+import { foldName } from './dj-name-matcher';
+import { WixDJData } from './wix-dj-loader';
+
+type DJEntry = DJDatabase[string];
+
+/** Field order of a djs.json entry */
+const ENTRY_FIELDS: Array<keyof DJEntry> = [
+  'aliases',
+  'photo',
+  'shortDescription',
+  'soundcloud',
+  'instagram',
+  'website',
+  'link',
+  'tags',
+];
+
+export interface DJSyncDiff {
+  added: string[];
+  /** DJ name and the fields that changed */
+  changed: Array<{ name: string; fields: string[] }>;
+  removed: string[];
+}
+
+/**
+ * djs.json rebuilt from the Wix Team collection. Wix decides who is on the
+ * team and fills the profile fields; fields Wix leaves empty, `aliases` and
+ * `tags` are kept from the current file. A Wix title matching an existing
+ * name or alias keeps that name, so follows and history stay attached.
+ *
+ * @param convertImage Turns `wix:image://` photos into public URLs
+ */
+export function buildSyncedDJDatabase(
+  current: DJDatabase,
+  wixItems: WixDJData[],
+  convertImage: (wixUrl: string) => string
+): DJDatabase {
+  const existingByName = new Map<string, string>();
+  for (const [name, entry] of Object.entries(current)) {
+    for (const candidate of [name, ...(entry.aliases ?? [])]) {
+      existingByName.set(foldName(candidate), name);
+    }
+  }
+
+  const synced: DJDatabase = {};
+  for (const item of wixItems) {
+    const title = item.title.trim();
+    if (!title) {
+      continue;
+    }
+    const name = existingByName.get(foldName(title)) ?? title;
+    if (synced[name]) {
+      console.warn(`⚠️ Wix has "${title}" more than once, keeping the first`);
+      continue;
+    }
+
+    const existing = current[name] ?? {};
+    synced[name] = normalizeEntry({
+      ...existing,
+      ...withoutEmpty({
+        photo: item.photo ? convertImage(item.photo) : undefined,
+        shortDescription: item.shortDescription,
+        soundcloud: item.website,
+        instagram: item.website2,
+        website: item.website1,
+      }),
+    });
+  }
+
+  return Object.fromEntries(
+    Object.keys(synced)
+      .sort()
+      .map(name => [name, synced[name] as DJEntry])
+  );
+}
+
+/**
+ * Who was added, changed or removed between two versions of djs.json
+ */
+export function diffDJDatabases(before: DJDatabase, after: DJDatabase): DJSyncDiff {
+  const diff: DJSyncDiff = { added: [], changed: [], removed: [] };
+
+  for (const [name, entry] of Object.entries(after)) {
+    const previous = before[name];
+    if (!previous) {
+      diff.added.push(name);
+      continue;
+    }
+    const fields = ENTRY_FIELDS.filter(
+      field => JSON.stringify(previous[field]) !== JSON.stringify(entry[field])
+    );
+    if (fields.length > 0) {
+      diff.changed.push({ name, fields });
+    }
+  }
+  diff.removed = Object.keys(before).filter(name => !after[name]);
+
+  return diff;
+}
+
+/**
+ * The diff as printed by `npm run cli sync-djs`
+ */
+export function formatDJSyncDiff(diff: DJSyncDiff): string {
+  if (diff.added.length + diff.changed.length + diff.removed.length === 0) {
+    return 'No changes: djs.json matches Wix.';
+  }
+
+  return [
+    ...diff.added.map(name => `+ ${name}`),
+    ...diff.changed.map(({ name, fields }) => `~ ${name} (${fields.join(', ')})`),
+    ...diff.removed.map(name => `- ${name}`),
+    '',
+    `${diff.added.length} added, ${diff.changed.length} changed, ${diff.removed.length} removed`,
+  ].join('\n');
+}
+
+/**
+ * djs.json text: two-space indent, short lists such as tags on one line
+ */
+export function serializeDJDatabase(database: DJDatabase): string {
+  const json = JSON.stringify(database, null, 2).replace(
+    /\[\n\s+((?:"(?:[^"\\\n]|\\.)*",\n\s+)*"(?:[^"\\\n]|\\.)*")\n\s+\]/g,
+    (list, items: string) => {
+      const inline = `[${items.replace(/,\n\s+/g, ', ')}]`;
+      return inline.length <= 80 ? inline : list;
+    }
+  );
+  return `${json}\n`;
+}
+
+/**
+ * Entry fields in the usual order, without empty values
+ */
+function normalizeEntry(entry: DJEntry): DJEntry {
+  const normalized: Record<string, unknown> = {};
+  for (const field of ENTRY_FIELDS) {
+    const value = entry[field];
+    if (Array.isArray(value) ? value.length > 0 : value?.trim()) {
+      normalized[field] = Array.isArray(value) ? value : value?.trim();
+    }
+  }
+  return normalized as DJEntry;
+}
+
+function withoutEmpty(fields: Record<string, string | undefined>): Partial<DJEntry> {
+  return Object.fromEntries(Object.entries(fields).filter(([, value]) => value?.trim()));
+}
@@ -0,0 +1,150 @@
+import { HipsyScraper } from '../scrapers/hipsy-scraper';
+import { DataStore, getDataStore } from '../storage/data-store';
+import { Event } from '../types/event';
+
+/**
+ * What we keep of a past event: enough to answer "when did X last play"
+ */
+export type ArchivedEvent = Pick<
+  Event,
+  'id' | 'title' | 'date' | 'djName' | 'djNames' | 'eventType'
+>;
+
+interface ArchiveData {
+  /** Oldest first */
+  events: ArchivedEvent[];
+  updatedAt: string;
+}
+
+/**
+ * How far the backfill of older events got; `nextPage` counts from the newest
+ * past event, so it drifts back as new events are archived
+ */
+interface BackfillProgress {
+  nextPage: number;
+  complete: boolean;
+}
+
+const EVENT_ARCHIVE_KEY = 'event-archive';
+const BACKFILL_KEY = 'event-archive-backfill';
+const ARCHIVE_PAGE_LIMIT = 50;
+/** Pages read per run; a backfill that needs more carries on in the next run */
+const ARCHIVE_MAX_PAGES = 20;
+
+export function toArchivedEvent(event: Event): ArchivedEvent {
+  return {
+    id: event.id,
+    title: event.title,
+    date: event.date,
+    ...(event.djName ? { djName: event.djName } : {}),
+    ...(event.djNames && event.djNames.length > 0 ? { djNames: event.djNames } : {}),
+    ...(event.eventType ? { eventType: event.eventType } : {}),
+  };
+}
+
+/**
+ * Past events, kept locally because Hipsy only pages through them newest first
+ */
+export class EventArchive {
+  private store: DataStore;
+
+  constructor(store: DataStore = getDataStore()) {
+    this.store = store;
+  }
+
+  /**
+   * Archived events, oldest first
+   */
+  async getEvents(): Promise<ArchivedEvent[]> {
+    const data = await this.store.get<ArchiveData>(EVENT_ARCHIVE_KEY);
+    return data?.events ?? [];
+  }
+
+  /**
+   * How far back the archive job has read Hipsy's past events
+   */
+  async getBackfillProgress(): Promise<BackfillProgress> {
+    const progress = await this.store.get<BackfillProgress>(BACKFILL_KEY);
+    return progress ?? { nextPage: 1, complete: false };
+  }
+
+  async setBackfillProgress(progress: BackfillProgress): Promise<void> {
+    await this.store.set(BACKFILL_KEY, progress);
+  }
+
+  /**
+   * Store events that have started, replacing earlier copies (titles get
+   * corrected after the fact). Returns how many weren't archived yet.
+   */
+  async addEvents(events: Event[], now: Date = new Date()): Promise<number> {
+    const byId = new Map((await this.getEvents()).map(event => [event.id, event]));
+    let added = 0;
+    for (const event of events) {
+      if (new Date(event.date).getTime() > now.getTime()) {
+        continue;
+      }
+      if (!byId.has(event.id)) {
+        added++;
+      }
+      byId.set(event.id, toArchivedEvent(event));
+    }
+
+    const data: ArchiveData = {
+      events: Array.from(byId.values()).sort(
+        (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
+      ),
+      updatedAt: now.toISOString(),
+    };
+    await this.store.set(EVENT_ARCHIVE_KEY, data);
+    return added;
+  }
+}
+
+/**
+ * Archive job: page through Hipsy's past events, newest first, until a page
+ * holds nothing new. Until Hipsy's oldest page has been read, it then carries
+ * on where the last run's backfill stopped, so a failed or cut-short first
+ * run doesn't leave older history out for good.
+ */
+export async function updateEventArchive(
+  archive: EventArchive,
+  scraper: HipsyScraper,
+  now: Date = new Date()
+): Promise<{ added: number; total: number }> {
+  const backfill = await archive.getBackfillProgress();
+  let added = 0;
+  let page = 1;
+  for (let fetched = 0; fetched < ARCHIVE_MAX_PAGES; fetched++) {
+    const result = await scraper.getEvents(page, 'past', ARCHIVE_PAGE_LIMIT);
+    if (!result.success || result.stale) {
+      throw new Error(`Failed to fetch past events: ${result.error ?? 'Hipsy unavailable'}`);
+    }
+
+    const pageAdded = await archive.addEvents(result.events, now);
+    added += pageAdded;
+    if (result.events.length < ARCHIVE_PAGE_LIMIT) {
+      if (!backfill.complete) {
+        await archive.setBackfillProgress({ nextPage: page + 1, complete: true });
+      }
+      break;
+    }
+    if (!backfill.complete && page + 1 > backfill.nextPage) {
+      backfill.nextPage = page + 1;
+      await archive.setBackfillProgress(backfill);
+    }
+
+    if (pageAdded > 0) {
+      page++;
+    } else if (backfill.complete) {
+      break;
+    } else {
+      // Caught up with the newest events: resume the backfill a page early,
+      // since events archived since then push older ones onto later pages
+      page = Math.max(page + 1, backfill.nextPage - 1);
+    }
+  }
+
+  const total = (await archive.getEvents()).length;
+  console.log(`📚 Archived ${added} new past events (${total} in total)`);
+  return { added, total };
+}
@@ -0,0 +1,184 @@
+import { readFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { utcToZonedTime } from 'date-fns-tz';
+import type { FacilitatorRole } from '../parsers/event-title-parser';
+import { EventType } from '../types/event';
+
+/**
+ * Phrases that must all appear, as whole words, in the series name
+ */
+export type EventTypeMatchRule = string | string[];
+
+export interface EventTypeNames {
+  /** Used in /whosplaying, reminders and /types, e.g. "Cacao Ecstatic Dance" */
+  name: string;
+  /** Used in the weekly schedule, e.g. "Cacao ED" */
+  shortName: string;
+}
+
+/**
+ * One entry of src/data/event-types.json
+ */
+export interface EventTypeDefinition extends EventTypeNames {
+  /** Stored on events as `eventType`; keep it stable once events have been cached */
+  id: EventType;
+  emoji: string;
+  /** /types copy; types without one are left out of /types */
+  description?: string;
+  /** The highest-priority type with a matching rule wins */
+  priority: number;
+  /** Any one rule matching is enough */
+  match: EventTypeMatchRule[];
+  /** Names used instead on Sundays ("Morning ED") */
+  sundayMorning?: EventTypeNames;
+  includedInMembership: boolean;
+  /** Assumed length for events Hipsy sends without an end time */
+  durationMinutes?: number;
+  /** Role of the names in a title of this type ("live" for Live Music); "dj" otherwise */
+  facilitatorRole?: FacilitatorRole;
+}
+
+export interface EventTypeFile {
+  types: EventTypeDefinition[];
+  /** Closing line of /types */
+  footer?: string;
+}
+
+export const DEFAULT_EVENT_TYPES_PATH = join('src', 'data', 'event-types.json');
+
+const FALLBACK_NAME = 'Event';
+const AMSTERDAM_TIMEZONE = 'Europe/Amsterdam';
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * "ecstatic dance" → /\becstatic\s+dance\b/i
+ */
+function toPhrasePattern(phrase: string): RegExp {
+  const words = phrase.trim().split(/\s+/).map(escapeRegExp);
+  return new RegExp(`\\b${words.join('\\s+')}\\b`, 'i');
+}
+
+/**
+ * Event types with their match rules and display names, loaded from a
+ * definition file so a new format only needs a new entry there
+ */
+export class EventTypeTaxonomy {
+  private readonly types: EventTypeDefinition[];
+  private readonly rules: Array<{ type: EventTypeDefinition; patterns: RegExp[][] }>;
+  readonly footer: string | undefined;
+
+  constructor(file: EventTypeFile) {
+    this.types = file.types;
+    this.footer = file.footer;
+    this.rules = [...file.types]
+      .sort((a, b) => b.priority - a.priority)
+      .map(type => ({
+        type,
+        patterns: type.match.map(rule =>
+          (Array.isArray(rule) ? rule : [rule]).map(toPhrasePattern)
+        ),
+      }));
+  }
+
+  /**
+   * Type of a series name such as "Cacao Ecstatic Dance"; undefined when nothing matches
+   */
+  classify(text: string): EventTypeDefinition | undefined {
+    return this.rules.find(({ patterns }) =>
+      patterns.some(rule => rule.every(pattern => pattern.test(text)))
+    )?.type;
+  }
+
+  get(id: string | undefined): EventTypeDefinition | undefined {
+    return id === undefined ? undefined : this.types.find(type => type.id === id);
+  }
+
+  /**
+   * Display name for an event type, using the Sunday variant when the event
+   * falls on a Sunday in Amsterdam. Unknown types show as "Event".
+   */
+  getDisplayName(id: string | undefined, options: { date?: string; short?: boolean } = {}): string {
+    const type = this.get(id);
+    if (!type) {
+      return FALLBACK_NAME;
+    }
+
+    const names =
+      type.sundayMorning && options.date && this.isSunday(options.date) ? type.sundayMorning : type;
+    return options.short ? names.shortName : names.name;
+  }
+
+  /**
+   * Types in file order
+   */
+  list(): EventTypeDefinition[] {
+    return [...this.types];
+  }
+
+  private isSunday(date: string): boolean {
+    return utcToZonedTime(new Date(date), AMSTERDAM_TIMEZONE).getDay() === 0;
+  }
+}
+
+/**
+ * Check a parsed definition file, naming the first bad entry
+ */
+export function validateEventTypeFile(data: unknown, source = 'event types'): EventTypeFile {
+  const file = data as Partial<EventTypeFile> | null;
+  if (!file || !Array.isArray(file.types)) {
+    throw new Error(`${source} must contain a "types" array`);
+  }
+
+  const ids = new Set<string>();
+  for (const type of file.types) {
+    if (!type?.id || !type.name || !type.shortName) {
+      throw new Error(`${source}: every event type needs an id, name and shortName`);
+    }
+    if (ids.has(type.id)) {
+      throw new Error(`${source}: duplicate event type "${type.id}"`);
+    }
+    if (typeof type.priority !== 'number' || !Array.isArray(type.match)) {
+      throw new Error(
+        `${source}: event type "${type.id}" needs a numeric priority and match rules`
+      );
+    }
+    if (
+      type.durationMinutes !== undefined &&
+      !(typeof type.durationMinutes === 'number' && type.durationMinutes > 0)
+    ) {
+      throw new Error(`${source}: event type "${type.id}" needs a positive durationMinutes`);
+    }
+    if (
+      type.facilitatorRole !== undefined &&
+      !['dj', 'live', 'host'].includes(type.facilitatorRole)
+    ) {
+      throw new Error(`${source}: event type "${type.id}" has an unknown facilitatorRole`);
+    }
+    ids.add(type.id);
+  }
+  return file as EventTypeFile;
+}
+
+export function loadEventTypeTaxonomy(filePath: string): EventTypeTaxonomy {
+  const data: unknown = JSON.parse(readFileSync(filePath, 'utf-8'));
+  return new EventTypeTaxonomy(validateEventTypeFile(data, filePath));
+}
+
+const taxonomies = new Map<string, EventTypeTaxonomy>();
+
+/**
+ * Taxonomy for a definition file (relative to the working directory), loaded once per path
+ */
+export function getEventTypeTaxonomy(
+  filePath: string = DEFAULT_EVENT_TYPES_PATH
+): EventTypeTaxonomy {
+  let taxonomy = taxonomies.get(filePath);
+  if (!taxonomy) {
+    taxonomy = loadEventTypeTaxonomy(resolve(process.cwd(), filePath));
+    taxonomies.set(filePath, taxonomy);
+  }
+  return taxonomy;
+}
@@ -0,0 +1,104 @@
+import { DataStore, getDataStore } from '../storage/data-store';
+
+interface FollowData {
+  /** DJ database key → user IDs following them */
+  djs: Record<string, number[]>;
+}
+
+interface SeenEventsData {
+  eventIds: string[];
+}
+
+const FOLLOWS_KEY = 'follows';
+const SEEN_EVENTS_KEY = 'follows-seen-events';
+
+/**
+ * Users following DJs with /follow, plus the events already announced to them
+ */
+export class FollowManager {
+  private store: DataStore;
+
+  constructor(store: DataStore = getDataStore()) {
+    this.store = store;
+  }
+
+  /**
+   * Follow a DJ; returns false if the user already follows them
+   */
+  async follow(userId: number, djName: string): Promise<boolean> {
+    const data = await this.load();
+    const followers = data.djs[djName] ?? [];
+    if (followers.includes(userId)) {
+      return false;
+    }
+
+    data.djs[djName] = [...followers, userId];
+    await this.store.set(FOLLOWS_KEY, data);
+    return true;
+  }
+
+  /**
+   * Unfollow a DJ; returns false if the user wasn't following them
+   */
+  async unfollow(userId: number, djName: string): Promise<boolean> {
+    const data = await this.load();
+    const followers = data.djs[djName] ?? [];
+    if (!followers.includes(userId)) {
+      return false;
+    }
+
+    const remaining = followers.filter(id => id !== userId);
+    if (remaining.length > 0) {
+      data.djs[djName] = remaining;
+    } else {
+      delete data.djs[djName];
+    }
+    await this.store.set(FOLLOWS_KEY, data);
+    return true;
+  }
+
+  /**
+   * Stop every follow of a user, e.g. after they blocked the bot
+   */
+  async removeUser(userId: number): Promise<void> {
+    for (const djName of await this.getFollowedDJs(userId)) {
+      await this.unfollow(userId, djName);
+    }
+  }
+
+  /**
+   * DJs a user follows, alphabetically
+   */
+  async getFollowedDJs(userId: number): Promise<string[]> {
+    const data = await this.load();
+    return Object.keys(data.djs)
+      .filter(djName => data.djs[djName]?.includes(userId))
+      .sort((a, b) => a.localeCompare(b, 'en', { sensitivity: 'base' }));
+  }
+
+  /**
+   * Users following a DJ
+   */
+  async getFollowers(djName: string): Promise<number[]> {
+    const data = await this.load();
+    return data.djs[djName] ?? [];
+  }
+
+  /**
+   * Event IDs already checked for followers, or null before the first run
+   */
+  async getSeenEventIds(): Promise<string[] | null> {
+    const data = await this.store.get<SeenEventsData>(SEEN_EVENTS_KEY);
+    return data?.eventIds ?? null;
+  }
+
+  async setSeenEventIds(eventIds: string[]): Promise<void> {
+    const data: SeenEventsData = { eventIds };
+    await this.store.set(SEEN_EVENTS_KEY, data);
+  }
+
+  private async load(): Promise<FollowData> {
+    const data = await this.store.get<FollowData>(FOLLOWS_KEY);
+    return { djs: data?.djs ?? {} };
+  }
+}
@@ -1,25 +1,26 @@
-import { readFileSync, writeFileSync } from 'fs';
-import { join } from 'path';
+import { DataStore, getDataStore } from '../storage/data-store';
+import { isErrorWithCode } from '../storage/file-data-store';
 
 interface GroupData {
   groups: number[];
 }
 
+const GROUPS_KEY = 'groups';
+
 export class GroupTracker {
-  private groupsFilePath: string;
+  private store: DataStore;
 
-  constructor() {
-    this.groupsFilePath = join(process.cwd(), 'src', 'data', 'groups.json');
+  constructor(store: DataStore = getDataStore()) {
+    this.store = store;
   }
 
   /**
-   * Load group chat IDs from JSON file
+   * Load group chat IDs from storage
    */
-  loadGroups(): number[] {
+  async loadGroups(): Promise<number[]> {
     try {
-      const fileContent = readFileSync(this.groupsFilePath, 'utf-8');
-      const data: GroupData = JSON.parse(fileContent);
-      return data.groups || [];
+      const data = await this.store.get<GroupData>(GROUPS_KEY);
+      return data?.groups ?? [];
     } catch (error) {
       console.error('Error loading groups:', error);
       return [];
@@ -27,16 +28,18 @@ export class GroupTracker {
   }
 
   /**
-   * Save group chat IDs to JSON file
+   * Save group chat IDs to storage
    */
-  saveGroups(groups: number[]): boolean {
+  async saveGroups(groups: number[]): Promise<boolean> {
     try {
       const data: GroupData = { groups };
-      writeFileSync(this.groupsFilePath, JSON.stringify(data, null, 2), 'utf-8');
+      await this.store.set(GROUPS_KEY, data);
       return true;
-    } catch (error: any) {
-      if (error?.code === 'EROFS') {
-        console.warn('Skipping group tracking persistence on read-only filesystem');
+    } catch (error) {
+      if (isErrorWithCode(error, 'EROFS')) {
+        console.warn(
+          `Skipping group tracking persistence on read-only filesystem (${this.store.backend} storage) - set STORAGE_BACKEND=kv`
+        );
       } else {
         console.error('Error saving groups:', error);
       }
@@ -48,25 +51,35 @@ export class GroupTracker {
    * Add a group chat ID if it doesn't already exist
    * Group chat IDs are negative numbers in Telegram
    */
-  addGroup(chatId: number): void {
+  async addGroup(chatId: number): Promise<void> {
     // Only track group chats (negative IDs) and channels (also negative)
     if (chatId >= 0) {
       return; // Skip private chats
     }
 
-    const groups = this.loadGroups();
+    const groups = await this.loadGroups();
     if (!groups.includes(chatId)) {
       groups.push(chatId);
-      if (this.saveGroups(groups)) {
+      if (await this.saveGroups(groups)) {
         console.log(`✅ Added new group/channel: ${chatId}`);
       }
     }
   }
 
+  /**
+   * Stop tracking a group, e.g. after the bot was removed from it
+   */
+  async removeGroup(chatId: number): Promise<void> {
+    const groups = await this.loadGroups();
+    if (groups.includes(chatId)) {
+      await this.saveGroups(groups.filter(id => id !== chatId));
+    }
+  }
+
   /**
    * Get all tracked group chat IDs
    */
-  getAllGroups(): number[] {
+  async getAllGroups(): Promise<number[]> {
     return this.loadGroups();
   }
 
@@ -77,6 +90,3 @@ export class GroupTracker {
     return chatId < 0;
   }
 }
-
-
-
@@ -0,0 +1,74 @@
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DataStore, getDataStore } from '../storage/data-store';
+import { FileDataStore } from '../storage/file-data-store';
+import { Event } from '../types/event';
+
+export interface CachedEvents {
+  events: Event[];
+  /** ISO timestamp of the Hipsy response */
+  fetchedAt: string;
+}
+
+const CACHE_KEY_PREFIX = 'hipsy-events:';
+const DEFAULT_TTL_SECONDS = 300;
+
+/**
+ * Last good Hipsy responses per request, reused while fresh and served
+ * as a stale fallback when the API fails.
+ * TTL comes from HIPSY_CACHE_TTL_SECONDS (default 5 minutes).
+ * With the file backend, copies go to the system temp directory rather than
+ * next to the bot's state: they are disposable, one file per request.
+ */
+export class HipsyCache {
+  private store: DataStore;
+  private ttlMs: number;
+
+  constructor(
+    store: DataStore = getDefaultCacheStore(),
+    ttlSeconds: number = parseTtlSeconds(process.env['HIPSY_CACHE_TTL_SECONDS'])
+  ) {
+    this.store = store;
+    this.ttlMs = ttlSeconds * 1000;
+  }
+
+  /**
+   * Stored copy for a request key, or null (also when storage is unavailable)
+   */
+  async get(key: string): Promise<CachedEvents | null> {
+    try {
+      return await this.store.get<CachedEvents>(CACHE_KEY_PREFIX + key);
+    } catch (error) {
+      console.warn('⚠️ Could not read Hipsy cache:', error);
+      return null;
+    }
+  }
+
+  async set(key: string, events: Event[], now: Date = new Date()): Promise<void> {
+    try {
+      await this.store.set<CachedEvents>(CACHE_KEY_PREFIX + key, {
+        events,
+        fetchedAt: now.toISOString(),
+      });
+    } catch (error) {
+      console.warn('⚠️ Could not write Hipsy cache:', error);
+    }
+  }
+
+  /**
+   * Whether a stored copy is young enough to skip the API
+   */
+  isFresh(entry: CachedEvents, now: Date = new Date()): boolean {
+    return now.getTime() - new Date(entry.fetchedAt).getTime() < this.ttlMs;
+  }
+}
+
+function getDefaultCacheStore(): DataStore {
+  const store = getDataStore();
+  return store.backend === 'file' ? new FileDataStore(join(tmpdir(), 'odessa-hipsy-cache')) : store;
+}
+
+function parseTtlSeconds(value: string | undefined): number {
+  const seconds = Number(value);
+  return value && Number.isFinite(seconds) && seconds >= 0 ? seconds : DEFAULT_TTL_SECONDS;
+}
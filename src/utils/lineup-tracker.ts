@@ -0,0 +1,110 @@
+import { DataStore, getDataStore } from '../storage/data-store';
+import { Event } from '../types/event';
+
+/**
+ * The parts of an upcoming event we compare between runs
+ */
+export interface LineupEvent {
+  id: string;
+  title: string;
+  date: string;
+  djNames: string[];
+}
+
+export type LineupChange =
+  | { type: 'added'; event: LineupEvent }
+  | { type: 'cancelled'; event: LineupEvent }
+  | { type: 'moved'; event: LineupEvent; previousDate: string }
+  | { type: 'dj_changed'; event: LineupEvent; previousDJNames: string[] };
+
+interface LineupSnapshot {
+  events: LineupEvent[];
+  updatedAt: string;
+}
+
+const LINEUP_SNAPSHOT_KEY = 'lineup-snapshot';
+
+/**
+ * Reduce a Hipsy event to what a lineup update cares about.
+ * DJ names come from the scraper's title parsing (`extractDJName`).
+ */
+export function toLineupEvent(event: Event): LineupEvent {
+  const djNames =
+    event.djNames && event.djNames.length > 0 ? event.djNames : event.djName ? [event.djName] : [];
+  return { id: event.id, title: event.title, date: event.date, djNames };
+}
+
+/**
+ * Compare two snapshots of upcoming events.
+ *
+ * Events that disappear after they started are in the past, not cancelled.
+ * Pass `horizon` when the current list was cut off by a page limit, so events
+ * beyond the last fetched one aren't reported as cancelled either.
+ */
+export function diffLineups(
+  previous: LineupEvent[],
+  current: LineupEvent[],
+  options: { now?: Date; horizon?: Date } = {}
+): LineupChange[] {
+  const now = (options.now ?? new Date()).getTime();
+  const horizon = options.horizon?.getTime() ?? Infinity;
+  const previousById = new Map(previous.map(event => [event.id, event]));
+  const currentIds = new Set(current.map(event => event.id));
+  const changes: LineupChange[] = [];
+
+  for (const event of current) {
+    const before = previousById.get(event.id);
+    if (!before) {
+      changes.push({ type: 'added', event });
+      continue;
+    }
+
+    if (new Date(before.date).getTime() !== new Date(event.date).getTime()) {
+      changes.push({ type: 'moved', event, previousDate: before.date });
+    }
+
+    if (normalizeDJNames(before.djNames) !== normalizeDJNames(event.djNames)) {
+      changes.push({ type: 'dj_changed', event, previousDJNames: before.djNames });
+    }
+  }
+
+  for (const event of previous) {
+    const start = new Date(event.date).getTime();
+    if (!currentIds.has(event.id) && start > now && start <= horizon) {
+      changes.push({ type: 'cancelled', event });
+    }
+  }
+
+  return changes.sort((a, b) => a.event.date.localeCompare(b.event.date));
+}
+
+function normalizeDJNames(djNames: string[]): string {
+  return djNames
+    .map(name => name.trim().toLowerCase())
+    .sort()
+    .join('|');
+}
+
+/**
+ * Last seen lineup of upcoming events, used to detect changes between runs
+ */
+export class LineupTracker {
+  private store: DataStore;
+
+  constructor(store: DataStore = getDataStore()) {
+    this.store = store;
+  }
+
+  /**
+   * Previous snapshot, or null before the first run
+   */
+  async getSnapshot(): Promise<LineupEvent[] | null> {
+    const data = await this.store.get<LineupSnapshot>(LINEUP_SNAPSHOT_KEY);
+    return data?.events ?? null;
+  }
+
+  async saveSnapshot(events: LineupEvent[]): Promise<void> {
+    const data: LineupSnapshot = { events, updatedAt: new Date().toISOString() };
+    await this.store.set(LINEUP_SNAPSHOT_KEY, data);
+  }
+}
@@ -0,0 +1,103 @@
+import { DataStore, getDataStore } from '../storage/data-store';
+import { Event } from '../types/event';
+
+export type ReminderLeadTime = '1h' | '3h' | '1d';
+
+export const REMINDER_LEAD_TIMES: Record<ReminderLeadTime, { label: string; ms: number }> = {
+  '1h': { label: '1 hour', ms: 60 * 60 * 1000 },
+  '3h': { label: '3 hours', ms: 3 * 60 * 60 * 1000 },
+  '1d': { label: '1 day', ms: 24 * 60 * 60 * 1000 },
+};
+
+export interface Reminder {
+  id: string;
+  userId: number;
+  eventId: string;
+  eventTitle: string;
+  eventDate: string;
+  leadTime: ReminderLeadTime;
+  remindAt: string;
+  createdAt: string;
+}
+
+interface ReminderData {
+  reminders: Reminder[];
+}
+
+const REMINDERS_KEY = 'reminders';
+
+export function isReminderLeadTime(value: string): value is ReminderLeadTime {
+  return value in REMINDER_LEAD_TIMES;
+}
+
+/**
+ * Personal event reminders set with /remindme, delivered by the reminders cron
+ */
+export class ReminderManager {
+  private store: DataStore;
+
+  constructor(store: DataStore = getDataStore()) {
+    this.store = store;
+  }
+
+  /**
+   * Store a reminder, replacing an existing one for the same user, event and lead time
+   */
+  async add(userId: number, event: Event, leadTime: ReminderLeadTime): Promise<Reminder> {
+    const remindAt = new Date(new Date(event.date).getTime() - REMINDER_LEAD_TIMES[leadTime].ms);
+    const reminder: Reminder = {
+      id: `${userId}:${event.id}:${leadTime}`,
+      userId,
+      eventId: event.id,
+      eventTitle: event.title,
+      eventDate: event.date,
+      leadTime,
+      remindAt: remindAt.toISOString(),
+      createdAt: new Date().toISOString(),
+    };
+
+    const data = await this.load();
+    data.reminders = data.reminders.filter(existing => existing.id !== reminder.id);
+    data.reminders.push(reminder);
+    await this.store.set(REMINDERS_KEY, data);
+    return reminder;
+  }
+
+  /**
+   * Reminders whose time has come, oldest first
+   */
+  async getDue(now: Date = new Date()): Promise<Reminder[]> {
+    const data = await this.load();
+    return data.reminders
+      .filter(reminder => new Date(reminder.remindAt).getTime() <= now.getTime())
+      .sort((a, b) => a.remindAt.localeCompare(b.remindAt));
+  }
+
+  /**
+   * Upcoming reminders for one user
+   */
+  async getForUser(userId: number): Promise<Reminder[]> {
+    const data = await this.load();
+    return data.reminders.filter(reminder => reminder.userId === userId);
+  }
+
+  /**
+   * Delete reminders, e.g. after they were delivered
+   */
+  async remove(ids: string[]): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+
+    const data = await this.load();
+    const remaining = data.reminders.filter(reminder => !ids.includes(reminder.id));
+    if (remaining.length !== data.reminders.length) {
+      await this.store.set(REMINDERS_KEY, { reminders: remaining });
+    }
+  }
+
+  private async load(): Promise<ReminderData> {
+    const data = await this.store.get<ReminderData>(REMINDERS_KEY);
+    return { reminders: data?.reminders ?? [] };
+  }
+}
@@ -0,0 +1,160 @@
+import { DataStore, getDataStore } from '../storage/data-store';
+import { GroupTracker } from './group-tracker';
+
+export type SubscriptionFeed = 'whosplaying' | 'schedule' | 'lineup';
+
+export const SUBSCRIPTION_FEEDS: Record<SubscriptionFeed, string> = {
+  whosplaying: "Who's playing today (Tue & Sat)",
+  schedule: 'Weekly schedule (Wed)',
+  lineup: 'Lineup changes (new, cancelled and moved events, DJ swaps)',
+};
+
+export const ALL_FEEDS = Object.keys(SUBSCRIPTION_FEEDS) as SubscriptionFeed[];
+
+interface ChatSubscription {
+  feeds: SubscriptionFeed[];
+  updatedAt: string;
+}
+
+interface SubscriptionData {
+  chats: Record<string, ChatSubscription>;
+}
+
+const SUBSCRIPTIONS_KEY = 'subscriptions';
+
+/**
+ * Parse a feed name from command arguments ("schedule", "whosplaying", ...)
+ */
+export function parseSubscriptionFeed(value: string): SubscriptionFeed | null {
+  const normalized = value.trim().toLowerCase().replace(/^\//, '');
+  return ALL_FEEDS.find(feed => feed === normalized) ?? null;
+}
+
+/**
+ * Parse a comma-separated list of group chat IDs such as TELEGRAM_GROUP_CHAT_ID
+ * Only negative IDs (groups/channels) are kept
+ */
+export function parseChatIdList(value: string | undefined): number[] {
+  if (!value) {
+    return [];
+  }
+
+  return value
+    .split(',')
+    .map(id => id.trim())
+    .filter(id => id.length > 0)
+    .map(id => parseInt(id, 10))
+    .filter(id => !isNaN(id) && id < 0);
+}
+
+/**
+ * Per-chat subscriptions for scheduled posts.
+ *
+ * Chats without a stored entry fall back to the default chats
+ * (TELEGRAM_GROUP_CHAT_ID), so configured groups keep receiving every post
+ * until an admin changes their subscription. Groups the bot tracked before
+ * /subscribe existed (GroupTracker) are treated the same way, so they don't
+ * silently stop getting the weekly and daily posts.
+ */
+export class SubscriptionManager {
+  private store: DataStore;
+  private defaultChatIds: number[];
+  private groupTracker: GroupTracker;
+
+  constructor(
+    store: DataStore = getDataStore(),
+    defaultChatIds: number[] = parseChatIdList(process.env['TELEGRAM_GROUP_CHAT_ID']),
+    groupTracker: GroupTracker = new GroupTracker(store)
+  ) {
+    this.store = store;
+    this.defaultChatIds = defaultChatIds;
+    this.groupTracker = groupTracker;
+  }
+
+  /**
+   * Chats that receive every feed until they change their subscription (the venue's groups)
+   */
+  getDefaultChats(): number[] {
+    return [...this.defaultChatIds];
+  }
+
+  /**
+   * Feeds a chat currently receives
+   */
+  async getFeeds(chatId: number): Promise<SubscriptionFeed[]> {
+    const data = await this.load();
+    const entry = data.chats[String(chatId)];
+    if (entry) {
+      return entry.feeds;
+    }
+    const defaultChatIds = await this.getDefaultAndTrackedChats();
+    return defaultChatIds.includes(chatId) ? [...ALL_FEEDS] : [];
+  }
+
+  /**
+   * Subscribe a chat to the given feeds (all feeds by default)
+   */
+  async subscribe(
+    chatId: number,
+    feeds: SubscriptionFeed[] = ALL_FEEDS
+  ): Promise<SubscriptionFeed[]> {
+    const current = await this.getFeeds(chatId);
+    const updated = ALL_FEEDS.filter(feed => current.includes(feed) || feeds.includes(feed));
+    await this.setFeeds(chatId, updated);
+    return updated;
+  }
+
+  /**
+   * Unsubscribe a chat from the given feeds (all feeds by default)
+   */
+  async unsubscribe(
+    chatId: number,
+    feeds: SubscriptionFeed[] = ALL_FEEDS
+  ): Promise<SubscriptionFeed[]> {
+    const current = await this.getFeeds(chatId);
+    const updated = current.filter(feed => !feeds.includes(feed));
+    await this.setFeeds(chatId, updated);
+    return updated;
+  }
+
+  /**
+   * All chats that should receive a feed
+   */
+  async getSubscribedChats(feed: SubscriptionFeed): Promise<number[]> {
+    const data = await this.load();
+    const chatIds = new Set<number>();
+
+    for (const chatId of await this.getDefaultAndTrackedChats()) {
+      if (!data.chats[String(chatId)]) {
+        chatIds.add(chatId);
+      }
+    }
+
+    for (const [chatId, entry] of Object.entries(data.chats)) {
+      if (entry.feeds.includes(feed)) {
+        chatIds.add(Number(chatId));
+      }
+    }
+
+    return Array.from(chatIds);
+  }
+
+  /**
+   * Configured default chats plus the groups the bot has been tracking
+   */
+  private async getDefaultAndTrackedChats(): Promise<number[]> {
+    const trackedGroups = await this.groupTracker.getAllGroups();
+    return Array.from(new Set([...this.defaultChatIds, ...trackedGroups]));
+  }
+
+  private async setFeeds(chatId: number, feeds: SubscriptionFeed[]): Promise<void> {
+    const data = await this.load();
+    data.chats[String(chatId)] = { feeds, updatedAt: new Date().toISOString() };
+    await this.store.set(SUBSCRIPTIONS_KEY, data);
+  }
+
+  private async load(): Promise<SubscriptionData> {
+    const data = await this.store.get<SubscriptionData>(SUBSCRIPTIONS_KEY);
+    return { chats: data?.chats ?? {} };
+  }
+}
@@ -21,11 +21,12 @@ export function isValidUrl(url: string): boolean {
 }
 
 /**
- * Sanitize and validate a URL, returning a safe default if invalid
+ * Sanitize and validate a URL, returning the given default if invalid
+ * (the venue's ticket page for ticket buttons)
  */
-export function sanitizeUrl(url: string | undefined, defaultUrl?: string): string {
+export function sanitizeUrl(url: string | undefined, defaultUrl: string): string {
   if (!url || !isValidUrl(url)) {
-    return defaultUrl || 'https://hipsy.nl/odessa-amsterdam-ecstatic-dance';
+    return defaultUrl;
   }
   return url;
 }
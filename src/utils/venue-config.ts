@@ -0,0 +1,277 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { DataStore, ScopedDataStore, getDataStore } from '../storage/data-store';
+import type { DJFieldPrecedence } from './dj-repository';
+import { DEFAULT_EVENT_TYPES_PATH } from './event-types';
+import { parseChatIdList } from './subscription-manager';
+
+/**
+ * Everything that differs between Hipsy organisations served by one deployment:
+ * where events come from, which DJ database and groups belong to it, and the
+ * static copy shown by commands like /location and /membership.
+ */
+export interface VenueConfig {
+  /** Short id used in webhook/cron URLs (`?venue=<id>`) and storage keys */
+  id: string;
+  /** Display name used in messages ("Next up at Odessa") */
+  name: string;
+  /** Longer name for calendar feeds */
+  calendarName: string;
+  hipsyOrganisationSlug: string;
+  /** Ticket link used when an event has none of its own */
+  ticketsUrl: string;
+  /** Street address, one line per entry */
+  address: string[];
+  latitude: number;
+  longitude: number;
+  appleMapsUrl?: string;
+  /** Telegram file_id of the video sent with /schedule; text-only without one */
+  scheduleVideoFileId?: string;
+  /** DJ database path, relative to the working directory */
+  djDatabasePath: string;
+  /** Whether DJ profiles are enriched from the Wix CMS (WIX_API_KEY/WIX_SITE_ID) */
+  useWix: boolean;
+  /**
+   * Which source wins per DJ profile field, e.g. `{ "photo": ["json", "wix"] }`;
+   * Wix before the JSON database otherwise
+   */
+  djFieldPrecedence?: DJFieldPrecedence;
+  /** Environment variable holding this venue's bot token */
+  botTokenEnv: string;
+  botUsername?: string;
+  /** Chats that belong to this venue when they talk to a shared bot */
+  chatIds: number[];
+  /** Chats that receive scheduled posts until they set their own subscriptions */
+  defaultGroupChatIds: number[];
+  /** Prefix for this venue's storage keys; '' keeps the original unprefixed keys */
+  storagePrefix: string;
+  calendarUrl: string;
+  /** /location text; built from the name and address when unset */
+  locationText?: string;
+  membership?: { text: string; imageUrl: string; url: string };
+  parking?: { text: string; links: Array<{ text: string; url: string }> };
+  /** Event type definitions (/types, type names), relative to the working directory */
+  eventTypesPath: string;
+  lostPropertyText?: string;
+}
+
+export const DEFAULT_VENUE_ID = 'odessa';
+
+const DEFAULT_CALENDAR_URL = 'https://odessa-telegram-bot.vercel.app/api/calendar.ics';
+
+const MEMBERSHIP_TEXT = `<b>Odessa MemberShip</b> 🏴‍☠️
+
+Dance more, think less.
+
+<b>€135,- per 4 weeks</b>
+Includes access to all regular Odessa events:
+
+• Ecstatic Dance
+• Cacao Ecstatic
+• Ecstatic Journeys
+
+<b>Not included:</b>
+Special events, NYE, festivals & retreats.
+
+Cancel anytime ⚓️`;
+
+const LOST_PROPERTY_TEXT = `🔍 <b>Lost & Found</b>
+
+You can check the lost and found in the wardrobe/locker area during opening hours. Every month we give away the contents to charity as it gets too full to keep. ✨`;
+
+const PARKING_TEXT = `🚗 <b>Parking near Odessa</b>
+
+<b>ParkBee Winkelcentrum Brazilië</b>
+📍 Right next to Odessa (under Albert Heijn)
+💰 Check ParkBee app for rates
+⚠️ <b>CLOSES AT 22:00!</b> Your car gets
+locked in overnight - no way home!
+
+<b>P+R Zeeburg</b>
+📍 Zuiderzeeweg 46a
+💰 €1/day with OV-chipkaart
+🚊 Tram 26 → 1 stop to Rietlandpark
+
+<b>Street Parking</b>
+📍 Veemkade area
+💰 €5-7.50/hour (check signs)
+⏰ Often free after 22:00 or midnight
+
+💡 <i>Tip: For evening events, street parking
+becomes free later - check the signs!</i>`;
+
+/**
+ * The original Odessa deployment. Its bot token, groups and storage keys come
+ * from the same environment variables as before venues existed.
+ */
+export function createOdessaVenue(env: NodeJS.ProcessEnv = process.env): VenueConfig {
+  const botUsername = env['TELEGRAM_BOT_USERNAME'];
+  const slug = env['HIPSY_ORGANISATION_SLUG'] ?? 'odessa-amsterdam-ecstatic-dance';
+  return {
+    id: DEFAULT_VENUE_ID,
+    name: 'Odessa',
+    calendarName: 'Odessa Amsterdam',
+    hipsyOrganisationSlug: slug,
+    ticketsUrl: `https://hipsy.nl/${slug}`,
+    // Odessa boat (Veemkade 259, 1019 CZ Amsterdam)
+    address: ['Veemkade 259', '1019 CZ Amsterdam', 'Netherlands'],
+    latitude: 52.374501,
+    longitude: 4.937627,
+    appleMapsUrl:
+      'https://maps.apple.com/place?place-id=IB3919CD17894B119&address=Veemkade+259%2C+1019+CZ+Amsterdam%2C+Netherlands&coordinate=52.3745084%2C4.9376496&name=Odessa&_provider=9902',
+    scheduleVideoFileId: 'BAACAgQAAxkBAANIaIyYDXy2RFmnv6EZy2nsU2WqAsgAAmsYAAIvy2hQIXfzFx9DIcY2BA',
+    djDatabasePath: join('src', 'data', 'djs.json'),
+    eventTypesPath: DEFAULT_EVENT_TYPES_PATH,
+    useWix: true,
+    botTokenEnv: 'TELEGRAM_BOT_TOKEN',
+    ...(botUsername ? { botUsername } : {}),
+    chatIds: [],
+    defaultGroupChatIds: parseChatIdList(env['TELEGRAM_GROUP_CHAT_ID']),
+    storagePrefix: '',
+    calendarUrl: env['CALENDAR_URL'] ?? DEFAULT_CALENDAR_URL,
+    locationText: `📍 <b>Odessa Location</b>
+
+<blockquote>🚢 Veemkade 259
+1019 CZ Amsterdam
+Netherlands</blockquote>`,
+    membership: {
+      text: MEMBERSHIP_TEXT,
+      imageUrl:
+        'https://raw.githubusercontent.com/kokosthief/odessa-telegram-bot/main/assets/membership.jpg',
+      url: 'https://mijn.odessa.amsterdam',
+    },
+    parking: {
+      text: PARKING_TEXT,
+      links: [
+        { text: '📍 PARKBEE', url: 'https://maps.google.com/?q=52.3738452,4.9385437' },
+        { text: '📍 P+R ZEEBURG', url: 'https://maps.google.com/?q=52.3665,4.9595' },
+      ],
+    },
+    lostPropertyText: LOST_PROPERTY_TEXT,
+  };
+}
+
+/**
+ * Fill in defaults for a venue entry from the venues file.
+ * id, name, hipsyOrganisationSlug, latitude and longitude are required.
+ */
+export function toVenueConfig(
+  entry: Partial<VenueConfig>,
+  env: NodeJS.ProcessEnv = process.env
+): VenueConfig {
+  const { id, name, hipsyOrganisationSlug, latitude, longitude } = entry;
+  if (!id || !name || !hipsyOrganisationSlug) {
+    throw new Error('Venue entries need an id, name and hipsyOrganisationSlug');
+  }
+  if (typeof latitude !== 'number' || typeof longitude !== 'number') {
+    throw new Error(`Venue "${id}" needs numeric latitude and longitude`);
+  }
+
+  const calendarUrl = env['CALENDAR_URL'] ?? DEFAULT_CALENDAR_URL;
+  return {
+    calendarName: name,
+    ticketsUrl: `https://hipsy.nl/${hipsyOrganisationSlug}`,
+    address: [],
+    djDatabasePath: join('src', 'data', `djs-${id}.json`),
+    eventTypesPath: DEFAULT_EVENT_TYPES_PATH,
+    useWix: false,
+    botTokenEnv: 'TELEGRAM_BOT_TOKEN',
+    chatIds: [],
+    defaultGroupChatIds: [],
+    storagePrefix: `${id}:`,
+    calendarUrl: `${calendarUrl}?venue=${encodeURIComponent(id)}`,
+    ...entry,
+    id,
+    name,
+    hipsyOrganisationSlug,
+    latitude,
+    longitude,
+  };
+}
+
+/**
+ * Odessa plus any venues listed in VENUES_FILE (default src/data/venues.json),
+ * a JSON array of partial VenueConfig entries.
+ */
+export function loadVenues(env: NodeJS.ProcessEnv = process.env): VenueConfig[] {
+  const venues = [createOdessaVenue(env)];
+  const filePath = env['VENUES_FILE'] ?? join(process.cwd(), 'src', 'data', 'venues.json');
+  if (!existsSync(filePath)) {
+    return venues;
+  }
+
+  const entries: unknown = JSON.parse(readFileSync(filePath, 'utf-8'));
+  if (!Array.isArray(entries)) {
+    throw new Error(`${filePath} must contain an array of venues`);
+  }
+
+  for (const entry of entries as Array<Partial<VenueConfig>>) {
+    const venue = toVenueConfig(entry, env);
+    if (venues.some(existing => existing.id === venue.id)) {
+      throw new Error(`Duplicate venue id "${venue.id}" in ${filePath}`);
+    }
+    venues.push(venue);
+  }
+  return venues;
+}
+
+let sharedVenues: VenueConfig[] | null = null;
+
+/**
+ * Venues for this process, loaded on first use
+ */
+export function getVenues(): VenueConfig[] {
+  if (!sharedVenues) {
+    sharedVenues = loadVenues();
+  }
+  return sharedVenues;
+}
+
+export function getDefaultVenue(venues: VenueConfig[] = getVenues()): VenueConfig {
+  return venues.find(venue => venue.id === DEFAULT_VENUE_ID) ?? (venues[0] as VenueConfig);
+}
+
+/**
+ * Pick the venue for a request: an explicit id (the `?venue=` of a bot's
+ * webhook or a cron URL) wins, then the venue that lists the chat, then Odessa.
+ * Throws for an unknown id so a mistyped URL doesn't post Odessa's programme.
+ */
+export function resolveVenue(
+  selector: { venueId?: string | string[] | undefined; chatId?: number | undefined },
+  venues: VenueConfig[] = getVenues()
+): VenueConfig {
+  const venueId = Array.isArray(selector.venueId) ? selector.venueId[0] : selector.venueId;
+  if (venueId) {
+    const venue = venues.find(candidate => candidate.id === venueId);
+    if (!venue) {
+      throw new Error(`Unknown venue "${venueId}"`);
+    }
+    return venue;
+  }
+
+  const { chatId } = selector;
+  if (chatId !== undefined) {
+    const venue = venues.find(candidate => candidate.chatIds.includes(chatId));
+    if (venue) {
+      return venue;
+    }
+  }
+  return getDefaultVenue(venues);
+}
+
+export function getVenueBotToken(
+  venue: VenueConfig,
+  env: NodeJS.ProcessEnv = process.env
+): string | undefined {
+  return env[venue.botTokenEnv];
+}
+
+/**
+ * The shared store, scoped to the venue's storage prefix
+ */
+export function getVenueDataStore(
+  venue: VenueConfig,
+  store: DataStore = getDataStore()
+): DataStore {
+  return venue.storagePrefix ? new ScopedDataStore(store, venue.storagePrefix) : store;
+}
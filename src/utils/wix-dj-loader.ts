@@ -1,13 +1,17 @@
+import { DJProfile } from '../types/dj';
+import { DJLoader } from './dj-loader';
+import { foldName } from './dj-name-matcher';
+
 export interface WixDJData {
   _id: string;
   title: string;
-  photo?: string;
-  shortDescription?: string;
-  longDescription?: string;
-  website?: string; // SoundCloud
-  website1?: string; // Website
-  website2?: string; // Instagram
-  email?: string;
+  photo?: string | undefined;
+  shortDescription?: string | undefined;
+  longDescription?: string | undefined;
+  website?: string | undefined; // SoundCloud
+  website1?: string | undefined; // Website
+  website2?: string | undefined; // Instagram
+  email?: string | undefined;
 }
 
 export interface WixQueryResponse {
@@ -19,329 +23,242 @@ export interface WixQueryResponse {
   };
 }
 
+// Items per Team collection query when loading everyone
+const WIX_PAGE_SIZE = 100;
+// Wait before trying Wix again after a failed load
+const WIX_RETRY_AFTER_MS = 60 * 1000;
+const DEFAULT_CACHE_SECONDS = 3600;
+
 export class WixDJLoader {
+  /** Name of this source in DJ field precedence lists */
+  readonly sourceId = 'wix';
   private apiKey: string;
   private siteId: string;
   private baseUrl: string;
-  private cache: Map<string, { data: WixDJData | null; timestamp: number }>;
+  private roster: DJLoader | undefined;
+  /** The whole Team collection by folded title, reloaded once per cache window */
+  private collection: { index: Map<string, WixDJData>; expiresAt: number } | null = null;
+  private loading: Promise<Map<string, WixDJData>> | null = null;
   private cacheDuration: number;
 
-  constructor() {
-    this.apiKey = process.env['WIX_API_KEY'] || '';
-    this.siteId = process.env['WIX_SITE_ID'] || '';
+  /**
+   * @param roster JSON database whose aliases are tried when a name isn't a Wix title
+   */
+  constructor(roster?: DJLoader) {
+    this.apiKey = process.env['WIX_API_KEY'] ?? '';
+    this.siteId = process.env['WIX_SITE_ID'] ?? '';
     this.baseUrl = 'https://www.wixapis.com/wix-data/v2';
-    console.log(`🔧 WixDJLoader initialized with:`);
-    console.log(`   Base URL: ${this.baseUrl}`);
-    console.log(`   API Key: ${this.apiKey ? '✅ Set' : '❌ Not set'}`);
-    console.log(`   Site ID: ${this.siteId ? '✅ Set' : '❌ Not set'}`);
-    this.cache = new Map();
-    this.cacheDuration = parseInt(process.env['WIX_CACHE_DURATION'] || '3600') * 1000; // Convert to milliseconds
+    this.roster = roster;
+    const cacheSeconds = parseInt(process.env['WIX_CACHE_DURATION'] ?? '', 10);
+    this.cacheDuration = (isNaN(cacheSeconds) ? DEFAULT_CACHE_SECONDS : cacheSeconds) * 1000;
   }
 
   /**
-   * Get enhanced DJ information from Wix CMS
+   * Get enhanced DJ information from Wix CMS, by title, alias or a spelling
+   * that only differs in case, accents or punctuation
    */
   async getEnhancedDJInfo(djName: string): Promise<WixDJData | null> {
-    try {
-      console.log(`🔍 Looking up DJ "${djName}" in Wix CMS...`);
-      
-      // Check cache first
-      const cached = this.getCachedDJInfo(djName);
-      if (cached) {
-        console.log(`✅ Using cached Wix data for DJ: ${djName}`);
-        return cached;
-      }
-
-      // Query Wix API
-      console.log(`🌐 Querying Wix API for DJ: ${djName}`);
-      const djData = await this.queryWixAPI(djName);
-      
+    const index = await this.getCollectionIndex();
+    const names = [djName, ...(this.roster?.getAliases(djName) ?? [])];
+    for (const name of names) {
+      const djData = index.get(foldName(name));
       if (djData) {
-        console.log(`✅ Found DJ "${djName}" in Wix CMS`);
-      } else {
-        console.log(`❌ DJ "${djName}" not found in Wix CMS`);
+        return djData;
       }
-      
-      // Cache the result
-      this.cacheDJInfo(djName, djData);
-      
-      return djData;
-    } catch (error) {
-      console.error(`❌ Error getting Wix DJ info for ${djName}:`, error);
-      return null;
     }
+    return null;
   }
 
   /**
-   * Query Wix Data API for DJ information
+   * The Team collection indexed by folded title. Concurrent lookups share one
+   * load; a failed load is retried after a minute, with nothing found meanwhile.
    */
-  private async queryWixAPI(djName: string): Promise<WixDJData | null> {
+  private async getCollectionIndex(): Promise<Map<string, WixDJData>> {
+    if (this.collection && Date.now() < this.collection.expiresAt) {
+      return this.collection.index;
+    }
+    if (!this.loading) {
+      this.loading = this.loadCollectionIndex().finally(() => {
+        this.loading = null;
+      });
+    }
+    return this.loading;
+  }
+
+  private async loadCollectionIndex(): Promise<Map<string, WixDJData>> {
     if (!this.apiKey || !this.siteId) {
       console.warn('⚠️ Wix API credentials not configured, falling back to JSON data');
-      return null;
+      this.collection = { index: new Map(), expiresAt: Date.now() + this.cacheDuration };
+      return this.collection.index;
     }
 
-    console.log(`🌐 Making Wix API request for DJ: ${djName}`);
-    console.log(`   API Key: ${this.apiKey ? '✅ Set' : '❌ Not set'}`);
-    console.log(`   Site ID: ${this.siteId ? '✅ Set' : '❌ Not set'}`);
-
     try {
-      // First, let's test if we can access the collection
-      console.log('🔍 Testing collection access...');
-      const collectionResponse = await fetch(`${this.baseUrl}/collections/Team`, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`,
-          'wix-site-id': this.siteId
+      const index = new Map<string, WixDJData>();
+      for (const djData of await this.loadAllDJs()) {
+        const key = foldName(djData.title);
+        if (key && !index.has(key)) {
+          index.set(key, djData);
         }
-      });
-
-      console.log(`📥 Collection access response: ${collectionResponse.status} ${collectionResponse.statusText}`);
-      
-      if (!collectionResponse.ok) {
-        const errorText = await collectionResponse.text();
-        console.error(`❌ Cannot access collection: ${errorText}`);
-        return null;
       }
+      this.collection = { index, expiresAt: Date.now() + this.cacheDuration };
+    } catch (error) {
+      console.error('❌ Could not load the Wix Team collection:', error);
+      this.collection = { index: new Map(), expiresAt: Date.now() + WIX_RETRY_AFTER_MS };
+    }
+    return this.collection.index;
+  }
 
-      const collectionData = await collectionResponse.json();
-      console.log('✅ Collection structure:', JSON.stringify(collectionData, null, 2));
-
-      const requestBody = {
-        dataCollectionId: "Team",
-        query: {
-          filter: {
-            title: djName
-          },
-          paging: {
-            limit: 5
-          }
-        }
-      };
-
-      // Debug logging (only in development)
-      if (process.env['NODE_ENV'] === 'development') {
-        console.log(`📤 Request body:`, JSON.stringify(requestBody, null, 2));
-        console.log(`🌐 Making request to: ${this.baseUrl}/items/query`);
-        console.log(`🔍 Querying for DJ: "${djName}"`);
-      }
+  /**
+   * Every item in the Team collection, paged through in full.
+   * Throws when Wix can't be read, so callers never mistake an error for an empty team.
+   */
+  async loadAllDJs(): Promise<WixDJData[]> {
+    if (!this.apiKey || !this.siteId) {
+      throw new Error('Wix API credentials not configured (WIX_API_KEY, WIX_SITE_ID)');
+    }
 
+    const items: WixDJData[] = [];
+    for (let offset = 0; ; offset += WIX_PAGE_SIZE) {
       const response = await fetch(`${this.baseUrl}/items/query`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`,
-          'wix-site-id': this.siteId
+          Authorization: `Bearer ${this.apiKey}`,
+          'wix-site-id': this.siteId,
         },
-        body: JSON.stringify(requestBody)
+        body: JSON.stringify({
+          dataCollectionId: 'Team',
+          query: { paging: { limit: WIX_PAGE_SIZE, offset } },
+        }),
       });
 
-      console.log(`📥 Response status: ${response.status} ${response.statusText}`);
-
       if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`❌ Wix API error: ${response.status} ${response.statusText}`);
-        console.error(`   Error details: ${errorText}`);
-        console.error(`   Request URL: ${this.baseUrl}/items/query`);
-        console.error(`   Request body:`, JSON.stringify(requestBody, null, 2));
-        console.error(`   Headers:`, {
-          'Content-Type': 'application/json',
-          'Authorization': this.apiKey ? 'Bearer [HIDDEN]' : 'NOT SET',
-          'wix-site-id': this.siteId || 'NOT SET'
-        });
-        console.error(`   Full error response:`, errorText);
         throw new Error(`Wix API error: ${response.status} ${response.statusText}`);
       }
 
-      const result = await response.json() as any;
-      console.log(`📊 Response data:`, JSON.stringify(result, null, 2));
-      
-      if (result.dataItems && result.dataItems.length > 0) {
-        console.log(`✅ Found Wix data: ${result.dataItems.length} items`);
-        
-        // Convert REST response to our format
-        const firstItem = result.dataItems[0];
-        
-        if (firstItem && firstItem.data) {
-          // Extract data from the REST response
-          const djData: WixDJData = {
-            _id: firstItem._id || firstItem.id,
-            title: firstItem.data.title || '',
-            photo: firstItem.data.photo || undefined,
-            shortDescription: firstItem.data.shortDescription || undefined,
-            longDescription: firstItem.data.longDescription || undefined,
-            website: firstItem.data.website || undefined,
-            website1: firstItem.data.website1 || undefined,
-            website2: firstItem.data.website2 || undefined,
-            email: firstItem.data.email || undefined
-          };
-          
-          console.log(`✅ Converted DJ data:`, JSON.stringify(djData, null, 2));
-          return djData;
-        }
-      } else {
-        console.log(`❌ No Wix data found`);
-        return null;
-      }
-      
-      return null; // Add explicit return
-    } catch (error) {
-      console.error('❌ Wix API query failed:', error);
-      console.error('   Error type:', typeof error);
-      if (error instanceof Error) {
-        console.error('   Error message:', error.message);
-        console.error('   Error stack:', error.stack);
+      const result = (await response.json()) as {
+        dataItems?: Array<{ _id?: string; id?: string; data?: Record<string, string | undefined> }>;
+        pagingMetadata?: { total?: number };
+      };
+      const page = (result.dataItems ?? []).filter(item => item.data);
+      items.push(...page.map(item => this.toWixDJData(item)));
+
+      const total = result.pagingMetadata?.total;
+      if (page.length < WIX_PAGE_SIZE || (total !== undefined && items.length >= total)) {
+        break;
       }
-      return null;
     }
+
+    console.log(`✅ Loaded ${items.length} DJs from the Wix Team collection`);
+    return items;
+  }
+
+  /**
+   * A Team collection item from the REST API in our format
+   */
+  private toWixDJData(item: {
+    _id?: string;
+    id?: string;
+    data?: Record<string, string | undefined>;
+  }): WixDJData {
+    const data = item.data ?? {};
+    // Wix sends empty strings for fields nobody filled in
+    const field = (key: string): string | undefined => (data[key] ? data[key] : undefined);
+    return {
+      _id: item._id ?? item.id ?? '',
+      title: data['title'] ?? '',
+      photo: field('photo'),
+      shortDescription: field('shortDescription'),
+      longDescription: field('longDescription'),
+      website: field('website'),
+      website1: field('website1'),
+      website2: field('website2'),
+      email: field('email'),
+    };
   }
 
   /**
    * Convert Wix image URL to public URL
    */
-  private convertWixImageUrl(wixUrl: string): string {
+  convertWixImageUrl(wixUrl: string): string {
     if (!wixUrl || !wixUrl.startsWith('wix:image://')) {
       return wixUrl;
     }
-    
+
     // Extract the image ID from the Wix URL
     // Format: wix:image://v1/36fde5_da56c5be75d04cd381fda3786928b0c9~mv2.jpg/Inphiknight-500x500.jpg
-    const match = wixUrl.match(/wix:image:\/\/v1\/([^\/]+)\/[^#]+/);
+    const match = wixUrl.match(/wix:image:\/\/v1\/([^/]+)\/[^#]+/);
     if (match) {
       const imageId = match[1];
       // Convert to public Wix image URL
       return `https://static.wixstatic.com/media/${imageId}`;
     }
-    
+
     return wixUrl;
   }
 
   /**
-   * Get DJ info with fallback to existing JSON data
+   * Profile fields from the Wix CMS, for the DJ repository; fields Wix leaves
+   * empty are filled from other sources
    */
-  async getDJInfoWithFallback(djName: string): Promise<{
-    name: string;
-    photo?: string | undefined;
-    shortDescription?: string | undefined;
-    soundcloudUrl?: string | undefined;
-    instagramUrl?: string | undefined;
-    website?: string | undefined;
-  } | null> {
-    // Try Wix data first
+  async getProfile(djName: string): Promise<Partial<DJProfile> | null> {
     const wixData = await this.getEnhancedDJInfo(djName);
-    
-    if (wixData) {
-      console.log(`✅ Wix data found for ${djName}:`);
-      console.log(`   Photo: ${wixData.photo ? 'YES' : 'NO'}`);
-      console.log(`   Description: ${wixData.shortDescription ? 'YES' : 'NO'}`);
-      
-      return {
-        name: wixData.title,
-        photo: wixData.photo ? this.convertWixImageUrl(wixData.photo) : undefined,
-        shortDescription: wixData.shortDescription || undefined,
-        soundcloudUrl: wixData.website || undefined, // SoundCloud URL
-        instagramUrl: wixData.website2 || undefined, // Instagram URL
-        website: wixData.website1 || undefined // Website URL
-      };
-    }
-
-    // Fallback to existing JSON data with fuzzy matching
-    const { DJLoader } = await import('./dj-loader');
-    const djLoader = new DJLoader();
-    const jsonData = djLoader.getDJInfo(djName);
-    
-    if (jsonData) {
-      console.log(`✅ JSON data found for ${djName} (fallback from Wix)`);
-      return {
-        name: djName,
-        photo: jsonData.photo || undefined,
-        soundcloudUrl: jsonData.soundcloud || jsonData.link || undefined,
-        instagramUrl: jsonData.instagram || undefined,
-        website: jsonData.website || undefined
-      };
-    }
-    
-    console.log(`⚠️ No DJ data found for "${djName}" in Wix or JSON`);
-    return null;
-  }
-
-  /**
-   * Get cached DJ information
-   */
-  private getCachedDJInfo(djName: string): WixDJData | null {
-    const cached = this.cache.get(djName);
-    if (!cached) return null;
-
-    const now = Date.now();
-    if (now - cached.timestamp > this.cacheDuration) {
-      this.cache.delete(djName);
+    if (!wixData) {
       return null;
     }
 
-    return cached.data;
-  }
-
-  /**
-   * Cache DJ information
-   */
-  private cacheDJInfo(djName: string, data: WixDJData | null): void {
-    this.cache.set(djName, {
-      data,
-      timestamp: Date.now()
-    });
+    // Fields nobody filled in are already undefined (see toWixDJData)
+    return {
+      ...(wixData.title ? { name: wixData.title } : {}),
+      photo: wixData.photo ? this.convertWixImageUrl(wixData.photo) : undefined,
+      shortDescription: wixData.shortDescription,
+      soundcloudUrl: wixData.website, // SoundCloud URL
+      instagramUrl: wixData.website2, // Instagram URL
+      website: wixData.website1, // Website URL
+    };
   }
 
   /**
    * Clear cache
    */
   clearCache(): void {
-    this.cache.clear();
+    this.collection = null;
   }
 
   /**
    * Get cache statistics
    */
   getCacheStats(): { size: number; keys: string[] } {
+    const djs = Array.from(this.collection?.index.values() ?? []);
     return {
-      size: this.cache.size,
-      keys: Array.from(this.cache.keys())
+      size: djs.length,
+      keys: djs.map(djData => djData.title),
     };
   }
 
   /**
-   * Test Wix API connection
+   * Test Wix API connection: whether the Team collection can be read
    */
   async testConnection(): Promise<boolean> {
     try {
-      console.log('🧪 Testing Wix API connection...');
-      console.log(`   API Key: ${this.apiKey ? '✅ Set' : '❌ Not set'}`);
-      console.log(`   Site ID: ${this.siteId ? '✅ Set' : '❌ Not set'}`);
-      
-      // Try to get collection details first
       const response = await fetch(`${this.baseUrl}/collections/Team`, {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`,
-          'wix-site-id': this.siteId
-        }
+          Authorization: `Bearer ${this.apiKey}`,
+          'wix-site-id': this.siteId,
+        },
       });
 
-      console.log(`📥 Collection test response: ${response.status} ${response.statusText}`);
-      
-      if (response.ok) {
-        const collectionData = await response.json();
-        console.log('✅ Collection details:', JSON.stringify(collectionData, null, 2));
-        return true;
-      } else {
-        const errorText = await response.text();
-        console.error(`❌ Collection test failed: ${errorText}`);
+      if (!response.ok) {
+        console.error(`❌ Wix connection test failed: ${response.status} ${response.statusText}`);
         return false;
       }
+      console.log('✅ Wix Team collection is reachable');
+      return true;
     } catch (error) {
       console.error('❌ Connection test failed:', error);
       return false;
     }
   }
-} 
\ No newline at end of file
+}
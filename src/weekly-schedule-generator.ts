@@ -1,14 +1,41 @@
+import { utcToZonedTime, zonedTimeToUtc } from 'date-fns-tz';
 import { HipsyScraper } from './scrapers/hipsy-scraper';
-import { WixDJLoader } from './utils/wix-dj-loader';
-import { Event, DateRange } from './types/event';
+import { DJRepository, createDJRepository } from './utils/dj-repository';
+import { Event, DateRange, ScrapingResult } from './types/event';
 import { sanitizeUrl } from './utils/url-validator';
+import { VenueConfig, getDefaultVenue } from './utils/venue-config';
+import { EventTypeTaxonomy, getEventTypeTaxonomy } from './utils/event-types';
+import { EventTitleParser, getDJNames } from './parsers/event-title-parser';
+import { InlineKeyboard } from './telegram/command-registry';
+import {
+  blockquote,
+  bold,
+  escapeTelegramHtml,
+  formatStaleNotice,
+  formatTicketBadge,
+  formatTimeRange,
+  getMonthName,
+} from './telegram/formatting';
+
+/** Callback prefix for the /schedule navigation buttons */
+export const SCHEDULE_CALLBACK_PREFIX = 'schedule';
+/** How many weeks ahead the navigation buttons reach */
+export const MAX_WEEK_OFFSET = 8;
+
+const AMSTERDAM_TIMEZONE = 'Europe/Amsterdam';
 
 export interface WeeklySchedule {
-  video: string;
+  /** Telegram file_id to send the text as a caption of; text-only when unset */
+  video?: string | undefined;
   text: string;
   keyboard?: any;
 }
 
+export interface DaySchedule {
+  text: string;
+  keyboard: InlineKeyboard;
+}
+
 export interface WeeklyEvent {
   day: string;
   eventType: string;
@@ -18,6 +45,8 @@ export interface WeeklyEvent {
   originalTitle?: string; // Add original event title for custom events
   facilitators?: string[] | undefined; // Array of facilitators for B2B events
   facilitatorLinks?: string[] | undefined; // Array of facilitator links for B2B events
+  ticketBadge?: string | undefined; // "SOLD OUT"
+  timeRange?: string; // "20:00–23:30", or the start when the end is unknown
 }
 
 type FacilitatorLinkSource = {
@@ -43,32 +72,47 @@ export function getPreferredFacilitatorLink(
 
 export class WeeklyScheduleGenerator {
   private hipsyScraper: HipsyScraper;
-  private wixDJLoader: WixDJLoader;
-  private readonly VIDEO_ID = 'BAACAgQAAxkBAANIaIyYDXy2RFmnv6EZy2nsU2WqAsgAAmsYAAIvy2hQIXfzFx9DIcY2BA';
-  private readonly TICKETS_URL = 'https://hipsy.nl/odessa-amsterdam-ecstatic-dance';
+  private djRepository: DJRepository;
+  private titleParser: EventTitleParser;
+  private eventTypes: EventTypeTaxonomy;
+  private readonly VIDEO_ID: string | undefined;
+  private readonly TICKETS_URL: string;
 
-  constructor() {
-    this.hipsyScraper = new HipsyScraper();
-    this.wixDJLoader = new WixDJLoader();
+  constructor(
+    hipsyScraper: HipsyScraper = new HipsyScraper(),
+    djRepository?: DJRepository,
+    venue: VenueConfig = getDefaultVenue()
+  ) {
+    this.hipsyScraper = hipsyScraper;
+    this.djRepository = djRepository ?? createDJRepository(venue);
+    this.VIDEO_ID = venue.scheduleVideoFileId;
+    this.TICKETS_URL = venue.ticketsUrl;
+    this.eventTypes = getEventTypeTaxonomy(venue.eventTypesPath);
+    this.titleParser = new EventTitleParser(this.eventTypes);
   }
 
   /**
    * Generate weekly schedule (Monday to Sunday)
+   * @param weekOffset 0 for the current week, 1 for next week, etc.
    */
-  async generateWeeklySchedule(): Promise<WeeklySchedule> {
+  async generateWeeklySchedule(weekOffset = 0): Promise<WeeklySchedule> {
+    const heading = this.getWeekHeading(weekOffset);
+
     try {
       // Get Monday to Sunday date range
-      const weekRange = this.getWeekRange();
+      const weekRange = this.getWeekRange(weekOffset);
       
       // Fetch events from Hipsy API
-      const events = await this.fetchWeeklyEvents(weekRange);
+      const result = await this.fetchWeeklyEvents(weekRange);
+      const events = result.events;
+      const staleNotice = this.getStaleNotice(result);
       
       // If no events found, return a friendly message
       if (events.length === 0) {
         return {
           video: this.VIDEO_ID,
-          text: '🪩 <b><u>This Week</u></b> 🌴🎶\n\nNo events scheduled for this week.',
-          keyboard: this.createTicketsKeyboard(undefined)
+          text: `${heading}No events scheduled for this week.${staleNotice}`,
+          keyboard: this.createScheduleKeyboard(weekOffset, [])
         };
       }
       
@@ -79,14 +123,14 @@ export class WeeklyScheduleGenerator {
       const eventsWithLinks = await this.addFacilitatorLinks(weeklyEvents);
       
       // Generate formatted text with ticket links
-      const formattedText = this.generateFormattedText(eventsWithLinks);
+      const formattedText = this.generateFormattedText(eventsWithLinks, heading);
       
-      // Create keyboard for tickets (always use general tickets URL)
-      const keyboard = this.createTicketsKeyboard(undefined);
+      // Day detail and week navigation buttons, then the general tickets URL
+      const keyboard = this.createScheduleKeyboard(weekOffset, events);
       
       return {
         video: this.VIDEO_ID,
-        text: formattedText,
+        text: staleNotice ? `${formattedText.trimEnd()}${staleNotice}` : formattedText,
         keyboard
       };
       
@@ -96,85 +140,120 @@ export class WeeklyScheduleGenerator {
       // Return a user-friendly error message instead of throwing
       return {
         video: this.VIDEO_ID,
-        text: '🪩 <b><u>This Week</u></b> 🌴🎶\n\n❌ Sorry, I couldn\'t fetch the weekly schedule right now. Please try again later.',
-        keyboard: this.createTicketsKeyboard(undefined)
+        text: `${heading}❌ Sorry, I couldn't fetch the weekly schedule right now. Please try again later.`,
+        keyboard: this.createScheduleKeyboard(weekOffset, [])
       };
     }
   }
 
   /**
-   * Get Monday to Sunday date range for current week
+   * Detail view for one day of a week: times, titles and DJ bios
+   * @param dayKey Amsterdam calendar date (YYYY-MM-DD)
    */
-  private getWeekRange(): DateRange {
-    const now = new Date();
-    const currentDay = now.getDay(); // 0 = Sunday, 1 = Monday, ..., 6 = Saturday
-    
-    // Calculate days to Monday (1)
-    let daysToMonday = 1 - currentDay;
-    if (daysToMonday > 0) {
-      daysToMonday -= 7; // Previous Monday
+  async generateDaySchedule(weekOffset: number, dayKey: string): Promise<DaySchedule> {
+    const result = await this.fetchWeeklyEvents(this.getWeekRange(weekOffset));
+    const events = result.events.filter(event => this.getAmsterdamDayKey(event.date) === dayKey);
+    const staleNotice = this.getStaleNotice(result);
+    const backRow = [
+      { text: '« Back to week', callback_data: `${SCHEDULE_CALLBACK_PREFIX}:week:${weekOffset}` },
+    ];
+
+    const date = this.parseDayKey(dayKey);
+    const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+    let text = `🗓️ <b><u>${dayNames[date.getUTCDay()]} ${date.getUTCDate()} ${getMonthName(date.getUTCMonth())}</u></b>\n`;
+
+    if (events.length === 0) {
+      return {
+        text: `${text}\nNo events scheduled for this day.${staleNotice}`,
+        keyboard: { inline_keyboard: [backRow] },
+      };
     }
-    
-    // Calculate days to Sunday (0) - this should be the end of the current week
-    let daysToSunday = 0 - currentDay;
-    if (daysToSunday < 0) {
-      daysToSunday += 7; // Next Sunday
+
+    const ticketRows: Array<Array<{ text: string; url: string }>> = [];
+    for (const event of events) {
+      const time = this.getAmsterdamTime(event.date);
+      text += `\n⏰ ${escapeTelegramHtml(formatTimeRange(event))} — ${bold(event.title)}\n`;
+      const ticketBadge = formatTicketBadge(event);
+      if (ticketBadge) {
+        text += `🎟️ ${escapeTelegramHtml(ticketBadge)}\n`;
+      }
+
+      const djNames = event.djNames && event.djNames.length > 0 ? event.djNames : [event.djName];
+      for (const djName of djNames) {
+        if (!djName) {
+          continue;
+        }
+        const djInfo = await this.djRepository.getProfile(djName).catch(() => null);
+        if (djInfo?.shortDescription) {
+          text += `${blockquote(`${djInfo.name}: ${djInfo.shortDescription}`)}\n`;
+        }
+      }
+
+      if (event.ticketUrl) {
+        const label = events.length > 1 ? `🎫 TICKETS ${time}` : '🎫 TICKETS';
+        ticketRows.push([{ text: label, url: sanitizeUrl(event.ticketUrl, this.TICKETS_URL) }]);
+      }
     }
-    
-    const monday = new Date(now);
-    monday.setDate(now.getDate() + daysToMonday);
-    monday.setHours(0, 0, 0, 0);
-    
-    const sunday = new Date(now);
-    sunday.setDate(now.getDate() + daysToSunday);
-    sunday.setHours(23, 59, 59, 999);
-    
+
     return {
-      startDate: monday,
-      endDate: sunday
+      text: `${text.trimEnd()}${staleNotice}`,
+      keyboard: { inline_keyboard: [...ticketRows, backRow] },
     };
   }
 
   /**
-   * Fetch events for the week from Hipsy API
+   * Title line for a week, e.g. "This Week" or "Week of 3 Nov"
    */
-  private async fetchWeeklyEvents(weekRange: DateRange): Promise<Event[]> {
-    const allEvents: Event[] = [];
-    let page = 1;
-    const limit = 100; // Fetch more events at once to ensure we get the full week
-    
-    while (true) {
-      try {
-        // Use 'all' instead of 'upcoming' to get past events too
-        // This ensures we capture Mon-Sun even if called mid-week (e.g., Saturday)
-        const result = await this.hipsyScraper.getEvents(page, 'all', limit);
-        
-        if (!result.success || result.events.length === 0) {
-          break;
-        }
-        
-        // Filter events within our week range (Monday-Sunday)
-        const weekEvents = result.events.filter(event => {
-          const eventDate = new Date(event.date);
-          return eventDate >= weekRange.startDate && eventDate <= weekRange.endDate;
-        });
-        
-        allEvents.push(...weekEvents);
-        
-        // If we got fewer events than the limit, we've reached the end
-        if (result.events.length < limit) {
-          break;
-        }
-        
-        page++;
-      } catch (error) {
-        console.error('Error fetching events for page', page, error);
-        break;
-      }
+  private getWeekHeading(weekOffset: number): string {
+    let title: string;
+    if (weekOffset === 0) {
+      title = 'This Week';
+    } else if (weekOffset === 1) {
+      title = 'Next Week';
+    } else {
+      const monday = utcToZonedTime(this.getWeekRange(weekOffset).startDate, AMSTERDAM_TIMEZONE);
+      title = `Week of ${monday.getDate()} ${getMonthName(monday.getMonth())}`;
     }
-    
-    // Sort events by date
-    return allEvents.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    return `🪩 <b><u>${escapeTelegramHtml(title)}</u></b> 🌴🎶\n\n`;
+  }
+
+  /**
+   * Get Monday 00:00 to Sunday 23:59 (Amsterdam time) for the current week,
+   * shifted by `weekOffset` weeks
+   */
+  private getWeekRange(weekOffset = 0): DateRange {
+    const today = utcToZonedTime(new Date(), AMSTERDAM_TIMEZONE);
+    const daysSinceMonday = (today.getDay() + 6) % 7; // 0 = Monday, ..., 6 = Sunday
+
+    const monday = new Date(
+      today.getFullYear(),
+      today.getMonth(),
+      today.getDate() - daysSinceMonday + weekOffset * 7
+    );
+    const nextMonday = new Date(monday.getFullYear(), monday.getMonth(), monday.getDate() + 7);
+
+    return {
+      startDate: zonedTimeToUtc(monday, AMSTERDAM_TIMEZONE),
+      endDate: new Date(zonedTimeToUtc(nextMonday, AMSTERDAM_TIMEZONE).getTime() - 1)
+    };
+  }
+
+  /**
+   * Fetch events for the week from Hipsy API (possibly a stale cached copy)
+   */
+  private async fetchWeeklyEvents(weekRange: DateRange): Promise<ScrapingResult> {
+    const result = await this.hipsyScraper.getEventsBetween(weekRange.startDate, weekRange.endDate);
+    if (!result.success) {
+      throw new Error(`Failed to fetch weekly events: ${result.error ?? 'Unknown error'}`);
+    }
+    return result;
+  }
+
+  /**
+   * Footer warning when the events came from the cache
+   */
+  private getStaleNotice(result: ScrapingResult): string {
+    return result.stale && result.fetchedAt ? `\n\n${formatStaleNotice(result.fetchedAt)}` : '';
   }
 
   /**
@@ -188,21 +267,17 @@ export class WeeklyScheduleGenerator {
     const eventsByDay = new Map<string, Event[]>();
     
     events.forEach(event => {
-      const eventDate = new Date(event.date);
-      const dayKey = eventDate.toISOString().split('T')[0]; // YYYY-MM-DD
+      const dayKey = this.getAmsterdamDayKey(event.date); // YYYY-MM-DD
       
-      if (dayKey && !eventsByDay.has(dayKey)) {
+      if (!eventsByDay.has(dayKey)) {
         eventsByDay.set(dayKey, []);
       }
-      if (dayKey) {
-        eventsByDay.get(dayKey)!.push(event);
-      }
+      eventsByDay.get(dayKey)!.push(event);
     });
     
     // Process each day
     for (const [dayKey, dayEvents] of eventsByDay) {
-      const eventDate = new Date(dayKey);
-      const dayIndex = eventDate.getDay();
+      const dayIndex = this.parseDayKey(dayKey).getUTCDay();
       const dayName = dayNames[dayIndex] || 'Unknown';
       
       // Sort events by time within the day
@@ -214,55 +289,25 @@ export class WeeklyScheduleGenerator {
         console.log(`   → event.djName: ${event.djName || 'undefined'}`);
         console.log(`   → event.djNames: ${event.djNames ? JSON.stringify(event.djNames) : 'undefined'}`);
         
-        // Check if event has multiple DJs (B2B event)
-        let facilitators: string[] | undefined = undefined;
-        
-        // First priority: Use djNames array if it exists and has multiple DJs
-        if (event.djNames && event.djNames.length > 1) {
-          facilitators = event.djNames;
-          console.log(`✅ B2B event detected from scraper (djNames array): ${facilitators.join(' & ')}`);
-        } 
-        // Second priority: Check if djName contains separators (fallback if scraper didn't detect)
-        else if (event.djName) {
-          console.log(`🔍 Checking djName for B2B: "${event.djName}"`);
-          
-          // Check for "and" separator (e.g., "Samaya and Henners", "Samaya & Henners")
-          // Use patterns in order of specificity
-          const andPatterns = [
-            { pattern: /\s+and\s+/i, name: 'and' },
-            { pattern: /\s+&\s+/, name: '& with spaces' },
-            { pattern: /&/, name: '&' },  // Catch-all for any &
-            { pattern: /\s*\+\s*/, name: '+' },
-          ];
-          
-          for (const { pattern, name } of andPatterns) {
-            if (pattern.test(event.djName)) {
-              const parts = event.djName.split(pattern);
-              if (parts.length >= 2) {
-                const dj1 = parts[0]?.trim();
-                const dj2 = parts.slice(1).join(' ').trim(); // Handle multiple separators
-                
-                if (dj1 && dj2 && dj1.length > 0 && dj2.length > 0 && dj1 !== dj2) {
-                  facilitators = [dj1, dj2];
-                  console.log(`✅ B2B event detected in formatWeeklyEvents via "${name}": "${dj1}" & "${dj2}" from "${event.djName}"`);
-                  break;
-                }
-              }
-            }
-          }
-          
-          if (!facilitators) {
-            console.log(`ℹ️ Single DJ event: "${event.djName}"`);
-          }
-        }
+        // B2B events: the scraper's djNames, or the title for events from elsewhere
+        const djNames = event.djNames && event.djNames.length > 1
+          ? event.djNames
+          : getDJNames(this.titleParser.parse(event.title));
+        const facilitators = djNames.length > 1 ? djNames : undefined;
         
         const weeklyEvent: WeeklyEvent = {
           day: dayName,
-          eventType: this.mapEventType(event.eventType, dayName),
+          // Short names for the schedule grid; Sunday EDs show as "Morning ED"
+          eventType: this.eventTypes.getDisplayName(event.eventType, {
+            date: event.date,
+            short: true,
+          }),
           facilitator: event.djName || 'TBA',
           ticketUrl: event.ticketUrl || undefined,
           originalTitle: event.title, // Preserve the original event title
           facilitators: facilitators || event.djNames || undefined, // Store multiple facilitators for B2B events
+          ticketBadge: formatTicketBadge(event),
+          timeRange: formatTimeRange(event),
         };
         
         console.log(`   → Created WeeklyEvent:`);
@@ -279,32 +324,7 @@ export class WeeklyScheduleGenerator {
   }
 
   /**
-   * Map event types to display format
-   */
-  private mapEventType(eventType?: string, day?: string): string {
-    // Special case: Sunday ED events should always show as "Morning ED"
-    if (day === 'Sun' && eventType === 'ED') {
-      return 'Morning ED';
-    }
-    
-    switch (eventType) {
-      case 'ED':
-        return 'ED';
-      case 'Cacao ED':
-        return 'Cacao ED';
-      case 'Live Music':
-        return 'Live Music';
-      case 'Queerstatic':
-        return 'Queerstatic';
-      case 'Ecstatic Journey':
-        return 'Journey';
-      default:
-        return 'Event';
-    }
-  }
-
-  /**
-   * Add facilitator links using Wix API
+   * Add facilitator links from the DJ repository
    */
   private async addFacilitatorLinks(weeklyEvents: WeeklyEvent[]): Promise<WeeklyEvent[]> {
     const eventsWithLinks = [...weeklyEvents];
@@ -314,8 +334,8 @@ export class WeeklyScheduleGenerator {
       
       if (event && event.facilitator && event.facilitator !== 'TBA') {
         try {
-          // Try to get facilitator data from Wix API
-          const facilitatorData = await this.wixDJLoader.getDJInfoWithFallback(event.facilitator);
+          // Try to get facilitator data from the DJ repository
+          const facilitatorData = await this.djRepository.getProfile(event.facilitator);
           
           const facilitatorLink = getPreferredFacilitatorLink(facilitatorData);
 
@@ -351,7 +371,7 @@ export class WeeklyScheduleGenerator {
           if (facilitator && facilitator.trim() !== '') {
             // Always try to get link, even if one already exists (to refresh)
             try {
-              const facilitatorData = await this.wixDJLoader.getDJInfoWithFallback(facilitator);
+              const facilitatorData = await this.djRepository.getProfile(facilitator);
               
               const facilitatorLink = getPreferredFacilitatorLink(facilitatorData);
 
@@ -390,8 +410,8 @@ export class WeeklyScheduleGenerator {
   /**
    * Generate formatted text for the weekly schedule
    */
-  private generateFormattedText(weeklyEvents: WeeklyEvent[]): string {
-    let text = '🪩 <b><u>This Week</u></b> 🌴🎶\n\n';
+  private generateFormattedText(weeklyEvents: WeeklyEvent[], heading: string): string {
+    let text = heading;
     
     weeklyEvents.forEach(event => {
       let displayText: string;
@@ -419,32 +439,11 @@ export class WeeklyScheduleGenerator {
         // Always use "&" separator (not "B2B" since they play after each other, not simultaneously)
         const separator = ' & ';
         
-        // Extract event title from originalTitle (everything before the separator)
-        // For "New Year Party | Samaya & Henners", extract "New Year Party"
+        // Series part of the title: "New Year Party | Samaya & Henners" → "New Year Party"
         let eventTitle = event.eventType || 'Event';
         if (event.originalTitle) {
-          // Try to extract title part before common separators
-          const titlePatterns = [
-            /\s*\|\s*/,           // "Event | DJ"
-            /\s+with\s+/i,        // "Event with DJ"
-            /\s+feat\.?\s+/i,     // "Event feat. DJ"
-            /\s+by\s+/i,          // "Event by DJ"
-            /\s+-\s+/,            // "Event - DJ"
-          ];
-          
-          for (const pattern of titlePatterns) {
-            const match = event.originalTitle.split(pattern);
-            if (match.length > 1 && match[0]) {
-              eventTitle = match[0].trim();
-              console.log(`   📌 Extracted event title: "${eventTitle}" from "${event.originalTitle}"`);
-              break;
-            }
-          }
-          
-          // If no separator found, use the full original title
-          if (eventTitle === (event.eventType || 'Event')) {
-            eventTitle = event.originalTitle;
-          }
+          eventTitle = this.titleParser.parse(event.originalTitle).series || event.originalTitle;
+          console.log(`   📌 Extracted event title: "${eventTitle}" from "${event.originalTitle}"`);
         }
         
         displayText = `${eventTitle} | ${facilitatorTexts.join(separator)}`;
@@ -460,18 +459,78 @@ export class WeeklyScheduleGenerator {
         displayText = `${event.eventType} | ${facilitatorText}`;
       }
       
-      text += `<b>🗓️ ${event.day}: ${displayText}</b>\n`;
+      const timeText = event.timeRange ? ` ${escapeTelegramHtml(event.timeRange)}` : '';
+      const ticketText = event.ticketBadge ? ` <i>(${escapeTelegramHtml(event.ticketBadge)})</i>` : '';
+      text += `<b>🗓️ ${event.day}: ${displayText}</b>${timeText}${ticketText}\n`;
     });
     
     return text;
   }
 
+  /**
+   * Buttons under /schedule: one per day with events, previous/next week,
+   * and the general tickets link
+   */
+  private createScheduleKeyboard(weekOffset: number, events: Event[]): InlineKeyboard {
+    const dayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+    const dayKeys = Array.from(new Set(events.map(event => this.getAmsterdamDayKey(event.date))));
+    const dayButtons = dayKeys.map(dayKey => {
+      const date = this.parseDayKey(dayKey);
+      return {
+        text: `${dayNames[date.getUTCDay()]} ${date.getUTCDate()}`,
+        callback_data: `${SCHEDULE_CALLBACK_PREFIX}:day:${weekOffset}:${dayKey}`,
+      };
+    });
+
+    const rows: InlineKeyboard['inline_keyboard'] = [];
+    for (let i = 0; i < dayButtons.length; i += 4) {
+      rows.push(dayButtons.slice(i, i + 4));
+    }
+
+    const navigation = [];
+    if (weekOffset > 0) {
+      navigation.push({
+        text: '◀ Previous week',
+        callback_data: `${SCHEDULE_CALLBACK_PREFIX}:week:${weekOffset - 1}`,
+      });
+    }
+    if (weekOffset < MAX_WEEK_OFFSET) {
+      navigation.push({
+        text: 'Next week ▶',
+        callback_data: `${SCHEDULE_CALLBACK_PREFIX}:week:${weekOffset + 1}`,
+      });
+    }
+    rows.push(navigation);
+
+    return { inline_keyboard: [...rows, ...this.createTicketsKeyboard(undefined).inline_keyboard] };
+  }
+
+  private getAmsterdamDayKey(date: string): string {
+    const local = utcToZonedTime(new Date(date), AMSTERDAM_TIMEZONE);
+    const month = (local.getMonth() + 1).toString().padStart(2, '0');
+    const day = local.getDate().toString().padStart(2, '0');
+    return `${local.getFullYear()}-${month}-${day}`;
+  }
+
+  /**
+   * Day key as a UTC midnight date, read back with the getUTC* methods
+   */
+  private parseDayKey(dayKey: string): Date {
+    const [year = 1970, month = 1, day = 1] = dayKey.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day));
+  }
+
+  private getAmsterdamTime(date: string): string {
+    const local = utcToZonedTime(new Date(date), AMSTERDAM_TIMEZONE);
+    return `${local.getHours().toString().padStart(2, '0')}:${local.getMinutes().toString().padStart(2, '0')}`;
+  }
+
   /**
    * Create inline keyboard for tickets button
    * Can optionally include event-specific ticket URLs
    */
   private createTicketsKeyboard(eventTicketUrl?: string): any {
-    const ticketUrl = sanitizeUrl(eventTicketUrl || this.TICKETS_URL);
+    const ticketUrl = sanitizeUrl(eventTicketUrl, this.TICKETS_URL);
     return {
       inline_keyboard: [
         [
@@ -0,0 +1,75 @@
+import { formatICalendar } from '../src/formatters/calendar-formatter';
+import { Event } from '../src/types/event';
+
+function event(overrides: Partial<Event> = {}): Event {
+  return {
+    id: '4242',
+    title: 'Ecstatic Dance with Leela',
+    date: '2026-07-04T18:00:00Z',
+    ticketUrl: 'https://hipsy.nl/event/4242',
+    originalDate: '2026-07-04T18:00:00Z',
+    djName: 'Leela',
+    ...overrides,
+  };
+}
+
+function unfold(feed: string): string[] {
+  return feed.replace(/\r\n /g, '').split('\r\n');
+}
+
+describe('formatICalendar', () => {
+  const now = new Date('2026-06-01T09:30:00Z');
+
+  it('writes a VEVENT per event with Amsterdam start time, venue and tickets', async () => {
+    const feed = await formatICalendar([event()], { now });
+    const lines = unfold(feed);
+
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(lines).toContain('TZID:Europe/Amsterdam');
+    expect(lines).toContain('UID:hipsy-4242@odessa.amsterdam');
+    expect(lines).toContain('DTSTAMP:20260601T093000Z');
+    // 18:00 UTC is 20:00 in Amsterdam summer time
+    expect(lines).toContain('DTSTART;TZID=Europe/Amsterdam:20260704T200000');
+    expect(lines).toContain('SUMMARY:Ecstatic Dance with Leela');
+    expect(lines).toContain('LOCATION:Odessa\\, Veemkade 259\\, 1019 CZ Amsterdam\\, Netherlands');
+    expect(lines).toContain('URL:https://hipsy.nl/event/4242');
+    expect(lines.find(line => line.startsWith('DESCRIPTION:'))).toMatch(
+      /^DESCRIPTION:Leela: .+\\n\\nTickets: https:\/\/hipsy\.nl\/event\/4242$/
+    );
+    expect(feed.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+
+  it('writes DTEND for events with an end time', async () => {
+    const lines = unfold(
+      await formatICalendar([event({ endDate: '2026-07-04T23:30:00+02:00' })], { now })
+    );
+
+    expect(lines).toContain('DTEND;TZID=Europe/Amsterdam:20260704T233000');
+    expect(
+      unfold(await formatICalendar([event()], { now })).some(line => line.startsWith('DTEND'))
+    ).toBe(false);
+  });
+
+  it('uses winter time outside DST and escapes special characters', async () => {
+    const lines = unfold(
+      await formatICalendar(
+        [event({ date: '2026-12-05T19:00:00Z', title: 'Cacao; Journey, live', djName: undefined })],
+        { now }
+      )
+    );
+
+    expect(lines).toContain('DTSTART;TZID=Europe/Amsterdam:20261205T200000');
+    expect(lines).toContain('SUMMARY:Cacao\\; Journey\\, live');
+  });
+
+  it('folds long lines at 75 octets', async () => {
+    const feed = await formatICalendar([event({ title: `Ecstatic Dance ${'🌊'.repeat(40)}` })], {
+      now,
+    });
+
+    for (const line of feed.split('\r\n')) {
+      expect(Buffer.byteLength(line, 'utf-8')).toBeLessThanOrEqual(75);
+    }
+    expect(unfold(feed)).toContain(`SUMMARY:Ecstatic Dance ${'🌊'.repeat(40)}`);
+  });
+});
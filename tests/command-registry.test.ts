@@ -0,0 +1,193 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { CommandRegistry } from '../src/telegram/command-registry';
+import { createOdessaCommandRegistry } from '../src/telegram/command-handlers';
+import { createTransport } from './setup';
+
+function message(text: string, userId = 42): TelegramBot.Message {
+  return {
+    message_id: 1,
+    date: 0,
+    text,
+    chat: { id: -100123, type: 'supergroup' },
+    from: { id: userId, is_bot: false, first_name: 'Dancer' },
+  };
+}
+
+describe('Command registry', () => {
+  it('routes commands to their handler with parsed arguments', async () => {
+    const handler = jest.fn().mockResolvedValue(undefined);
+    const registry = new CommandRegistry({ botUsername: 'odessa_tg_bot' }).register({
+      command: '/dj',
+      description: 'DJ profile lookup',
+      handler,
+    });
+    const transport = createTransport();
+
+    await expect(registry.dispatch(message('/dj@odessa_tg_bot Samaya'), transport)).resolves.toBe(
+      'handled'
+    );
+    expect(handler).toHaveBeenCalledWith(
+      expect.objectContaining({ command: '/dj', args: 'Samaya', chatId: -100123, userId: 42 })
+    );
+  });
+
+  it('ignores commands addressed to another bot and unknown commands', async () => {
+    const handler = jest.fn().mockResolvedValue(undefined);
+    const registry = new CommandRegistry({ botUsername: 'odessa_tg_bot' }).register({
+      command: '/schedule',
+      description: "This week's schedule",
+      handler,
+    });
+    const transport = createTransport();
+
+    await expect(registry.dispatch(message('/schedule@other_bot'), transport)).resolves.toBe(
+      'ignored'
+    );
+    await expect(registry.dispatch(message('/unknown'), transport)).resolves.toBe('unknown');
+    await expect(registry.dispatch(message('hello'), transport)).resolves.toBe('unknown');
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('rate limits repeated requests from the same user', async () => {
+    const handler = jest.fn().mockResolvedValue(undefined);
+    const registry = new CommandRegistry().register({
+      command: '/next',
+      description: "Who's facilitating next",
+      rateLimited: true,
+      handler,
+    });
+    const transport = createTransport();
+
+    await registry.dispatch(message('/next'), transport);
+    await expect(registry.dispatch(message('/next'), transport)).resolves.toBe('rate_limited');
+    await registry.dispatch(message('/next', 7), transport);
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(transport.sendMessage).toHaveBeenCalledWith(
+      -100123,
+      expect.stringContaining('Please wait')
+    );
+  });
+
+  it('sends the command error message when a handler throws', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const registry = new CommandRegistry().register({
+      command: '/whosplaying',
+      description: "Who's facilitating today",
+      errorMessage: 'Sorry!',
+      handler: jest.fn().mockRejectedValue(new Error('Hipsy down')),
+    });
+    const transport = createTransport();
+
+    await registry.dispatch(message('/whosplaying'), transport);
+    expect(transport.sendMessage).toHaveBeenCalledWith(-100123, 'Sorry!');
+  });
+
+  it('only lets group admins run admin-only commands', async () => {
+    const handler = jest.fn().mockResolvedValue(undefined);
+    const registry = new CommandRegistry().register({
+      command: '/subscribe',
+      description: 'Get scheduled posts in this chat',
+      adminOnly: true,
+      handler,
+    });
+    const transport = createTransport();
+
+    await expect(registry.dispatch(message('/subscribe'), transport)).resolves.toBe('forbidden');
+    expect(transport.getChatMember).toHaveBeenCalledWith(-100123, 42);
+    expect(transport.sendMessage).toHaveBeenCalledWith(
+      -100123,
+      expect.stringContaining('Only group admins')
+    );
+
+    transport.getChatMember.mockResolvedValueOnce({
+      status: 'administrator',
+    } as TelegramBot.ChatMember);
+    await expect(registry.dispatch(message('/subscribe'), transport)).resolves.toBe('handled');
+
+    const privateMessage = { ...message('/subscribe'), chat: { id: 42, type: 'private' as const } };
+    await expect(registry.dispatch(privateMessage, transport)).resolves.toBe('handled');
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('logs refusals that fail to send instead of rejecting', async () => {
+    const logError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const registry = new CommandRegistry()
+      .register({
+        command: '/next',
+        description: "Who's facilitating next",
+        rateLimited: true,
+        handler: jest.fn().mockResolvedValue(undefined),
+      })
+      .register({
+        command: '/subscribe',
+        description: 'Get scheduled posts in this chat',
+        adminOnly: true,
+        handler: jest.fn().mockResolvedValue(undefined),
+      });
+    const transport = createTransport();
+
+    await registry.dispatch(message('/next'), transport);
+    transport.sendMessage.mockRejectedValue(new Error('Forbidden: bot was blocked by the user'));
+
+    await expect(registry.dispatch(message('/next'), transport)).resolves.toBe('rate_limited');
+    await expect(registry.dispatch(message('/subscribe'), transport)).resolves.toBe('forbidden');
+    expect(logError).toHaveBeenCalledWith('Error sending rate limit message:', expect.any(Error));
+    expect(logError).toHaveBeenCalledWith('Error sending admin-only message:', expect.any(Error));
+  });
+
+  it('routes inline button presses by callback prefix and always answers them', async () => {
+    const handler = jest.fn().mockResolvedValue(undefined);
+    const registry = new CommandRegistry().registerCallback({ prefix: 'remind', handler });
+    const transport = createTransport();
+    const query: TelegramBot.CallbackQuery = {
+      id: 'query-1',
+      chat_instance: 'instance',
+      data: 'remind:123:3h',
+      from: { id: 42, is_bot: false, first_name: 'Dancer' },
+      message: { message_id: 9, date: 0, chat: { id: 42, type: 'private' } },
+    };
+
+    await expect(registry.dispatchCallback(query, transport)).resolves.toBe('handled');
+    expect(handler).toHaveBeenCalledWith(
+      expect.objectContaining({ data: '123:3h', chatId: 42, messageId: 9, userId: 42 })
+    );
+    expect(transport.answerCallbackQuery).toHaveBeenCalledWith('query-1', undefined);
+
+    await expect(
+      registry.dispatchCallback({ ...query, id: 'query-2', data: 'other:1' }, transport)
+    ).resolves.toBe('unknown');
+    expect(transport.answerCallbackQuery).toHaveBeenCalledWith('query-2');
+  });
+
+  it('answers failed inline queries with no results', async () => {
+    const registry = new CommandRegistry().registerInlineHandler(async () => {
+      throw new Error('Hipsy down');
+    });
+    const transport = createTransport();
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const query: TelegramBot.InlineQuery = {
+      id: 'inline-1',
+      from: { id: 42, is_bot: false, first_name: 'Dancer' },
+      query: ' friday ',
+      offset: '',
+    };
+
+    await expect(registry.dispatchInlineQuery(query, transport)).resolves.toBe('handled');
+    expect(transport.answerInlineQuery).toHaveBeenCalledWith('inline-1', [], { cacheTime: 0 });
+    jest.restoreAllMocks();
+  });
+
+  it('lists every visible Odessa command in /commands', async () => {
+    const registry = createOdessaCommandRegistry();
+    const transport = createTransport();
+
+    await registry.dispatch(message('/commands'), transport);
+
+    const [, text] = transport.sendMessage.mock.calls[0]!;
+    expect(text).toContain('• /whosplaying — ');
+    expect(text).toContain('• /dj [name] — DJ profile lookup');
+    expect(text).toContain('• /djs — List all DJs');
+    expect(text).not.toContain('/parking');
+  });
+});
@@ -0,0 +1,119 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MemoryDataStore, createDataStore } from '../src/storage/data-store';
+import { FileDataStore } from '../src/storage/file-data-store';
+import { KVDataStore } from '../src/storage/kv-data-store';
+import { SqliteDataStore } from '../src/storage/sqlite-data-store';
+import { GroupTracker } from '../src/utils/group-tracker';
+
+const hasNodeSqlite = Number(process.versions.node.split('.')[0]) >= 22;
+
+describe('data stores', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'odessa-store-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('stores one JSON file per key on disk', async () => {
+    const store = new FileDataStore(directory);
+
+    await expect(store.get('groups')).resolves.toBeNull();
+    await store.set('groups', { groups: [-100] });
+
+    expect(JSON.parse(readFileSync(join(directory, 'groups.json'), 'utf-8'))).toEqual({
+      groups: [-100],
+    });
+    await expect(store.get('groups')).resolves.toEqual({ groups: [-100] });
+
+    await store.delete('groups');
+    await expect(store.get('groups')).resolves.toBeNull();
+  });
+
+  it('speaks the Redis REST protocol for the KV backend', async () => {
+    const values = new Map<string, string>();
+    const fetchMock = jest.fn().mockImplementation(async (_url: string, init: RequestInit) => {
+      const [command, key, value] = JSON.parse(init.body as string) as string[];
+      if (command === 'SET') values.set(key!, value!);
+      if (command === 'DEL') values.delete(key!);
+      return {
+        ok: true,
+        status: 200,
+        json: async () => ({ result: command === 'GET' ? (values.get(key!) ?? null) : 'OK' }),
+      };
+    });
+    const store = new KVDataStore('https://kv.example/', 'secret', 'test:', fetchMock);
+
+    await store.set('groups', { groups: [-1, -2] });
+    await expect(store.get('groups')).resolves.toEqual({ groups: [-1, -2] });
+    expect(values.has('test:groups')).toBe(true);
+    expect(fetchMock.mock.calls[0]![0]).toBe('https://kv.example');
+    expect(fetchMock.mock.calls[0]![1].headers.Authorization).toBe('Bearer secret');
+  });
+
+  (hasNodeSqlite ? it : it.skip)('keeps documents in a single SQLite file', async () => {
+    const path = join(directory, 'nested', 'odessa.sqlite');
+    const store = new SqliteDataStore(path);
+
+    await store.set('groups', { groups: [-5] });
+    await store.set('groups', { groups: [-5, -6] });
+    await store.close();
+
+    const reopened = new SqliteDataStore(path);
+    await expect(reopened.get('groups')).resolves.toEqual({ groups: [-5, -6] });
+    await reopened.delete('groups');
+    await expect(reopened.get('groups')).resolves.toBeNull();
+    await reopened.close();
+  });
+
+  it('keeps runtime state out of the committed src/data directory by default', async () => {
+    const cwd = jest.spyOn(process, 'cwd').mockReturnValue(directory);
+
+    await createDataStore({}).set('follows', { users: {} });
+
+    cwd.mockRestore();
+    expect(readFileSync(join(directory, '.data', 'follows.json'), 'utf-8')).toContain('users');
+  });
+
+  it('selects the backend from configuration', () => {
+    expect(createDataStore({ STORAGE_DIR: directory }).backend).toBe('file');
+    expect(createDataStore({ STORAGE_BACKEND: 'sqlite' }).backend).toBe('sqlite');
+    expect(
+      createDataStore({ KV_REST_API_URL: 'https://kv.example', KV_REST_API_TOKEN: 'secret' })
+        .backend
+    ).toBe('kv');
+    expect(() => createDataStore({ STORAGE_BACKEND: 'kv' })).toThrow('KV_REST_API_URL');
+    expect(() => createDataStore({ STORAGE_BACKEND: 'postgres' })).toThrow('Unknown');
+  });
+});
+
+describe('GroupTracker', () => {
+  it('persists new groups through the configured store and skips private chats', async () => {
+    const store = new MemoryDataStore();
+    const tracker = new GroupTracker(store);
+
+    await tracker.addGroup(-100123);
+    await tracker.addGroup(-100123);
+    await tracker.addGroup(42);
+
+    await expect(new GroupTracker(store).getAllGroups()).resolves.toEqual([-100123]);
+
+    await tracker.removeGroup(-100123);
+    await expect(tracker.getAllGroups()).resolves.toEqual([]);
+  });
+
+  it('reports failed writes instead of throwing', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const store = new MemoryDataStore();
+    jest
+      .spyOn(store, 'set')
+      .mockRejectedValue(Object.assign(new Error('read-only'), { code: 'EROFS' }));
+
+    await expect(new GroupTracker(store).saveGroups([-1])).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,118 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { MemoryDataStore } from '../src/storage/data-store';
+import {
+  createCommandServices,
+  createOdessaCommandRegistry,
+} from '../src/telegram/command-handlers';
+import { DJLoader } from '../src/utils/dj-loader';
+import { foldName, pickConfidentMatch, rankDJNames } from '../src/utils/dj-name-matcher';
+import { MergedDJRepository } from '../src/utils/dj-repository';
+import { EventArchive } from '../src/utils/event-archive';
+import { createTransport, fakeScraper } from './setup';
+
+const candidates = [
+  { key: 'Faralduín', names: ['Faralduín'] },
+  { key: 'Indi Raeva', names: ['Indi Raeva'] },
+  { key: 'Leela', names: ['Leela'] },
+  { key: 'Lizzy', names: ['Lizzy'] },
+  { key: 'Lady Joker', names: ['Lady Joker'] },
+  { key: "Ma'rifa", names: ["Ma'rifa", 'Ma-rifa'] },
+  { key: 'Samaya', names: ['Samaya'] },
+];
+
+function resolve(query: string): string | undefined {
+  return pickConfidentMatch(rankDJNames(query, candidates))?.key;
+}
+
+describe('DJ name matching', () => {
+  it('folds diacritics, case and punctuation', () => {
+    expect(foldName('Faralduín')).toBe('faralduin');
+    expect(foldName(" Ma'rifa ")).toBe('ma rifa');
+  });
+
+  it('resolves typos, partial names and extra words to one DJ', () => {
+    expect(resolve('Samya')).toBe('Samaya');
+    expect(resolve('faralduin')).toBe('Faralduín');
+    expect(resolve('marifa')).toBe("Ma'rifa");
+    expect(resolve('indi')).toBe('Indi Raeva');
+    expect(resolve('DJ Leela')).toBe('Leela');
+  });
+
+  it('ranks close names for "did you mean" and leaves the rest out', () => {
+    expect(rankDJNames('Raiva', candidates)[0]?.key).toBe('Indi Raeva');
+    expect(resolve('Raiva')).toBeUndefined();
+    expect(rankDJNames('Lzy', candidates).map(match => match.key)).toContain('Lizzy');
+    expect(rankDJNames('zzz', candidates)).toEqual([]);
+  });
+});
+
+describe('/dj suggestions', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function setup() {
+    const roster = new DJLoader();
+    jest.spyOn(roster, 'loadDJData').mockReturnValue({
+      'Indi Raeva': { photo: 'https://example.com/indi.jpg', shortDescription: 'Deep house.' },
+      Leela: {},
+      Lizzy: {},
+    });
+    const registry = createOdessaCommandRegistry({
+      ...createCommandServices(),
+      djRepository: new MergedDJRepository(roster),
+      archive: new EventArchive(new MemoryDataStore()),
+      scraper: fakeScraper(),
+    });
+    const transport = createTransport();
+    const chat: TelegramBot.Chat = { id: 42, type: 'private' };
+    const from: TelegramBot.User = { id: 42, is_bot: false, first_name: 'Dancer' };
+    const send = (text: string) =>
+      registry.dispatch({ message_id: 1, date: 0, chat, from, text }, transport);
+    const press = (data: string) =>
+      registry.dispatchCallback(
+        {
+          id: data,
+          chat_instance: 'instance',
+          data,
+          from,
+          message: { message_id: 2, date: 0, chat },
+        },
+        transport
+      );
+    return { send, press, transport };
+  }
+
+  it('offers buttons for a name it cannot place, which open the profile', async () => {
+    const { send, press, transport } = setup();
+
+    await send('/dj Raiva');
+
+    const [, text, keyboard] = transport.sendMessage.mock.calls[0]!;
+    expect(text).toBe('🤔 No DJ called "Raiva". Did you mean one of these?');
+    expect(keyboard?.inline_keyboard[0]).toEqual([
+      { text: '🎧 Indi Raeva', callback_data: 'dj:Indi Raeva' },
+    ]);
+
+    await press('dj:Indi Raeva');
+
+    const [chatId, photo, caption] = transport.sendPhoto.mock.calls[0]!;
+    expect(chatId).toBe(42);
+    expect(photo).toBe('https://example.com/indi.jpg');
+    expect(caption).toContain('🎧 <b>INDI RAEVA</b>');
+  });
+
+  it('says not found when nothing comes close', async () => {
+    const { send, transport } = setup();
+
+    await send('/dj Zzyzx');
+
+    const [, text, keyboard] = transport.sendMessage.mock.calls[0]!;
+    expect(text).toContain('❌ DJ "Zzyzx" not found.');
+    expect(keyboard).toBeUndefined();
+  });
+});
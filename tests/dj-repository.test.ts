@@ -0,0 +1,125 @@
+import { DJProfile } from '../src/types/dj';
+import { DJLoader } from '../src/utils/dj-loader';
+import { DJSource, MergedDJRepository } from '../src/utils/dj-repository';
+
+function source(sourceId: string, profiles: Record<string, Partial<DJProfile>>): DJSource {
+  return {
+    sourceId,
+    getProfile: jest.fn(async (djName: string) => profiles[djName] ?? null),
+  };
+}
+
+function createRoster(): DJLoader {
+  const roster = new DJLoader();
+  jest.spyOn(roster, 'loadDJData').mockReturnValue({ Samaya: {}, Leela: {} });
+  return roster;
+}
+
+describe('MergedDJRepository', () => {
+  const wix = source('wix', {
+    Samaya: {
+      name: 'Samaya',
+      shortDescription: 'Bio from Wix.',
+      soundcloudUrl: 'https://soundcloud.com/samaya-wix',
+    },
+  });
+  const json = source('json', {
+    Samaya: {
+      name: 'Samaya',
+      photo: 'https://example.com/samaya.jpg',
+      shortDescription: 'Bio from djs.json.',
+      instagramUrl: 'https://instagram.com/samaya',
+    },
+    Leela: { name: 'Leela', shortDescription: 'Tribal grooves.' },
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('fills fields Wix leaves empty from djs.json', async () => {
+    const repository = new MergedDJRepository(createRoster(), [wix, json]);
+
+    await expect(repository.getProfile('samaya')).resolves.toEqual({
+      name: 'Samaya',
+      photo: 'https://example.com/samaya.jpg',
+      shortDescription: 'Bio from Wix.',
+      soundcloudUrl: 'https://soundcloud.com/samaya-wix',
+      instagramUrl: 'https://instagram.com/samaya',
+    });
+    expect(wix.getProfile).toHaveBeenCalledWith('Samaya');
+  });
+
+  it('follows the per-field precedence', async () => {
+    const repository = new MergedDJRepository(createRoster(), [wix, json], {
+      shortDescription: ['json', 'wix'],
+    });
+
+    const profile = await repository.getProfile('Samaya');
+
+    expect(profile?.shortDescription).toBe('Bio from djs.json.');
+    expect(profile?.soundcloudUrl).toBe('https://soundcloud.com/samaya-wix');
+  });
+
+  it('skips a failing source and returns null when no source knows the DJ', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const failing: DJSource = {
+      sourceId: 'wix',
+      getProfile: jest.fn().mockRejectedValue(new Error('Wix down')),
+    };
+    const repository = new MergedDJRepository(createRoster(), [failing, json]);
+
+    await expect(repository.getProfile('Leela')).resolves.toEqual({
+      name: 'Leela',
+      shortDescription: 'Tribal grooves.',
+    });
+    await expect(repository.getProfile('Nobody')).resolves.toBeNull();
+    await expect(repository.listProfiles()).resolves.toHaveLength(2);
+  });
+
+  it('resolves aliases to the canonical entry without listing them twice', async () => {
+    const roster = new DJLoader();
+    jest.spyOn(roster, 'loadDJData').mockReturnValue({
+      "Ma'rifa": { aliases: ['Ma-rifa', 'Marifa'], soundcloud: 'https://soundcloud.com/ma-rifa' },
+      Leela: {},
+    });
+    const repository = new MergedDJRepository(roster);
+
+    expect(repository.resolveName('ma-rifa')).toBe("Ma'rifa");
+    expect(repository.resolveName('Ma’rifa')).toBe("Ma'rifa");
+    expect(repository.resolveEventDJNames({ djNames: ['Marifa', "Ma'rifa", 'Leela'] })).toEqual([
+      "Ma'rifa",
+      'Leela',
+    ]);
+    expect(repository.getAllNames()).toEqual(["Ma'rifa", 'Leela']);
+    await expect(repository.getProfile('Ma-rifa')).resolves.toEqual({
+      name: "Ma'rifa",
+      soundcloudUrl: 'https://soundcloud.com/ma-rifa',
+    });
+  });
+
+  it('only guesses at typed names, never at names in event titles', async () => {
+    const roster = new DJLoader();
+    jest.spyOn(roster, 'loadDJData').mockReturnValue({ Leela: {}, Samaya: {}, Yona: {} });
+    const repository = new MergedDJRepository(roster);
+
+    expect(repository.resolveEventDJNames({ djNames: ['Leena', 'Yonas', 'Samaya'] })).toEqual([
+      'Samaya',
+    ]);
+    expect(repository.resolveName('Leena')).toBeNull();
+    await expect(repository.getProfile('Leena')).resolves.toBeNull();
+    expect(repository.matchName('Samya')).toBe('Samaya');
+  });
+
+  it('reads the aliases in djs.json', () => {
+    const repository = new MergedDJRepository(new DJLoader());
+
+    expect(repository.resolveName('Faralduin')).toBe('Faralduín');
+    expect(repository.resolveName('Ma-rifa')).toBe("Ma'rifa");
+    expect(repository.getAllNames()).not.toContain('Ma-rifa');
+  });
+});
@@ -0,0 +1,123 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { DJDatabase } from '../src/types/dj';
+import {
+  buildSyncedDJDatabase,
+  diffDJDatabases,
+  formatDJSyncDiff,
+  serializeDJDatabase,
+} from '../src/utils/dj-sync';
+import { WixDJLoader } from '../src/utils/wix-dj-loader';
+
+const current: DJDatabase = {
+  Faralduín: {
+    aliases: ['Faralduin'],
+    photo: 'https://static.wixstatic.com/media/faralduin.jpg',
+    soundcloud: 'https://soundcloud.com/djfaralduin',
+    tags: ['Resident'],
+  },
+  Leela: { shortDescription: 'Tribal grooves.' },
+  Gone: { soundcloud: 'https://soundcloud.com/gone' },
+};
+
+describe('sync-djs', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('rebuilds djs.json from Wix, keeping names, aliases, tags and fields Wix lacks', () => {
+    const loader = new WixDJLoader();
+    const synced = buildSyncedDJDatabase(
+      current,
+      [
+        {
+          _id: '1',
+          title: 'Faralduin',
+          shortDescription: ' Joyful journeys. ',
+          website2: 'https://www.instagram.com/faralduin/',
+        },
+        { _id: '2', title: 'Leela', shortDescription: 'Tribal grooves.' },
+        {
+          _id: '3',
+          title: 'Yona',
+          photo: 'wix:image://v1/36fde5_abc~mv2.jpg/Yona.jpg#originWidth=500',
+          website: 'https://soundcloud.com/yona',
+        },
+      ],
+      url => loader.convertWixImageUrl(url)
+    );
+
+    expect(synced).toEqual({
+      Faralduín: {
+        aliases: ['Faralduin'],
+        photo: 'https://static.wixstatic.com/media/faralduin.jpg',
+        shortDescription: 'Joyful journeys.',
+        soundcloud: 'https://soundcloud.com/djfaralduin',
+        instagram: 'https://www.instagram.com/faralduin/',
+        tags: ['Resident'],
+      },
+      Leela: { shortDescription: 'Tribal grooves.' },
+      Yona: {
+        photo: 'https://static.wixstatic.com/media/36fde5_abc~mv2.jpg',
+        soundcloud: 'https://soundcloud.com/yona',
+      },
+    });
+
+    expect(formatDJSyncDiff(diffDJDatabases(current, synced))).toBe(
+      [
+        '+ Yona',
+        '~ Faralduín (shortDescription, instagram)',
+        '- Gone',
+        '',
+        '1 added, 1 changed, 1 removed',
+      ].join('\n')
+    );
+    expect(formatDJSyncDiff(diffDJDatabases(synced, synced))).toBe(
+      'No changes: djs.json matches Wix.'
+    );
+  });
+
+  it('writes djs.json in its existing layout', () => {
+    const text = readFileSync(join(__dirname, '..', 'src', 'data', 'djs.json'), 'utf-8');
+
+    expect(serializeDJDatabase(JSON.parse(text))).toBe(text);
+  });
+
+  it('pages through the whole Team collection', async () => {
+    process.env['WIX_API_KEY'] = 'key';
+    process.env['WIX_SITE_ID'] = 'site';
+    const item = (index: number) => ({ _id: `${index}`, data: { title: `DJ ${index}` } });
+    const fetchMock = jest
+      .spyOn(global, 'fetch')
+      .mockResolvedValueOnce(
+        new Response(
+          JSON.stringify({
+            dataItems: Array.from({ length: 100 }, (_, index) => item(index)),
+            pagingMetadata: { total: 101 },
+          })
+        )
+      )
+      .mockResolvedValueOnce(
+        new Response(JSON.stringify({ dataItems: [item(100)], pagingMetadata: { total: 101 } }))
+      );
+
+    try {
+      const items = await new WixDJLoader().loadAllDJs();
+
+      expect(items).toHaveLength(101);
+      expect(items[100]).toMatchObject({ _id: '100', title: 'DJ 100' });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(JSON.parse(String(fetchMock.mock.calls[1]![1]!.body)).query.paging).toEqual({
+        limit: 100,
+        offset: 100,
+      });
+    } finally {
+      delete process.env['WIX_API_KEY'];
+      delete process.env['WIX_SITE_ID'];
+    }
+  });
+});
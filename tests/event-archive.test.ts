@@ -0,0 +1,176 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { MemoryDataStore } from '../src/storage/data-store';
+import {
+  createCommandServices,
+  createOdessaCommandRegistry,
+} from '../src/telegram/command-handlers';
+import { Event } from '../src/types/event';
+import { EventArchive, updateEventArchive } from '../src/utils/event-archive';
+import { createTransport, fakeScraper, hipsyPage } from './setup';
+
+function event(id: string, date: string, djNames: string[]): Event {
+  return {
+    id,
+    title: `Ecstatic Dance | ${djNames.join(' & ')}`,
+    date,
+    ticketUrl: `https://hipsy.nl/event/${id}`,
+    originalDate: date,
+    djName: djNames[0],
+    ...(djNames.length > 1 ? { djNames } : {}),
+    eventType: 'ED',
+  };
+}
+
+describe('EventArchive', () => {
+  it('keeps started events once each, oldest first', async () => {
+    const archive = new EventArchive(new MemoryDataStore());
+    const now = new Date('2026-10-21T12:00:00Z');
+
+    await expect(
+      archive.addEvents(
+        [
+          event('2', '2026-10-17T18:00:00Z', ['Anica']),
+          event('1', '2026-10-10T18:00:00Z', ['Leela']),
+          event('3', '2026-10-24T18:00:00Z', ['Samaya']),
+        ],
+        now
+      )
+    ).resolves.toBe(2);
+    await expect(
+      archive.addEvents([{ ...event('2', '2026-10-17T18:00:00Z', ['Yona']) }], now)
+    ).resolves.toBe(0);
+
+    const events = await archive.getEvents();
+    expect(events.map(item => [item.id, item.djName])).toEqual([
+      ['1', 'Leela'],
+      ['2', 'Yona'],
+    ]);
+  });
+});
+
+describe('updateEventArchive', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('pages back through past events until a page has nothing new', async () => {
+    const archive = new EventArchive(new MemoryDataStore());
+    const known = event('1', '2026-10-10T18:00:00Z', ['Leela']);
+    await archive.addEvents([known]);
+    await archive.setBackfillProgress({ nextPage: 2, complete: true });
+    const fullPage = Array.from({ length: 50 }, (_, index) =>
+      event(`n${index}`, '2026-10-17T18:00:00Z', ['Anica'])
+    );
+    const scraper = fakeScraper(fullPage, [known, ...fullPage.slice(1)]);
+
+    await expect(updateEventArchive(archive, scraper)).resolves.toEqual({ added: 50, total: 51 });
+    expect(scraper.getEvents.mock.calls).toEqual([
+      [1, 'past', 50],
+      [2, 'past', 50],
+    ]);
+  });
+
+  it('finishes a backfill that an earlier run did not complete', async () => {
+    const archive = new EventArchive(new MemoryDataStore());
+    const newest = Array.from({ length: 50 }, (_, index) =>
+      event(`a${index}`, '2026-10-17T18:00:00Z', ['Anica'])
+    );
+    const older = Array.from({ length: 50 }, (_, index) =>
+      event(`b${index}`, '2026-09-12T18:00:00Z', ['Leela'])
+    );
+    const oldest = [event('c0', '2026-08-01T18:00:00Z', ['Samaya'])];
+    const firstRun = fakeScraper(newest);
+    firstRun.getEvents
+      .mockResolvedValueOnce(hipsyPage(newest))
+      .mockResolvedValueOnce({ ...hipsyPage([]), success: false, error: 'timeout' });
+
+    await expect(updateEventArchive(archive, firstRun)).rejects.toThrow('timeout');
+    await expect(archive.getEvents()).resolves.toHaveLength(50);
+
+    const secondRun = fakeScraper(newest, older, oldest);
+    await expect(updateEventArchive(archive, secondRun)).resolves.toEqual({
+      added: 51,
+      total: 101,
+    });
+    expect(secondRun.getEvents.mock.calls.map(([page]) => page)).toEqual([1, 2, 3]);
+
+    // Once the oldest page has been read, runs stop at the first known page again
+    const thirdRun = fakeScraper(newest);
+    await updateEventArchive(archive, thirdRun);
+    expect(thirdRun.getEvents).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses to archive a stale copy', async () => {
+    const scraper = fakeScraper();
+    scraper.getEvents.mockResolvedValue({ ...hipsyPage([]), stale: true });
+
+    await expect(
+      updateEventArchive(new EventArchive(new MemoryDataStore()), scraper)
+    ).rejects.toThrow('Failed to fetch past events');
+  });
+});
+
+describe('/history and /dj', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-10-21T12:00:00Z') });
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  async function setup() {
+    const archive = new EventArchive(new MemoryDataStore());
+    await archive.addEvents([
+      event('1', '2025-03-14T19:00:00Z', ['Leela']),
+      event('2', '2026-06-05T18:00:00Z', ['Samaya']),
+      event('3', '2026-10-10T18:00:00Z', ['Leela', 'Anica']),
+    ]);
+    const scraper = fakeScraper([event('4', '2026-10-30T19:00:00Z', ['Leela'])]);
+    const registry = createOdessaCommandRegistry({
+      ...createCommandServices(),
+      archive,
+      scraper,
+    });
+    const transport = createTransport();
+    const send = (text: string) => {
+      const message: TelegramBot.Message = {
+        message_id: 1,
+        date: 0,
+        text,
+        chat: { id: 42, type: 'private' },
+        from: { id: 42, is_bot: false, first_name: 'Organiser' },
+      };
+      return registry.dispatch(message, transport);
+    };
+    return { send, transport };
+  }
+
+  it('lists how often and when a DJ played, including B2B sets', async () => {
+    const { send, transport } = await setup();
+
+    await send('/history leela');
+
+    const [, text] = transport.sendMessage.mock.calls[0]!;
+    expect(text).toContain('📜 <b>Leela at Odessa</b>');
+    expect(text).toContain('🎧 Played 2 times since 14 Mar 2025');
+    expect(text).toContain('⏮️ Last played: 10 Oct 2026 — Ecstatic Dance | Leela &amp; Anica');
+    expect(text).toContain('⏭️ Next playing: Fri 30 Oct 20:00');
+    expect(text).not.toContain('Samaya');
+  });
+
+  it('adds last played and next playing to /dj profiles', async () => {
+    const { send, transport } = await setup();
+
+    await send('/dj Leela');
+
+    const [, , caption] = transport.sendPhoto.mock.calls[0]!;
+    expect(caption).toContain('⏮️ Last played 10 Oct 2026 · ⏭️ Next playing Fri 30 Oct 20:00');
+  });
+});
@@ -0,0 +1,139 @@
+import {
+  EventDescriptionParser,
+  getDescriptionSummary,
+} from '../src/parsers/event-description-parser';
+import { WhosPlayingFormatter } from '../src/formatters/whosplaying-formatter';
+import { formatNextEvent } from '../src/telegram/command-handlers';
+import { MAX_CAPTION_LENGTH, stripTelegramHtml } from '../src/telegram/formatting';
+import { Event } from '../src/types/event';
+import { DJLoader } from '../src/utils/dj-loader';
+import { MergedDJRepository } from '../src/utils/dj-repository';
+
+const CACAO_DESCRIPTION = `<p><strong>Cacao Ecstatic Dance</strong> &ndash; a heart-opening journey.</p>
+<p>Doors open at 19.30, dance 20:00&nbsp;-&nbsp;23:00</p>
+<p>Line-up:</p>
+<ul><li>DJ Leela</li><li>Live cello by Mira</li></ul>
+<p>Please bring your own cacao cup &amp; a water bottle. No phones on the dance floor!</p>`;
+
+describe('EventDescriptionParser', () => {
+  const parser = new EventDescriptionParser();
+
+  it('turns the HTML into plain text and finds times, line-up and instructions', () => {
+    const parsed = parser.parse(CACAO_DESCRIPTION);
+
+    expect(parsed.text).toBe(
+      [
+        'Cacao Ecstatic Dance – a heart-opening journey.',
+        'Doors open at 19.30, dance 20:00 - 23:00',
+        'Line-up:',
+        'DJ Leela',
+        'Live cello by Mira',
+        'Please bring your own cacao cup & a water bottle. No phones on the dance floor!',
+      ].join('\n')
+    );
+    expect(parsed).toMatchObject({
+      doorsTime: '19:30',
+      startTime: '20:00',
+      endTime: '23:00',
+      lineup: ['DJ Leela', 'Live cello by Mira'],
+      instructions: [
+        'Please bring your own cacao cup & a water bottle.',
+        'No phones on the dance floor!',
+      ],
+    });
+  });
+
+  it('reads labelled times and lines without a range', () => {
+    const parsed = parser.parse(
+      'Dance starts 20:00<br>We end around 22.45<br>Live music: Yona on handpan'
+    );
+
+    expect(parsed).toMatchObject({
+      startTime: '20:00',
+      endTime: '22:45',
+      lineup: ['Live music: Yona on handpan'],
+      instructions: [],
+    });
+    expect(parsed.doorsTime).toBeUndefined();
+  });
+
+  it('summarises the details, or the start of the text when there are none', () => {
+    expect(getDescriptionSummary(parser.parse(CACAO_DESCRIPTION))).toBe(
+      [
+        '🕗 Doors 19:30 · Start 20:00 · End 23:00',
+        '🎶 DJ Leela',
+        '🎶 Live cello by Mira',
+        '💡 Please bring your own cacao cup & a water bottle.',
+        '💡 No phones on the dance floor!',
+      ].join('\n')
+    );
+    expect(getDescriptionSummary(parser.parse(`<p>${'Move freely. '.repeat(40)}</p>`))).toMatch(
+      /^Move freely\..{200,}…$/
+    );
+    expect(getDescriptionSummary(parser.parse(''))).toBeUndefined();
+  });
+
+  it('adds the summary to /next as an expandable quote', () => {
+    const event: Event = {
+      id: '1',
+      title: 'Cacao Ecstatic Dance | Leela',
+      date: '2026-10-25T18:00:00Z',
+      ticketUrl: 'https://hipsy.nl/event/1',
+      originalDate: '2026-10-25T18:00:00Z',
+      description: CACAO_DESCRIPTION,
+    };
+
+    const text = formatNextEvent(event, new Date('2026-10-21T12:00:00Z'));
+
+    expect(text).toContain(
+      '<blockquote expandable>🕗 Doors 19:30 · Start 20:00 · End 23:00\n🎶 DJ Leela'
+    );
+    expect(text).toContain('cacao cup &amp; a water bottle');
+    expect(formatNextEvent({ ...event, description: '' })).not.toContain('<blockquote');
+  });
+
+  it('leaves the quote out of photo captions that would get too long', async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    const longLine = (text: string) => `${text} ${'and a long story to go with it '.repeat(5)}`;
+    const description = `<p>Line-up:</p>
+<ul>${['DJ Leela', 'Live cello by Mira', 'Voice by Yona'].map(name => `<li>${longLine(name)}</li>`).join('')}</ul>
+<p>${longLine('Please bring a water bottle')}</p>
+<p>${longLine('Please wear clothes you can move in')}</p>
+<p>${longLine('Please leave phones off the dance floor')}</p>`;
+    const event: Event = {
+      id: '1',
+      title: 'Ecstatic Dance | Leela',
+      date: '2026-10-25T18:00:00Z',
+      ticketUrl: 'https://hipsy.nl/event/1',
+      originalDate: '2026-10-25T18:00:00Z',
+      djName: 'Leela',
+      description,
+    };
+    const bio = 'Leela weaves organic house and world rhythms. '.repeat(12);
+    const repository = new MergedDJRepository(new DJLoader());
+    const profile = jest.spyOn(repository, 'getProfile').mockResolvedValue({
+      name: 'Leela',
+      shortDescription: bio,
+    });
+    const formatter = new WhosPlayingFormatter(repository);
+
+    // Without a photo it goes out as a text message and keeps everything
+    const withoutPhoto = await formatter.formatEnhancedTodaySchedule([event]);
+    expect(withoutPhoto.text).toContain('DJ Leela and a long story');
+    expect(stripTelegramHtml(withoutPhoto.text).length).toBeGreaterThan(MAX_CAPTION_LENGTH);
+
+    profile.mockResolvedValue({
+      name: 'Leela',
+      photo: 'https://example.com/leela.jpg',
+      shortDescription: bio,
+    });
+    const withPhoto = await formatter.formatEnhancedTodaySchedule([event]);
+
+    expect(withPhoto.photos).toEqual(['https://example.com/leela.jpg']);
+    expect(stripTelegramHtml(withPhoto.text).length).toBeLessThanOrEqual(MAX_CAPTION_LENGTH);
+    expect(withPhoto.text).not.toContain('DJ Leela and a long story');
+    expect(withPhoto.text).toContain('Leela weaves organic house');
+
+    jest.restoreAllMocks();
+  });
+});
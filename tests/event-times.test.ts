@@ -0,0 +1,64 @@
+import { WhosPlayingFormatter } from '../src/formatters/whosplaying-formatter';
+import { formatNextEvent } from '../src/telegram/command-handlers';
+import { formatDuration, formatTimeRange } from '../src/telegram/formatting';
+import { Event } from '../src/types/event';
+
+function event(date: string, endDate?: string): Event {
+  return {
+    id: '1',
+    title: 'Ecstatic Dance | Leela',
+    date,
+    ...(endDate ? { endDate } : {}),
+    ticketUrl: 'https://hipsy.nl/event/1',
+    originalDate: date,
+    djName: 'Leela',
+    eventType: 'ED',
+  };
+}
+
+describe('event times', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('formats the time range and duration in Amsterdam time', () => {
+    const evening = event('2026-10-23T18:00:00Z', '2026-10-23T23:30:00+02:00');
+
+    expect(formatTimeRange(evening)).toBe('20:00–23:30');
+    expect(formatDuration(evening)).toBe('3h 30m');
+    expect(formatDuration(event('2026-10-23T18:00:00Z', '2026-10-23T21:00:00Z'))).toBe('3h');
+    expect(formatTimeRange(event('2026-10-23T18:00:00Z'))).toBe('20:00');
+    expect(formatDuration(event('2026-10-23T18:00:00Z'))).toBeUndefined();
+  });
+
+  it('shows the range and duration in /next', () => {
+    const text = formatNextEvent(
+      event('2026-10-23T18:00:00Z', '2026-10-23T23:30:00+02:00'),
+      new Date('2026-10-21T12:00:00Z')
+    );
+
+    expect(text).toContain('🗓️ Friday, Oct 23 at 20:00–23:30 (3h 30m)');
+  });
+
+  it('says "today" for events that are over by the evening and "tonight" otherwise', async () => {
+    const formatter = new WhosPlayingFormatter();
+
+    // Saturday afternoon, 14:00-17:00
+    const afternoon = await formatter.formatEnhancedTodaySchedule([
+      event('2026-10-24T12:00:00Z', '2026-10-24T17:00:00+02:00'),
+    ]);
+    // Friday, 16:30-19:00 runs into the evening
+    const earlyEvening = await formatter.formatEnhancedTodaySchedule([
+      event('2026-10-23T14:30:00Z', '2026-10-23T19:00:00+02:00'),
+    ]);
+
+    expect(afternoon.text).toContain(
+      '🎶 Today Ecstatic Dance with <b>Leela</b> 🎶\n🕗 14:00–17:00 (3h)'
+    );
+    expect(earlyEvening.text).toContain('🎶 Tonight Ecstatic Dance with <b>Leela</b>');
+  });
+});
@@ -0,0 +1,223 @@
+import { EventTitleParser, getDJNames } from '../src/parsers/event-title-parser';
+import { getHipsyFixturesDir, loadRecordedEvents } from '../src/scrapers/hipsy-fixtures';
+import { getDefaultVenue } from '../src/utils/venue-config';
+import titles from './fixtures/hipsy-titles.json';
+
+describe('EventTitleParser', () => {
+  const parser = new EventTitleParser();
+  const djs = (title: string) => getDJNames(parser.parse(title));
+
+  it.each(titles)('parses "$title"', ({ title, ...expected }) => {
+    expect(parser.parse(title)).toEqual({ title, ...expected });
+  });
+
+  describe('single DJ', () => {
+    it.each([
+      'Ecstatic Dance with Leela',
+      'Ecstatic Dance | Leela',
+      'Ecstatic Dance - Leela',
+      'Ecstatic Dance – Leela',
+      'Ecstatic Dance by Leela',
+      'Ecstatic Dance feat. Leela',
+      'Ecstatic Dance ft. Leela',
+    ])('reads the DJ from "%s"', title => {
+      expect(parser.parse(title)).toMatchObject({
+        series: 'Ecstatic Dance',
+        eventType: 'ED',
+        facilitators: [{ name: 'Leela', role: 'dj' }],
+      });
+    });
+
+    it('keeps names with spaces, dots and accents whole', () => {
+      expect(djs('ED | Indi Raeva')).toEqual(['Indi Raeva']);
+      expect(djs('Ecstatic Dance | B.Art')).toEqual(['B.Art']);
+      expect(djs('Ecstatic Dance | Faralduín')).toEqual(['Faralduín']);
+      expect(djs("Ecstatic Dance with Ma'rifa")).toEqual(["Ma'rifa"]);
+    });
+
+    it('splits series with a pipe of their own at the last pipe', () => {
+      expect(parser.parse('Queerstatic | Pride Special | Inphiknight')).toMatchObject({
+        series: 'Queerstatic | Pride Special',
+        facilitators: [{ name: 'Inphiknight', role: 'dj' }],
+      });
+    });
+  });
+
+  describe('several DJs', () => {
+    it.each([
+      'Ecstatic Dance | Ruby B2B Indi Raeva',
+      'Ecstatic Dance | Ruby b2b Indi Raeva',
+      'Ecstatic Dance | Ruby Back to Back Indi Raeva',
+      'Ecstatic Dance | Ruby vs Indi Raeva',
+      'Ecstatic Dance | Ruby x Indi Raeva',
+      'Ecstatic Dance | Ruby and Indi Raeva',
+      'Ecstatic Dance | Ruby & Indi Raeva',
+      'Ecstatic Dance | Ruby&Indi Raeva',
+      'Ecstatic Dance | Ruby + Indi Raeva',
+      'Ecstatic Dance | Ruby, Indi Raeva',
+    ])('splits "%s" in title order', title => {
+      expect(djs(title)).toEqual(['Ruby', 'Indi Raeva']);
+    });
+
+    it('keeps more than two DJs in order', () => {
+      expect(djs('Ecstatic Dance | Leela, Anica & Divana')).toEqual(['Leela', 'Anica', 'Divana']);
+      expect(djs('Ecstatic Dance | Jethro B2B Lizzy B2B Rachi')).toEqual([
+        'Jethro',
+        'Lizzy',
+        'Rachi',
+      ]);
+    });
+
+    it('does not split one-off titles without a series', () => {
+      expect(parser.parse('Omar Alkilani & Friends')).toEqual({
+        title: 'Omar Alkilani & Friends',
+        series: 'Omar Alkilani & Friends',
+        facilitators: [],
+        modifiers: [],
+      });
+    });
+  });
+
+  describe('roles', () => {
+    it('lists DJs without live musicians and hosts', () => {
+      const parsed = parser.parse('Cacao Ecstatic Dance | Leela & Anica + live music by Yona');
+
+      expect(getDJNames(parsed)).toEqual(['Leela', 'Anica']);
+      expect(parsed.facilitators.map(facilitator => facilitator.role)).toEqual([
+        'dj',
+        'dj',
+        'live',
+      ]);
+    });
+
+    it.each([
+      'Cacao Ecstatic Dance | Leela & Yona (live)',
+      'Cacao ED | Leela, live: Yona',
+      'Cacao Ecstatic Dance with Leela with live music by Yona',
+    ])('marks the live musician in "%s"', title => {
+      expect(parser.parse(title).facilitators).toEqual([
+        { name: 'Leela', role: 'dj' },
+        { name: 'Yona', role: 'live' },
+      ]);
+    });
+
+    it('reads the names in a Live Music title as musicians', () => {
+      expect(parser.parse('Live Music Night with Yona')).toMatchObject({
+        eventType: 'Live Music',
+        facilitators: [{ name: 'Yona', role: 'live' }],
+      });
+      expect(djs('Live Music Night with Yona')).toEqual([]);
+    });
+
+    it('marks hosts', () => {
+      expect(parser.parse('Cacao Ecstatic Dance hosted by Samaya').facilitators).toEqual([
+        { name: 'Samaya', role: 'host' },
+      ]);
+      expect(parser.parse('Ecstatic Dance | Leela & Samaya (host)').facilitators).toEqual([
+        { name: 'Leela', role: 'dj' },
+        { name: 'Samaya', role: 'host' },
+      ]);
+    });
+  });
+
+  describe('event types', () => {
+    it.each([
+      ['Ecstatic Dance | Leela', 'ED'],
+      ['ED | Leela', 'ED'],
+      ['Sunday Morning Ecstatic Dance | Leela', 'ED'],
+      ['Cacao Ecstatic Dance with Leela', 'Cacao ED'],
+      ['Ecstatic Journey | Leela', 'Ecstatic Journey'],
+      ['Cacao Ecstatic Journey | Leela', 'Ecstatic Journey'],
+      ['Queerstatic Dance | Inphiknight', 'Queerstatic'],
+    ])('classifies "%s" as %s', (title, eventType) => {
+      expect(parser.parse(title).eventType).toBe(eventType);
+    });
+
+    it('leaves titles outside the taxonomy untyped', () => {
+      expect(parser.parse('Omar Alkilani & Friends').eventType).toBeUndefined();
+    });
+  });
+
+  describe('modifiers', () => {
+    it('reads morning and special events', () => {
+      expect(parser.parse('Morning ED | Leela').modifiers).toEqual(['morning']);
+      expect(parser.parse('Ecstatic Dance Special Edition | Leela')).toMatchObject({
+        series: 'Ecstatic Dance Special Edition',
+        modifiers: ['special'],
+      });
+      expect(parser.parse('Ecstatic Dance (Special) | Leela')).toMatchObject({
+        series: 'Ecstatic Dance',
+        modifiers: ['special'],
+      });
+    });
+
+    it.each([
+      'Ecstatic Dance | Leela (SOLD OUT)',
+      'Ecstatic Dance | Leela [sold out]',
+      'SOLD OUT: Ecstatic Dance with Leela',
+      'Ecstatic Dance with Leela - SOLD OUT',
+      'Ecstatic Dance | Leela | Uitverkocht',
+    ])('strips the sold out tag from "%s"', title => {
+      expect(parser.parse(title)).toMatchObject({
+        series: 'Ecstatic Dance',
+        facilitators: [{ name: 'Leela', role: 'dj' }],
+        modifiers: ['sold_out'],
+      });
+    });
+
+    it.each(['CANCELLED - Ecstatic Dance | Leela', 'Ecstatic Dance | Leela (Geannuleerd)'])(
+      'strips the cancelled tag from "%s"',
+      title => {
+        expect(parser.parse(title)).toMatchObject({
+          series: 'Ecstatic Dance',
+          facilitators: [{ name: 'Leela', role: 'dj' }],
+          modifiers: ['cancelled'],
+        });
+      }
+    );
+
+    it('combines tags', () => {
+      expect(parser.parse('Cacao ED | Leela (Special) (Sold Out!)')).toMatchObject({
+        series: 'Cacao ED',
+        facilitators: [{ name: 'Leela', role: 'dj' }],
+        modifiers: ['special', 'sold_out'],
+      });
+    });
+  });
+
+  describe('placeholders', () => {
+    it.each(['Ecstatic Dance | TBA', 'Ecstatic Dance with TBD', 'Morning ED | DJ TBA'])(
+      'has no facilitators for "%s"',
+      title => {
+        expect(parser.parse(title).facilitators).toEqual([]);
+      }
+    );
+
+    it('keeps the series for titles without facilitators', () => {
+      expect(parser.parse('Ecstatic Dance')).toEqual({
+        title: 'Ecstatic Dance',
+        series: 'Ecstatic Dance',
+        eventType: 'ED',
+        facilitators: [],
+        modifiers: [],
+      });
+    });
+  });
+
+  // Recordings from `npm run cli record-hipsy` join the corpus when they are present
+  const recorded =
+    loadRecordedEvents(getHipsyFixturesDir(), getDefaultVenue().hipsyOrganisationSlug) ?? [];
+
+  it('finds a DJ in every Ecstatic Dance title', () => {
+    const unparsed = [
+      ...titles.map(({ title }) => title),
+      ...recorded.map(event => String(event['title'])),
+    ]
+      .filter(title => parser.parse(title).eventType === 'ED' && djs(title).length === 0)
+      .filter(title => !/\b(?:tba|tbd|tbc)\b/i.test(title))
+      // A bare series name has no one to find
+      .filter(title => parser.parse(title).series !== title);
+
+    expect(unparsed).toEqual([]);
+  });
+});
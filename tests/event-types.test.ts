@@ -0,0 +1,100 @@
+import { EventTitleParser } from '../src/parsers/event-title-parser';
+import { formatEventTypes } from '../src/formatters/event-types-formatter';
+import {
+  EventTypeTaxonomy,
+  getEventTypeTaxonomy,
+  validateEventTypeFile,
+} from '../src/utils/event-types';
+
+describe('EventTypeTaxonomy', () => {
+  const taxonomy = getEventTypeTaxonomy();
+
+  it('lets the highest-priority matching type win', () => {
+    expect(taxonomy.classify('Queerstatic Ecstatic Dance')?.id).toBe('Queerstatic');
+    expect(taxonomy.classify('Ecstatic Journey with live music')?.id).toBe('Ecstatic Journey');
+    expect(taxonomy.classify('Cacao ED')?.id).toBe('Cacao ED');
+    expect(taxonomy.classify('Live Music Night')?.id).toBe('Live Music');
+    expect(taxonomy.classify('Breathwork')).toBeUndefined();
+  });
+
+  it('needs every phrase of a rule, as whole words', () => {
+    expect(taxonomy.classify('Cacao Ceremony')).toBeUndefined();
+    expect(taxonomy.classify('Cacao   Ecstatic  Dance')?.id).toBe('Cacao ED');
+    expect(taxonomy.classify('Sacred Circle')).toBeUndefined();
+    expect(taxonomy.classify('Olive Oil Tasting')).toBeUndefined();
+  });
+
+  it('uses long, short and Sunday names', () => {
+    const sunday = '2025-08-03T08:00:00Z';
+    const friday = '2025-08-01T18:00:00Z';
+
+    expect(taxonomy.getDisplayName('ED', { date: friday })).toBe('Ecstatic Dance');
+    expect(taxonomy.getDisplayName('ED', { date: sunday })).toBe('Morning Ecstatic Dance');
+    expect(taxonomy.getDisplayName('ED', { date: sunday, short: true })).toBe('Morning ED');
+    expect(taxonomy.getDisplayName('Ecstatic Journey', { short: true })).toBe('Journey');
+    expect(taxonomy.getDisplayName(undefined)).toBe('Event');
+    expect(taxonomy.getDisplayName('Retired Format')).toBe('Event');
+  });
+
+  it('classifies a new format from its definition alone', () => {
+    const custom = new EventTypeTaxonomy(
+      validateEventTypeFile({
+        types: [
+          ...taxonomy.list(),
+          {
+            id: 'Sound Bath',
+            name: 'Sound Bath',
+            shortName: 'Sound Bath',
+            emoji: '🥣',
+            description: 'Lie down and let the gongs do the work.',
+            priority: 60,
+            match: ['sound bath', 'gong bath'],
+            includedInMembership: false,
+          },
+        ],
+      })
+    );
+
+    expect(new EventTitleParser(custom).parse('Sacred Sound Bath | Yona').eventType).toBe(
+      'Sound Bath'
+    );
+    expect(custom.getDisplayName('Sound Bath', { short: true })).toBe('Sound Bath');
+    expect(formatEventTypes(custom)).toContain('🥣 <b>Sound Bath</b>');
+  });
+
+  it('rejects definitions without names or with duplicate ids', () => {
+    expect(() => validateEventTypeFile([])).toThrow('must contain a "types" array');
+    expect(() => validateEventTypeFile({ types: [{ id: 'ED' }] })).toThrow(
+      'every event type needs an id, name and shortName'
+    );
+    const ed = taxonomy.get('ED');
+    expect(() => validateEventTypeFile({ types: [ed, ed] })).toThrow('duplicate event type "ED"');
+    expect(() => validateEventTypeFile({ types: [{ ...ed, durationMinutes: 0 }] })).toThrow(
+      'event type "ED" needs a positive durationMinutes'
+    );
+    expect(() => validateEventTypeFile({ types: [{ ...ed, facilitatorRole: 'mc' }] })).toThrow(
+      'event type "ED" has an unknown facilitatorRole'
+    );
+  });
+});
+
+describe('formatEventTypes', () => {
+  it('lists described types with their Sunday variant and membership inclusion', () => {
+    const text = formatEventTypes(getEventTypeTaxonomy(), {
+      venueName: 'Odessa',
+      showMembership: true,
+    });
+
+    expect(text).toContain('🎭 <b>Event Types at Odessa</b>');
+    expect(text).toContain(
+      '🌅 <b>Ecstatic Dance (ED)</b>\nFree-form dancing to a DJ-guided journey.\nSunday mornings are "Morning ED"!\n<i>Included in the membership</i>'
+    );
+    expect(text).toContain('🌈 <b>Queerstatic</b>\nLGBTQ+ inclusive dance celebration.\n\n');
+    expect(text).not.toContain('Live Music');
+    expect(text).toMatch(/phone-free spaces\. 🙏$/);
+  });
+
+  it('leaves out membership lines for venues without one', () => {
+    expect(formatEventTypes(getEventTypeTaxonomy())).not.toContain('membership');
+  });
+});
@@ -0,0 +1,117 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { MemoryDataStore } from '../src/storage/data-store';
+import { TelegramApiError } from '../src/telegram/client';
+import {
+  createCommandServices,
+  createOdessaCommandRegistry,
+} from '../src/telegram/command-handlers';
+import { notifyFollowers } from '../src/telegram/follower-notifications';
+import { Event } from '../src/types/event';
+import { DJLoader } from '../src/utils/dj-loader';
+import { MergedDJRepository } from '../src/utils/dj-repository';
+import { FollowManager } from '../src/utils/follow-manager';
+import { createTransport, fakeScraper } from './setup';
+
+function event(id: string, djNames: string[]): Event {
+  const date = '2026-10-24T18:00:00Z';
+  return {
+    id,
+    title: `Ecstatic Dance with ${djNames.join(' B2B ')}`,
+    date,
+    ticketUrl: `https://hipsy.nl/event/${id}`,
+    originalDate: date,
+    djName: djNames[0],
+    djNames,
+  };
+}
+
+describe('FollowManager', () => {
+  it('follows and unfollows DJs per user', async () => {
+    const follows = new FollowManager(new MemoryDataStore());
+
+    await expect(follows.follow(42, 'Leela')).resolves.toBe(true);
+    await expect(follows.follow(42, 'Leela')).resolves.toBe(false);
+    await follows.follow(42, 'Anica');
+    await follows.follow(7, 'Leela');
+
+    await expect(follows.getFollowedDJs(42)).resolves.toEqual(['Anica', 'Leela']);
+    await expect(follows.getFollowers('Leela')).resolves.toEqual([42, 7]);
+
+    await follows.removeUser(42);
+    await expect(follows.getFollowedDJs(42)).resolves.toEqual([]);
+    await expect(follows.unfollow(7, 'Anica')).resolves.toBe(false);
+  });
+});
+
+describe('notifyFollowers', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('records existing events first, then messages followers about new ones once', async () => {
+    const follows = new FollowManager(new MemoryDataStore());
+    await follows.follow(42, 'Leela');
+    await follows.follow(42, 'Anica');
+    await follows.follow(7, 'Anica');
+    const transport = createTransport();
+    transport.sendPhoto.mockImplementation(async chatId => {
+      if (chatId === 7) {
+        throw new TelegramApiError('Telegram API error: 403 Forbidden: bot was blocked', {
+          kind: 'forbidden',
+          method: 'sendPhoto',
+          status: 403,
+        });
+      }
+    });
+
+    const existing = event('1', ['Leela']);
+    const b2b = event('2', ['leela', 'Anica']);
+    const scraper = fakeScraper([existing], [existing, b2b], [existing, b2b]);
+    const options = { follows, scraper, djRepository: new MergedDJRepository(new DJLoader()) };
+
+    await expect(notifyFollowers(transport, options)).resolves.toMatchObject({ newEvents: 0 });
+    await expect(notifyFollowers(transport, options)).resolves.toEqual({
+      newEvents: 1,
+      notified: 1,
+      failed: 1,
+    });
+    await expect(notifyFollowers(transport, options)).resolves.toMatchObject({ newEvents: 0 });
+
+    const delivered = [...transport.sendPhoto.mock.calls, ...transport.sendMessage.mock.calls];
+    const toFollower = delivered.filter(([chatId]) => chatId === 42);
+    expect(toFollower).toHaveLength(1);
+    expect(toFollower[0]![2] ?? toFollower[0]![1]).toContain('are playing at Odessa');
+    await expect(follows.getFollowedDJs(7)).resolves.toEqual([]);
+  });
+});
+
+describe('/follow', () => {
+  it('resolves the DJ name fuzzily and lists gigs already booked', async () => {
+    const services = {
+      ...createCommandServices(),
+      scraper: fakeScraper([event('1', ['Leela'])]),
+      follows: new FollowManager(new MemoryDataStore()),
+    };
+    const registry = createOdessaCommandRegistry(services);
+    const transport = createTransport();
+    const message: TelegramBot.Message = {
+      message_id: 1,
+      date: 0,
+      text: '/follow leela',
+      chat: { id: 42, type: 'private' },
+      from: { id: 42, is_bot: false, first_name: 'Dancer' },
+    };
+
+    await registry.dispatch(message, transport);
+
+    const [, text] = transport.sendMessage.mock.calls[0]!;
+    expect(text).toContain("You're now following <b>Leela</b>");
+    expect(text).toContain('Already booked');
+    await expect(services.follows.getFollowedDJs(42)).resolves.toEqual(['Leela']);
+  });
+});
@@ -0,0 +1,124 @@
+import axios from 'axios';
+import { mkdirSync, mkdtempSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  createHipsyReplayServer,
+  loadRecordedEvents,
+  recordHipsyFixtures,
+} from '../src/scrapers/hipsy-fixtures';
+import { HipsyScraper } from '../src/scrapers/hipsy-scraper';
+
+const SLUG = 'odessa-amsterdam-ecstatic-dance';
+
+function rawEvent(id: number, title: string, date: string) {
+  return { id, title, date, url_hipsy: `https://api.hipsy.nl/event-${id}` };
+}
+
+describe('Hipsy recordings', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'odessa-hipsy-'));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('records raw responses page by page until a short page', async () => {
+    const fullPage = Array.from({ length: 50 }, (_, index) =>
+      rawEvent(index, `Ecstatic Dance | DJ ${index}`, '2026-11-01 10:30:00')
+    );
+    const get = jest
+      .spyOn(axios, 'get')
+      .mockResolvedValueOnce({ data: { data: fullPage } })
+      .mockResolvedValueOnce({
+        data: { data: [rawEvent(50, 'NYE | Samaya', '2026-12-31 21:00:00')] },
+      })
+      .mockResolvedValueOnce({ data: { data: [rawEvent(1, 'Old', '2026-10-01 20:00:00')] } });
+
+    await recordHipsyFixtures({ slug: SLUG, directory, apiKey: 'key' });
+
+    expect(readdirSync(join(directory, SLUG)).sort()).toEqual([
+      'past-1.json',
+      'upcoming-1.json',
+      'upcoming-2.json',
+    ]);
+    expect(get).toHaveBeenNthCalledWith(
+      2,
+      `https://api.hipsy.nl/v1/organisation/${SLUG}/events`,
+      expect.objectContaining({
+        params: { page: 2, limit: 50, period: 'upcoming' },
+        headers: { Authorization: 'Bearer key' },
+      })
+    );
+    // Event 1 was recorded twice; it is replayed once
+    expect(loadRecordedEvents(directory, SLUG)).toHaveLength(51);
+  });
+
+  describe('replay server', () => {
+    let server: Server;
+    const originalBaseUrl = process.env['HIPSY_BASE_URL'];
+
+    beforeEach(async () => {
+      mkdirSync(join(directory, SLUG));
+      writeFileSync(
+        join(directory, SLUG, 'upcoming-1.json'),
+        JSON.stringify({
+          data: [
+            rawEvent(3, 'Ecstatic Dance | Leela B2B Anica', '2026-10-25 10:30:00'),
+            rawEvent(4, 'Cacao Ecstatic Dance | Yona', '2026-10-25 19:00:00'),
+            rawEvent(2, 'Ecstatic Dance | Samaya', '2026-10-21 20:00:00'),
+          ],
+        })
+      );
+      writeFileSync(
+        join(directory, SLUG, 'past-1.json'),
+        JSON.stringify({ data: [rawEvent(1, 'Queerstatic | Henners', '2026-10-18 20:00:00')] })
+      );
+
+      // Recorded on the 18th, replayed on the 22nd: event 2 has moved to the past
+      server = createHipsyReplayServer(directory, () => new Date('2026-10-22T10:00:00Z'));
+      await new Promise<void>(resolve => server.listen(0, resolve));
+      const { port } = server.address() as AddressInfo;
+      process.env['HIPSY_BASE_URL'] = `http://localhost:${port}/v1/`;
+    });
+
+    afterEach(async () => {
+      if (originalBaseUrl === undefined) {
+        delete process.env['HIPSY_BASE_URL'];
+      } else {
+        process.env['HIPSY_BASE_URL'] = originalBaseUrl;
+      }
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    it('serves recordings to the scraper, split and paged like Hipsy', async () => {
+      const scraper = new HipsyScraper(null);
+
+      const upcoming = await scraper.getEvents(1, 'upcoming', 10);
+      const past = await scraper.getEvents(1, 'past', 1);
+
+      expect(upcoming.events.map(event => [event.id, event.djNames ?? event.djName])).toEqual([
+        ['3', ['Leela', 'Anica']],
+        ['4', 'Yona'],
+      ]);
+      expect(past.events.map(event => event.id)).toEqual(['2']);
+    });
+
+    it('answers 404 for an organisation without recordings', async () => {
+      const scraper = new HipsyScraper(null);
+      scraper.setOrganisationSlug('unknown-venue');
+
+      await expect(scraper.getEvents(1, 'upcoming', 10)).resolves.toMatchObject({
+        success: false,
+      });
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import axios from 'axios';
+import { HipsyScraper } from '../src/scrapers/hipsy-scraper';
+import { MemoryDataStore } from '../src/storage/data-store';
+import { Event } from '../src/types/event';
+import { HipsyCache } from '../src/utils/hipsy-cache';
+import hipsyEvents from './fixtures/hipsy-events.json';
+
+function event(id: string, date: string): Event {
+  return {
+    id,
+    title: `Ecstatic Dance ${id}`,
+    date,
+    ticketUrl: `https://hipsy.nl/event/${id}`,
+    originalDate: date,
+  };
+}
+
+function page(events: Event[]) {
+  return { events, totalCount: events.length, success: true };
+}
+
+describe('HipsyScraper.getEventsBetween', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-10-21T10:00:00Z') });
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('pages through upcoming events until Hipsy runs out of them', async () => {
+    const scraper = new HipsyScraper();
+    const firstPage = Array.from({ length: 50 }, (_, index) =>
+      event(`a${index}`, index < 49 ? '2026-10-22T18:00:00Z' : '2026-10-25T08:00:00Z')
+    );
+    const getEvents = jest
+      .spyOn(scraper, 'getEvents')
+      .mockResolvedValueOnce(page(firstPage))
+      .mockResolvedValueOnce(
+        page([event('b1', '2026-10-26T18:00:00Z'), event('b2', '2026-11-02T18:00:00Z')])
+      );
+
+    const result = await scraper.getEventsBetween(
+      new Date('2026-10-25T00:00:00Z'),
+      new Date('2026-10-31T23:59:59Z')
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.events.map(item => [item.id, item.date])).toEqual([
+      ['a49', '2026-10-25T09:00:00+01:00'],
+      ['b1', '2026-10-26T19:00:00+01:00'],
+    ]);
+    // The window hasn't started, so past events aren't read at all
+    expect(getEvents.mock.calls).toEqual([
+      [1, 'upcoming', 50],
+      [2, 'upcoming', 50],
+    ]);
+  });
+
+  it('walks past events backwards for a window that has started, without duplicates', async () => {
+    const scraper = new HipsyScraper();
+    const getEvents = jest
+      .spyOn(scraper, 'getEvents')
+      .mockImplementation(async (_page, period) =>
+        period === 'upcoming'
+          ? page([event('now', '2026-10-21T09:30:00Z'), event('next', '2026-10-23T18:00:00Z')])
+          : page([
+              event('now', '2026-10-21T09:30:00Z'),
+              event('mon', '2026-10-19T18:00:00'),
+              event('old', '2026-10-12T18:00:00Z'),
+            ])
+      );
+
+    const result = await scraper.getEventsBetween(
+      new Date('2026-10-18T22:00:00Z'),
+      new Date('2026-10-25T22:59:59Z')
+    );
+
+    // Dates without an offset are Amsterdam wall-clock time
+    expect(result.events.map(item => [item.id, item.date])).toEqual([
+      ['mon', '2026-10-19T18:00:00+02:00'],
+      ['now', '2026-10-21T11:30:00+02:00'],
+      ['next', '2026-10-23T20:00:00+02:00'],
+    ]);
+    expect(getEvents.mock.calls).toEqual([
+      [1, 'upcoming', 50],
+      [1, 'past', 50],
+    ]);
+  });
+
+  it('stops at the first full page that reaches beyond the window', async () => {
+    const scraper = new HipsyScraper();
+    // Now is Wed 21 Oct; the window runs Mon 19 to Sun 25 Oct
+    const upcoming = Array.from({ length: 50 }, (_, index) =>
+      event(`u${index}`, index === 0 ? '2026-10-23T18:00:00Z' : '2026-11-14T18:00:00Z')
+    );
+    const past = Array.from({ length: 50 }, (_, index) =>
+      event(`p${index}`, index === 0 ? '2026-10-19T18:00:00Z' : '2026-09-12T18:00:00Z')
+    );
+    const getEvents = jest
+      .spyOn(scraper, 'getEvents')
+      .mockImplementation(async (_page, period) => page(period === 'upcoming' ? upcoming : past));
+
+    const result = await scraper.getEventsBetween(
+      new Date('2026-10-18T22:00:00Z'),
+      new Date('2026-10-25T22:59:59Z')
+    );
+
+    expect(result.events.map(item => item.id)).toEqual(['p0', 'u0']);
+    expect(getEvents.mock.calls).toEqual([
+      [1, 'upcoming', 50],
+      [1, 'past', 50],
+    ]);
+  });
+
+  it('reports a failed page instead of returning a partial window', async () => {
+    const scraper = new HipsyScraper();
+    jest
+      .spyOn(scraper, 'getEvents')
+      .mockResolvedValue({ events: [], totalCount: 0, success: false, error: 'timeout' });
+
+    await expect(
+      scraper.getEventsBetween(new Date('2026-10-22T00:00:00Z'), new Date('2026-10-23T00:00:00Z'))
+    ).resolves.toMatchObject({ success: false, error: 'timeout' });
+  });
+});
+
+describe('HipsyScraper cache', () => {
+  const apiResponse = {
+    data: {
+      data: [
+        {
+          id: 7,
+          title: 'Ecstatic Dance with Leela',
+          date: '2026-10-24T18:00:00Z',
+          url_hipsy: 'https://hipsy.nl/event/7',
+        },
+      ],
+    },
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('serves fresh cached responses without calling Hipsy', async () => {
+    const get = jest.spyOn(axios, 'get').mockResolvedValue(apiResponse);
+    const scraper = new HipsyScraper(new HipsyCache(new MemoryDataStore(), 300));
+
+    const live = await scraper.getEvents(1, 'upcoming', 10);
+    const cached = await scraper.getEvents(1, 'upcoming', 10);
+
+    expect(get).toHaveBeenCalledTimes(1);
+    expect(cached.events).toEqual(live.events);
+    expect(cached.stale).toBeUndefined();
+  });
+
+  it('falls back to the last good copy, marked stale, after one failed attempt', async () => {
+    const get = jest
+      .spyOn(axios, 'get')
+      .mockResolvedValueOnce(apiResponse)
+      .mockRejectedValue(new Error('timeout of 10000ms exceeded'));
+    const scraper = new HipsyScraper(new HipsyCache(new MemoryDataStore(), 0));
+
+    await scraper.getEvents(1, 'upcoming', 10);
+    const result = await scraper.getEvents(1, 'upcoming', 10);
+
+    expect(get).toHaveBeenCalledTimes(2);
+    expect(get).toHaveBeenLastCalledWith(
+      expect.any(String),
+      expect.objectContaining({ timeout: 10000 })
+    );
+    expect(result).toMatchObject({ success: true, stale: true, fetchedAt: expect.any(String) });
+    expect(result.events.map(event => event.id)).toEqual(['7']);
+  });
+});
+
+describe('HipsyScraper end times', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("ends events after the event type's default length", async () => {
+    jest.spyOn(axios, 'get').mockResolvedValue({ data: hipsyEvents });
+    const scraper = new HipsyScraper(null);
+
+    const { events } = await scraper.getEvents(1, 'upcoming', 10);
+
+    expect(events.map(event => event.endDate)).toEqual([
+      // ED, 3 hours
+      '2026-10-23T23:00:00+02:00',
+      // Journey, 4 hours
+      '2026-10-24T23:00:00+02:00',
+      // Cacao ED, 3.5 hours, after the switch to winter time
+      '2026-10-25T14:00:00+01:00',
+      '2026-10-26T23:00:00+01:00',
+    ]);
+  });
+});
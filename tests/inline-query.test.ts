@@ -0,0 +1,98 @@
+import { DJDatabase } from '../src/types/dj';
+import { Event } from '../src/types/event';
+import { DJLoader } from '../src/utils/dj-loader';
+import { DJRepository, MergedDJRepository } from '../src/utils/dj-repository';
+import { buildInlineResults } from '../src/telegram/inline-query';
+
+const NOW = new Date('2026-10-21T10:00:00Z'); // Wednesday
+
+const djData: DJDatabase = {
+  Samaya: {
+    photo: 'https://example.com/samaya.jpg',
+    shortDescription: 'Deep organic journeys.',
+    soundcloud: 'https://soundcloud.com/samaya',
+  },
+  Leela: { shortDescription: 'Tribal grooves.' },
+  "Ma'rifa": { aliases: ['Ma-rifa'] },
+};
+
+function event(id: string, date: string, djName: string): Event {
+  return {
+    id,
+    title: `Ecstatic Dance with ${djName}`,
+    date,
+    ticketUrl: `https://hipsy.nl/event/${id}`,
+    originalDate: date,
+    djName,
+  };
+}
+
+const events = [
+  event('past', '2026-10-20T18:00:00Z', 'Leela'),
+  event('tonight', '2026-10-21T18:00:00Z', 'Leela'),
+  event('friday', '2026-10-23T18:00:00Z', 'Samaya'),
+];
+
+function createDJRepository(): DJRepository {
+  const djLoader = new DJLoader();
+  jest.spyOn(djLoader, 'loadDJData').mockReturnValue(djData);
+  return new MergedDJRepository(djLoader);
+}
+
+describe('buildInlineResults', () => {
+  it('matches a DJ name to their upcoming events and their profile card', async () => {
+    const results = await buildInlineResults('samaya', {
+      events,
+      djRepository: createDJRepository(),
+      now: NOW,
+    });
+
+    expect(results.map(result => result.id)).toEqual(['event-friday', 'dj-samaya']);
+    const [eventResult, djResult] = results;
+    expect(eventResult).toMatchObject({
+      type: 'article',
+      title: 'Ecstatic Dance with Samaya',
+      description: 'Fri 23 Oct 20:00 · Odessa',
+      thumbnail_url: 'https://example.com/samaya.jpg',
+      reply_markup: {
+        inline_keyboard: [
+          [
+            { text: '🎫 TICKETS', url: 'https://hipsy.nl/event/friday' },
+            { text: '🎧 LISTEN', url: 'https://soundcloud.com/samaya' },
+          ],
+        ],
+      },
+    });
+    expect(djResult).toMatchObject({
+      type: 'photo',
+      photo_url: 'https://example.com/samaya.jpg',
+      parse_mode: 'HTML',
+    });
+  });
+
+  it('matches day words against the Amsterdam date and skips past events', async () => {
+    const sources = { events, djRepository: createDJRepository(), now: NOW };
+
+    expect((await buildInlineResults('Friday', sources)).map(result => result.id)).toEqual([
+      'event-friday',
+    ]);
+    expect((await buildInlineResults('tonight', sources)).map(result => result.id)).toEqual([
+      'event-tonight',
+    ]);
+    expect((await buildInlineResults('', sources)).map(result => result.id)).toEqual([
+      'event-tonight',
+      'event-friday',
+    ]);
+  });
+
+  it('finds a DJ by an alias and shows them once', async () => {
+    const sources = { events: [], djRepository: createDJRepository(), now: NOW };
+
+    const byAlias = await buildInlineResults('ma-rifa', sources);
+    const byBoth = await buildInlineResults('rifa', sources);
+
+    expect(byAlias.map(result => result.id)).toEqual(['dj-ma-rifa']);
+    expect(byAlias[0]).toMatchObject({ title: "Ma'rifa" });
+    expect(byBoth.map(result => result.id)).toEqual(['dj-ma-rifa']);
+  });
+});
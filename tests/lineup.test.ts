@@ -0,0 +1,112 @@
+import { formatLineupUpdate } from '../src/formatters/lineup-formatter';
+import { MemoryDataStore } from '../src/storage/data-store';
+import { announceLineupChanges } from '../src/telegram/lineup-announcements';
+import { Event } from '../src/types/event';
+import {
+  LineupEvent,
+  LineupTracker,
+  diffLineups,
+  toLineupEvent,
+} from '../src/utils/lineup-tracker';
+import { SubscriptionManager } from '../src/utils/subscription-manager';
+import { createTransport, fakeScraper } from './setup';
+
+const NOW = new Date('2026-10-20T12:00:00Z');
+
+function lineupEvent(id: string, date: string, djNames: string[]): LineupEvent {
+  return { id, title: `Ecstatic Dance with ${djNames.join(' B2B ')}`, date, djNames };
+}
+
+function hipsyEvent(id: string, date: string, djName: string): Event {
+  return {
+    id,
+    title: `Ecstatic Dance with ${djName}`,
+    date,
+    ticketUrl: `https://hipsy.nl/event/${id}`,
+    originalDate: date,
+    djName,
+  };
+}
+
+describe('diffLineups', () => {
+  it('detects new, cancelled and moved events and DJ swaps', () => {
+    const previous = [
+      lineupEvent('past', '2026-10-19T18:00:00Z', ['Leela']),
+      lineupEvent('moved', '2026-10-22T18:00:00Z', ['Anica']),
+      lineupEvent('swap', '2026-10-24T18:00:00Z', ['Leela', 'Anica']),
+      lineupEvent('gone', '2026-10-25T08:00:00Z', ['Jethro']),
+      lineupEvent('same', '2026-10-27T18:00:00Z', ['Divana']),
+    ];
+    const current = [
+      lineupEvent('moved', '2026-10-23T18:00:00Z', ['Anica']),
+      lineupEvent('swap', '2026-10-24T18:00:00Z', ['Henners']),
+      lineupEvent('new', '2026-10-26T18:00:00Z', ['Lizzy']),
+      lineupEvent('same', '2026-10-27T18:00:00Z', ['divana']),
+    ];
+
+    const changes = diffLineups(previous, current, { now: NOW });
+
+    expect(changes.map(change => `${change.type}:${change.event.id}`)).toEqual([
+      'moved:moved',
+      'dj_changed:swap',
+      'cancelled:gone',
+      'added:new',
+    ]);
+  });
+
+  it('does not report events beyond the fetched horizon as cancelled', () => {
+    const previous = [lineupEvent('far', '2026-12-01T18:00:00Z', ['Leela'])];
+
+    expect(
+      diffLineups(previous, [], { now: NOW, horizon: new Date('2026-11-01T00:00:00Z') })
+    ).toEqual([]);
+  });
+
+  it('formats a short lineup update', () => {
+    const text = formatLineupUpdate([
+      {
+        type: 'dj_changed',
+        event: lineupEvent('swap', '2026-10-24T18:00:00Z', ['Henners']),
+        previousDJNames: ['Leela'],
+      },
+    ]);
+
+    expect(text).toContain('📣 <b>Lineup update</b>');
+    expect(text).toContain('Sat 24 Oct 20:00 — <b>Leela</b> → <b>Henners</b>');
+  });
+});
+
+describe('announceLineupChanges', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('stores a first snapshot silently and posts later changes to lineup subscribers', async () => {
+    const store = new MemoryDataStore();
+    const tracker = new LineupTracker(store);
+    const subscriptions = new SubscriptionManager(store, []);
+    await subscriptions.subscribe(-100, ['lineup']);
+    await subscriptions.subscribe(-200, ['schedule']);
+
+    const first = [hipsyEvent('1', '2026-10-24T18:00:00Z', 'Leela')];
+    const second = [hipsyEvent('1', '2026-10-24T18:00:00Z', 'Anica')];
+    const scraper = fakeScraper(first, second);
+    const transport = createTransport();
+    const options = { tracker, scraper, subscriptions, now: NOW };
+
+    await expect(announceLineupChanges(transport, options)).resolves.toEqual({ changes: [] });
+    const result = await announceLineupChanges(transport, options);
+
+    expect(result.changes).toEqual([
+      { type: 'dj_changed', event: toLineupEvent(second[0]!), previousDJNames: ['Leela'] },
+    ]);
+    expect(transport.sendMessage).toHaveBeenCalledTimes(1);
+    expect(transport.sendMessage).toHaveBeenCalledWith(-100, expect.stringContaining('DJ change'));
+    await expect(tracker.getSnapshot()).resolves.toEqual([toLineupEvent(second[0]!)]);
+  });
+});
@@ -0,0 +1,132 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { WhosPlayingFormatter } from '../src/formatters/whosplaying-formatter';
+import { MemoryDataStore } from '../src/storage/data-store';
+import { TelegramApiError } from '../src/telegram/client';
+import {
+  createCommandServices,
+  createOdessaCommandRegistry,
+} from '../src/telegram/command-handlers';
+import { deliverDueReminders } from '../src/telegram/reminder-delivery';
+import { Event } from '../src/types/event';
+import { ReminderManager } from '../src/utils/reminder-manager';
+import { createTransport, fakeScraper } from './setup';
+
+const HOUR = 60 * 60 * 1000;
+
+function event(id: string, date: Date, djName = 'Samaya'): Event {
+  return {
+    id,
+    title: `Ecstatic Dance with ${djName}`,
+    date: date.toISOString(),
+    ticketUrl: `https://hipsy.nl/event/${id}`,
+    originalDate: date.toISOString(),
+    djName,
+    eventType: 'ED',
+  };
+}
+
+describe('ReminderManager', () => {
+  it('stores one reminder per user, event and lead time and returns due ones', async () => {
+    const reminders = new ReminderManager(new MemoryDataStore());
+    const start = new Date('2026-10-24T18:00:00Z');
+
+    await reminders.add(42, event('1', start), '3h');
+    await reminders.add(42, event('1', start), '3h');
+    await reminders.add(42, event('1', start), '1d');
+
+    await expect(reminders.getForUser(42)).resolves.toHaveLength(2);
+    const due = await reminders.getDue(new Date('2026-10-24T15:00:00Z'));
+    expect(due.map(reminder => reminder.leadTime)).toEqual(['1d', '3h']);
+
+    await reminders.remove(due.map(reminder => reminder.id));
+    await expect(reminders.getForUser(42)).resolves.toEqual([]);
+  });
+});
+
+describe('deliverDueReminders', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('sends due reminders privately and keeps only temporarily failed ones', async () => {
+    const now = new Date('2026-10-24T15:00:00Z');
+    const reminders = new ReminderManager(new MemoryDataStore());
+    await reminders.add(42, event('1', new Date(now.getTime() + 3 * HOUR)), '3h');
+    await reminders.add(7, event('1', new Date(now.getTime() + 3 * HOUR)), '3h');
+    await reminders.add(8, event('2', new Date(now.getTime() - HOUR)), '1h');
+    await reminders.add(9, event('3', new Date(now.getTime() + 10 * HOUR)), '3h');
+
+    const transport = createTransport();
+    transport.sendMessage.mockImplementation(async chatId => {
+      if (chatId === 7) {
+        throw new TelegramApiError('Telegram API error: 502 Bad Gateway', {
+          kind: 'server',
+          method: 'sendMessage',
+          status: 502,
+        });
+      }
+    });
+
+    const result = await deliverDueReminders(transport, {
+      reminders,
+      scraper: fakeScraper([event('1', new Date(now.getTime() + 3 * HOUR), 'Unknown DJ')]),
+      formatter: new WhosPlayingFormatter(),
+      now,
+    });
+
+    expect(result).toEqual({ delivered: 1, expired: 1, failed: 1 });
+    const [chatId, text, keyboard] = transport.sendMessage.mock.calls[0]!;
+    expect(chatId).toBe(42);
+    expect(text).toContain('starts in 3 hours');
+    expect(keyboard?.inline_keyboard[0]?.[0]).toMatchObject({ text: '🎟️ TICKETS' });
+
+    const remaining = await reminders.getDue(new Date(now.getTime() + 24 * HOUR));
+    expect(remaining.map(reminder => reminder.userId).sort()).toEqual([7, 9]);
+  });
+});
+
+describe('/remindme', () => {
+  it('walks from event choice to lead time and stores the reminder', async () => {
+    const start = new Date(Date.now() + 48 * HOUR);
+    const services = {
+      ...createCommandServices(),
+      scraper: fakeScraper([event('123', start)]),
+      reminders: new ReminderManager(new MemoryDataStore()),
+    };
+    const registry = createOdessaCommandRegistry(services);
+    const transport = createTransport();
+    const chat: TelegramBot.Chat = { id: 42, type: 'private' };
+    const from: TelegramBot.User = { id: 42, is_bot: false, first_name: 'Dancer' };
+
+    await registry.dispatch({ message_id: 1, date: 0, chat, from, text: '/remindme' }, transport);
+    const [, , eventKeyboard] = transport.sendMessage.mock.calls[0]!;
+    expect(eventKeyboard?.inline_keyboard[0]?.[0]).toMatchObject({ callback_data: 'remind:123' });
+
+    const press = (data: string): TelegramBot.CallbackQuery => ({
+      id: data,
+      chat_instance: 'instance',
+      data,
+      from,
+      message: { message_id: 2, date: 0, chat },
+    });
+
+    await registry.dispatchCallback(press('remind:123'), transport);
+    const [, , , leadKeyboard] = transport.editMessageText.mock.calls[0]!;
+    expect(leadKeyboard?.inline_keyboard[0]?.map(button => button.callback_data)).toEqual([
+      'remind:123:1h',
+      'remind:123:3h',
+      'remind:123:1d',
+    ]);
+
+    await registry.dispatchCallback(press('remind:123:1d'), transport);
+    expect(transport.answerCallbackQuery).toHaveBeenCalledWith('remind:123:1d', '✅ Reminder set');
+    await expect(services.reminders.getForUser(42)).resolves.toEqual([
+      expect.objectContaining({ eventId: '123', leadTime: '1d' }),
+    ]);
+  });
+});
@@ -1 +1,41 @@
-// Jest setup placeholder for shared test hooks.
+// Jest setup, plus fakes shared by the test files (import them from './setup').
+import { HipsyScraper } from '../src/scrapers/hipsy-scraper';
+import { TelegramTransport } from '../src/telegram/command-registry';
+import { Event } from '../src/types/event';
+
+/**
+ * Transport where every call succeeds; users are plain chat members
+ */
+export function createTransport(): jest.Mocked<TelegramTransport> {
+  return {
+    sendMessage: jest.fn().mockResolvedValue(undefined),
+    sendPhoto: jest.fn().mockResolvedValue(undefined),
+    sendVideo: jest.fn().mockResolvedValue(undefined),
+    sendLocation: jest.fn().mockResolvedValue(undefined),
+    sendChatAction: jest.fn().mockResolvedValue(undefined),
+    getChatMember: jest.fn().mockResolvedValue({ status: 'member' }),
+    answerCallbackQuery: jest.fn().mockResolvedValue(undefined),
+    editMessageText: jest.fn().mockResolvedValue(undefined),
+    editMessageCaption: jest.fn().mockResolvedValue(undefined),
+    answerInlineQuery: jest.fn().mockResolvedValue(undefined),
+  };
+}
+
+/**
+ * A successful Hipsy page
+ */
+export function hipsyPage(events: Event[]) {
+  return { events, totalCount: events.length, success: true };
+}
+
+/**
+ * Scraper whose getEvents returns the given pages in turn, then keeps
+ * returning the last one (no pages: always empty)
+ */
+export function fakeScraper(...pages: Event[][]): jest.Mocked<HipsyScraper> {
+  const getEvents = jest.fn().mockResolvedValue(hipsyPage(pages[pages.length - 1] ?? []));
+  for (const events of pages) {
+    getEvents.mockResolvedValueOnce(hipsyPage(events));
+  }
+  return { getEvents } as unknown as jest.Mocked<HipsyScraper>;
+}
@@ -0,0 +1,115 @@
+import { MemoryDataStore } from '../src/storage/data-store';
+import { broadcastToSubscribers } from '../src/telegram/broadcast';
+import { TelegramApiError } from '../src/telegram/client';
+import { formatSubscriptionStatus } from '../src/telegram/command-handlers';
+import { GroupTracker } from '../src/utils/group-tracker';
+import {
+  SubscriptionManager,
+  parseChatIdList,
+  parseSubscriptionFeed,
+} from '../src/utils/subscription-manager';
+
+describe('SubscriptionManager', () => {
+  it('subscribes chats to all feeds or a single feed', async () => {
+    const subscriptions = new SubscriptionManager(new MemoryDataStore(), []);
+
+    await expect(subscriptions.subscribe(42, ['schedule'])).resolves.toEqual(['schedule']);
+    await expect(subscriptions.subscribe(-100)).resolves.toEqual([
+      'whosplaying',
+      'schedule',
+      'lineup',
+    ]);
+
+    await expect(subscriptions.getSubscribedChats('schedule')).resolves.toEqual([42, -100]);
+    await expect(subscriptions.getSubscribedChats('whosplaying')).resolves.toEqual([-100]);
+  });
+
+  it('keeps default chats subscribed until they opt out', async () => {
+    const subscriptions = new SubscriptionManager(new MemoryDataStore(), [-100, -200]);
+
+    await expect(subscriptions.getFeeds(-100)).resolves.toEqual([
+      'whosplaying',
+      'schedule',
+      'lineup',
+    ]);
+    await subscriptions.unsubscribe(-100, ['whosplaying']);
+    await subscriptions.unsubscribe(-200);
+
+    await expect(subscriptions.getSubscribedChats('whosplaying')).resolves.toEqual([]);
+    await expect(subscriptions.getSubscribedChats('schedule')).resolves.toEqual([-100]);
+  });
+
+  it('keeps posting to groups tracked before subscriptions existed', async () => {
+    const store = new MemoryDataStore();
+    await new GroupTracker(store).saveGroups([-100, -500]);
+    const subscriptions = new SubscriptionManager(store, [-100]);
+
+    await expect(subscriptions.getSubscribedChats('schedule')).resolves.toEqual([-100, -500]);
+    await subscriptions.unsubscribe(-500, ['schedule']);
+
+    await expect(subscriptions.getSubscribedChats('schedule')).resolves.toEqual([-100]);
+    await expect(subscriptions.getFeeds(-500)).resolves.toEqual(['whosplaying', 'lineup']);
+  });
+
+  it('parses feed names and group chat ID lists', () => {
+    expect(parseSubscriptionFeed('Schedule')).toBe('schedule');
+    expect(parseSubscriptionFeed('/whosplaying')).toBe('whosplaying');
+    expect(parseSubscriptionFeed('weather')).toBeNull();
+    expect(parseChatIdList('-1001, 42, abc,,-1002')).toEqual([-1001, -1002]);
+  });
+
+  it('describes the feeds a chat receives', () => {
+    expect(formatSubscriptionStatus([])).toContain('/subscribe');
+    expect(formatSubscriptionStatus(['schedule'])).toContain('✅ Weekly schedule');
+  });
+});
+
+describe('broadcastToSubscribers', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('posts to subscribed chats and unsubscribes chats that removed the bot', async () => {
+    const subscriptions = new SubscriptionManager(new MemoryDataStore(), [-100, -200]);
+    const send = jest.fn(async (chatId: number) => {
+      if (chatId === -200) {
+        throw new TelegramApiError('Telegram API error: 403 Forbidden: bot was kicked', {
+          kind: 'forbidden',
+          method: 'sendVideo',
+          status: 403,
+        });
+      }
+    });
+
+    const result = await broadcastToSubscribers('schedule', send, subscriptions);
+
+    expect(result).toEqual({ chatIds: [-100, -200], successful: 1, failed: 1 });
+    await expect(subscriptions.getSubscribedChats('schedule')).resolves.toEqual([-100]);
+  });
+
+  it("falls back to the venue's default groups when storage fails", async () => {
+    process.env['TELEGRAM_GROUP_CHAT_ID'] = '-100';
+    const store = new MemoryDataStore();
+    jest.spyOn(store, 'get').mockRejectedValue(new Error('KV unavailable'));
+    const send = jest.fn().mockResolvedValue(undefined);
+
+    try {
+      const result = await broadcastToSubscribers(
+        'schedule',
+        send,
+        new SubscriptionManager(store, [-300])
+      );
+
+      expect(result.chatIds).toEqual([-300]);
+      expect(send).toHaveBeenCalledTimes(1);
+    } finally {
+      delete process.env['TELEGRAM_GROUP_CHAT_ID'];
+    }
+  });
+});
@@ -0,0 +1,159 @@
+import { TelegramApiError, TelegramClient, classifyTelegramError } from '../src/telegram/client';
+
+type FakeReply = { status: number; body: Record<string, unknown> } | Error;
+
+function createFetch(replies: FakeReply[]): jest.Mock {
+  return jest.fn().mockImplementation(async () => {
+    const reply = replies.shift() ?? { status: 200, body: { ok: true, result: {} } };
+    if (reply instanceof Error) {
+      throw reply;
+    }
+    return {
+      ok: reply.status >= 200 && reply.status < 300,
+      status: reply.status,
+      statusText: '',
+      json: async () => reply.body,
+    };
+  });
+}
+
+function sentBodies(fetchMock: jest.Mock): Array<{ url: string; body: Record<string, unknown> }> {
+  return fetchMock.mock.calls.map(([url, init]) => ({
+    url: url as string,
+    body: JSON.parse((init as { body: string }).body),
+  }));
+}
+
+const PARSE_ERROR = {
+  status: 400,
+  body: { ok: false, error_code: 400, description: "Bad Request: can't parse entities" },
+};
+
+describe('TelegramClient', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  it('classifies Telegram failures', () => {
+    expect(classifyTelegramError(400, "Bad Request: can't parse entities")).toBe('parse');
+    expect(classifyTelegramError(429, 'Too Many Requests: retry after 3')).toBe('rate_limit');
+    expect(classifyTelegramError(403, 'Forbidden: bot was kicked')).toBe('forbidden');
+    expect(classifyTelegramError(502, 'Bad Gateway')).toBe('server');
+    expect(classifyTelegramError(400, 'Bad Request: chat not found')).toBe('bad_request');
+  });
+
+  it('resends as plain text when HTML cannot be parsed', async () => {
+    const fetchMock = createFetch([PARSE_ERROR]);
+    const client = new TelegramClient('TOKEN', { fetch: fetchMock });
+
+    await client.sendMessage(-1, '<b>DJ &amp; Friends</b>');
+
+    const [first, second] = sentBodies(fetchMock);
+    expect(first!.url).toBe('https://api.telegram.org/botTOKEN/sendMessage');
+    expect(first!.body['parse_mode']).toBe('HTML');
+    expect(second!.body['text']).toBe('DJ & Friends');
+    expect(second!.body['parse_mode']).toBeUndefined();
+  });
+
+  it('falls back to a text message when a photo cannot be sent', async () => {
+    const fetchMock = createFetch([
+      { status: 400, body: { ok: false, error_code: 400, description: 'wrong file identifier' } },
+    ]);
+    const client = new TelegramClient('TOKEN', { fetch: fetchMock });
+    const keyboard = { inline_keyboard: [[{ text: 'TICKETS', url: 'https://hipsy.nl' }]] };
+
+    await client.sendPhoto(-1, 'bad-photo', '<b>Tonight</b>', keyboard);
+
+    const calls = sentBodies(fetchMock);
+    expect(calls.map(call => call.url.split('/').pop())).toEqual(['sendPhoto', 'sendMessage']);
+    expect(calls[1]!.body).toMatchObject({
+      text: '<b>Tonight</b>',
+      parse_mode: 'HTML',
+      reply_markup: keyboard,
+    });
+  });
+
+  it('retries rate limits and server errors before succeeding', async () => {
+    const fetchMock = createFetch([
+      { status: 429, body: { ok: false, error_code: 429, parameters: { retry_after: 0 } } },
+      { status: 502, body: { ok: false, error_code: 502, description: 'Bad Gateway' } },
+      { status: 200, body: { ok: true, result: { message_id: 5 } } },
+    ]);
+    const client = new TelegramClient('TOKEN', { fetch: fetchMock, retryDelayMs: 0 });
+
+    await expect(client.call('sendMessage', { chat_id: 1, text: 'hi' })).resolves.toEqual({
+      message_id: 5,
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('only retries network errors for methods that do not post anything', async () => {
+    const fetchMock = createFetch([
+      new Error('socket hang up'),
+      new Error('socket hang up'),
+      { status: 200, body: { ok: true, result: true } },
+    ]);
+    const client = new TelegramClient('TOKEN', { fetch: fetchMock, retryDelayMs: 0 });
+
+    await expect(client.call('sendMessage', { chat_id: 1, text: 'hi' })).rejects.toMatchObject({
+      kind: 'network',
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await expect(client.call('editMessageText', { chat_id: 1, text: 'hi' })).resolves.toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('throws instead of waiting out a long retry_after', async () => {
+    const fetchMock = createFetch([
+      { status: 429, body: { ok: false, error_code: 429, parameters: { retry_after: 30 } } },
+    ]);
+    const client = new TelegramClient('TOKEN', { fetch: fetchMock });
+
+    await expect(client.call('sendMessage', { chat_id: 1, text: 'hi' })).rejects.toMatchObject({
+      kind: 'rate_limit',
+      retryAfterSeconds: 30,
+      retryable: true,
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('throws a classified error without falling back when the bot is blocked', async () => {
+    const fetchMock = createFetch([
+      {
+        status: 403,
+        body: { ok: false, error_code: 403, description: 'Forbidden: bot was blocked' },
+      },
+    ]);
+    const client = new TelegramClient('TOKEN', { fetch: fetchMock });
+
+    const error = await client.sendVideo(-1, 'file-id', 'caption').catch(e => e);
+
+    expect(error).toBeInstanceOf(TelegramApiError);
+    expect(error.kind).toBe('forbidden');
+    expect(error.retryable).toBe(false);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends media groups with HTML captions', async () => {
+    const fetchMock = createFetch([]);
+    const client = new TelegramClient('TOKEN', { fetch: fetchMock });
+
+    await client.sendMediaGroup(-1, [
+      { type: 'photo', media: 'https://example.com/a.jpg', caption: '<b>Samaya</b>' },
+      { type: 'photo', media: 'https://example.com/b.jpg' },
+    ]);
+
+    const [call] = sentBodies(fetchMock);
+    expect(call!.body['media']).toEqual([
+      {
+        type: 'photo',
+        media: 'https://example.com/a.jpg',
+        caption: '<b>Samaya</b>',
+        parse_mode: 'HTML',
+      },
+      { type: 'photo', media: 'https://example.com/b.jpg' },
+    ]);
+  });
+});
@@ -1,4 +1,11 @@
-import { blockquote, bold, escapeTelegramHtml, stripTelegramHtml } from '../src/telegram/formatting';
+import {
+  blockquote,
+  bold,
+  escapeTelegramHtml,
+  formatTicketBadge,
+  getMonthName,
+  stripTelegramHtml,
+} from '../src/telegram/formatting';
 
 describe('Telegram formatting helpers', () => {
   it('escapes dynamic text before inserting it into Telegram HTML', () => {
@@ -15,4 +22,15 @@ describe('Telegram formatting helpers', () => {
     expect(stripTelegramHtml('<b>DJ &amp; Friends</b>\n<blockquote expandable>Bio &lt;here&gt;</blockquote>'))
       .toBe('DJ & Friends\nBio <here>');
   });
+
+  it('shows a sold-out badge for titles marked sold out', () => {
+    expect(formatTicketBadge({ modifiers: ['sold_out'] })).toBe('SOLD OUT');
+    expect(formatTicketBadge({ modifiers: ['special'] })).toBeUndefined();
+    expect(formatTicketBadge({})).toBeUndefined();
+  });
+
+  it('names months short or long', () => {
+    expect(getMonthName(8)).toBe('Sep');
+    expect(getMonthName(8, { long: true })).toBe('September');
+  });
 });
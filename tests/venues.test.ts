@@ -0,0 +1,166 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MemoryDataStore } from '../src/storage/data-store';
+import {
+  createCommandServices,
+  createOdessaCommandRegistry,
+} from '../src/telegram/command-handlers';
+import { WhosPlayingFormatter } from '../src/formatters/whosplaying-formatter';
+import { MergedDJRepository } from '../src/utils/dj-repository';
+import { DJLoader } from '../src/utils/dj-loader';
+import { getEventTypeTaxonomy } from '../src/utils/event-types';
+import {
+  getVenueDataStore,
+  loadVenues,
+  resolveVenue,
+  toVenueConfig,
+} from '../src/utils/venue-config';
+import { createTransport } from './setup';
+
+const SISTER_VENUE = {
+  id: 'zuid',
+  name: 'Zuid Dance',
+  hipsyOrganisationSlug: 'zuid-ecstatic-dance',
+  address: ['Dansstraat 1', '1000 AA Amsterdam'],
+  latitude: 52.35,
+  longitude: 4.89,
+  chatIds: [-300],
+};
+
+describe('loadVenues', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'odessa-venues-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('adds venues from the venues file with their own DJ database, storage and tickets', () => {
+    const file = join(directory, 'venues.json');
+    writeFileSync(file, JSON.stringify([SISTER_VENUE]));
+
+    const venues = loadVenues({ VENUES_FILE: file, TELEGRAM_GROUP_CHAT_ID: '-100' });
+
+    expect(venues.map(venue => venue.id)).toEqual(['odessa', 'zuid']);
+    expect(venues[0]).toMatchObject({ storagePrefix: '', defaultGroupChatIds: [-100] });
+    expect(venues[1]).toMatchObject({
+      ticketsUrl: 'https://hipsy.nl/zuid-ecstatic-dance',
+      djDatabasePath: join('src', 'data', 'djs-zuid.json'),
+      eventTypesPath: join('src', 'data', 'event-types.json'),
+      storagePrefix: 'zuid:',
+      botTokenEnv: 'TELEGRAM_BOT_TOKEN',
+      useWix: false,
+      calendarUrl: 'https://odessa-telegram-bot.vercel.app/api/calendar.ics?venue=zuid',
+    });
+    expect(venues[1]?.membership).toBeUndefined();
+  });
+
+  it('rejects incomplete and duplicate entries', () => {
+    const file = join(directory, 'venues.json');
+    writeFileSync(file, JSON.stringify([{ ...SISTER_VENUE, id: 'odessa' }]));
+
+    expect(() => loadVenues({ VENUES_FILE: file })).toThrow('Duplicate venue id "odessa"');
+    expect(() => toVenueConfig({ id: 'zuid', name: 'Zuid' })).toThrow(
+      'Venue entries need an id, name and hipsyOrganisationSlug'
+    );
+  });
+
+  it('only knows Odessa without a venues file', () => {
+    expect(loadVenues({ VENUES_FILE: join(directory, 'missing.json') })).toHaveLength(1);
+  });
+});
+
+describe('resolveVenue', () => {
+  const venues = [
+    ...loadVenues({ VENUES_FILE: '/nonexistent/venues.json' }),
+    toVenueConfig(SISTER_VENUE),
+  ];
+
+  it('prefers the explicit venue id, then the chat mapping, then Odessa', () => {
+    expect(resolveVenue({ venueId: 'zuid', chatId: -100 }, venues).id).toBe('zuid');
+    expect(resolveVenue({ venueId: ['zuid'] }, venues).id).toBe('zuid');
+    expect(resolveVenue({ chatId: -300 }, venues).id).toBe('zuid');
+    expect(resolveVenue({ chatId: -100 }, venues).id).toBe('odessa');
+    expect(resolveVenue({}, venues).id).toBe('odessa');
+  });
+
+  it('throws for an unknown venue id', () => {
+    expect(() => resolveVenue({ venueId: 'nope' }, venues)).toThrow('Unknown venue "nope"');
+  });
+
+  it('keeps each venue in its own storage scope', async () => {
+    const store = new MemoryDataStore();
+    const [odessa, zuid] = venues;
+
+    await getVenueDataStore(zuid!, store).set('follows', { zuid: true });
+
+    await expect(store.get('zuid:follows')).resolves.toEqual({ zuid: true });
+    await expect(getVenueDataStore(odessa!, store).get('follows')).resolves.toBeNull();
+  });
+});
+
+describe('venue commands', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('uses the venue address and leaves out commands without venue copy', async () => {
+    const venue = toVenueConfig(SISTER_VENUE);
+    const registry = createOdessaCommandRegistry(createCommandServices(venue));
+    const transport = createTransport();
+    const chat: TelegramBot.Chat = { id: -300, type: 'group' };
+    const send = (text: string) =>
+      registry.dispatch({ message_id: 1, date: 0, chat, text }, transport);
+
+    await send('/location');
+    expect(transport.sendLocation).toHaveBeenCalledWith(-300, 52.35, 4.89);
+    expect(transport.sendMessage).toHaveBeenLastCalledWith(
+      -300,
+      expect.stringContaining('Dansstraat 1\n1000 AA Amsterdam'),
+      {
+        inline_keyboard: [
+          [{ text: '📍 GOOGLE MAPS', url: 'https://maps.google.com/?q=52.35,4.89' }],
+        ],
+      }
+    );
+
+    await send('/commands');
+    const [, commandList] = transport.sendMessage.mock.calls[1]!;
+    expect(commandList).toContain('/location');
+    expect(commandList).not.toContain('/membership');
+    // Event types come from the shared definitions unless the venue has its own
+    expect(commandList).toContain('/types');
+
+    await expect(send('/parking')).resolves.toBe('unknown');
+  });
+
+  it("falls back to the venue's own ticket page, not Odessa's", () => {
+    const venue = toVenueConfig(SISTER_VENUE);
+    const formatter = new WhosPlayingFormatter(
+      new MergedDJRepository(new DJLoader()),
+      getEventTypeTaxonomy(),
+      venue
+    );
+    const { keyboard } = formatter.formatTodaySchedule([
+      {
+        id: '1',
+        title: 'Ecstatic Dance with Samaya',
+        date: '2026-10-21T20:00:00+02:00',
+        originalDate: '2026-10-21T20:00:00+02:00',
+        ticketUrl: '',
+        djName: 'Samaya',
+      },
+    ]);
+
+    expect(keyboard.inline_keyboard[0][0].url).toBe('https://hipsy.nl/zuid-ecstatic-dance');
+  });
+});
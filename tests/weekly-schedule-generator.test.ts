@@ -1,5 +1,22 @@
-import { getPreferredFacilitatorLink } from '../src/weekly-schedule-generator';
+import TelegramBot from 'node-telegram-bot-api';
+import { HipsyScraper } from '../src/scrapers/hipsy-scraper';
+import {
+  createCommandServices,
+  createOdessaCommandRegistry,
+} from '../src/telegram/command-handlers';
+import { Event } from '../src/types/event';
+import {
+  WeeklyScheduleGenerator,
+  getPreferredFacilitatorLink,
+} from '../src/weekly-schedule-generator';
+import { DJLoader } from '../src/utils/dj-loader';
+import { DJRepository, MergedDJRepository } from '../src/utils/dj-repository';
 import { WixDJLoader } from '../src/utils/wix-dj-loader';
+import { createTransport } from './setup';
+
+function createDJRepository(): DJRepository {
+  return new MergedDJRepository(new DJLoader());
+}
 
 describe('weekly schedule facilitator links', () => {
   it('uses the Wix website field when no SoundCloud link exists', () => {
@@ -34,18 +51,178 @@ describe('weekly schedule facilitator links', () => {
   });
 
   it('keeps local JSON soundcloud/instagram/website links when Wix is unavailable', async () => {
-    const loader = new WixDJLoader();
-    jest.spyOn(loader, 'getEnhancedDJInfo').mockResolvedValue(null);
+    const wixDJLoader = new WixDJLoader();
+    jest.spyOn(wixDJLoader, 'getEnhancedDJInfo').mockResolvedValue(null);
+    const djLoader = new DJLoader();
+    const repository = new MergedDJRepository(djLoader, [wixDJLoader, djLoader]);
 
-    await expect(loader.getDJInfoWithFallback('B.Art')).resolves.toMatchObject({
+    await expect(repository.getProfile('B.Art')).resolves.toMatchObject({
       soundcloudUrl: 'https://soundcloud.com/b-art-ecstatic',
       instagramUrl: 'https://www.instagram.com/artmetb/',
     });
 
-    await expect(loader.getDJInfoWithFallback('Divana')).resolves.toMatchObject({
+    await expect(repository.getProfile('Divana')).resolves.toMatchObject({
       soundcloudUrl: 'https://soundcloud.com/djdivana',
       instagramUrl: 'https://www.instagram.com/djdivana',
       website: 'https://www.divanamusic.com/',
     });
   });
 });
+
+describe('weekly schedule navigation', () => {
+  function event(id: string, date: string, djName: string): Event {
+    return {
+      id,
+      title: `Ecstatic Dance with ${djName}`,
+      date,
+      ticketUrl: `https://hipsy.nl/event/${id}`,
+      originalDate: date,
+      djName,
+      eventType: 'ED',
+    };
+  }
+
+  // Wednesday 21 Oct 2026; next week runs Mon 26 Oct - Sun 1 Nov
+  const events = [
+    event('1', '2026-10-23T18:00:00Z', 'Samaya'),
+    event('2', '2026-10-30T18:00:00Z', 'Leela'),
+    event('3', '2026-10-30T21:00:00Z', 'Anica'),
+  ];
+
+  function createGenerator(): WeeklyScheduleGenerator {
+    const scraper = new HipsyScraper();
+    jest
+      .spyOn(scraper, 'getEvents')
+      .mockResolvedValue({ events, totalCount: events.length, success: true });
+    return new WeeklyScheduleGenerator(scraper, createDJRepository());
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-10-21T10:00:00Z') });
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('renders another week with day buttons and previous/next navigation', async () => {
+    const schedule = await createGenerator().generateWeeklySchedule(1);
+
+    expect(schedule.text).toContain('<u>Next Week</u>');
+    expect(schedule.text).toContain('Fri: ED');
+    expect(schedule.text).not.toContain('Samaya');
+    expect(schedule.keyboard.inline_keyboard).toEqual([
+      [{ text: 'Fri 30', callback_data: 'schedule:day:1:2026-10-30' }],
+      [
+        { text: '◀ Previous week', callback_data: 'schedule:week:0' },
+        { text: 'Next week ▶', callback_data: 'schedule:week:2' },
+      ],
+      [{ text: '🎫 TICKETS', url: 'https://hipsy.nl/odessa-amsterdam-ecstatic-dance' }],
+    ]);
+  });
+
+  it('renders a day in detail with a ticket button per event', async () => {
+    const day = await createGenerator().generateDaySchedule(1, '2026-10-30');
+
+    expect(day.text).toContain('<u>Friday 30 Oct</u>');
+    expect(day.text).toContain('⏰ 19:00 — <b>Ecstatic Dance with Leela</b>');
+    expect(day.text).toContain('⏰ 22:00 — <b>Ecstatic Dance with Anica</b>');
+    expect(day.keyboard.inline_keyboard).toEqual([
+      [{ text: '🎫 TICKETS 19:00', url: 'https://hipsy.nl/event/2' }],
+      [{ text: '🎫 TICKETS 22:00', url: 'https://hipsy.nl/event/3' }],
+      [{ text: '« Back to week', callback_data: 'schedule:week:1' }],
+    ]);
+  });
+
+  it('shows sold-out badges in the week and day views', async () => {
+    const soldOut: Event = {
+      ...event('4', '2026-10-31T18:00:00Z', 'Yona'),
+      modifiers: ['sold_out'],
+    };
+    const onSale = event('5', '2026-10-30T18:00:00Z', 'Leela');
+    const scraper = new HipsyScraper();
+    jest
+      .spyOn(scraper, 'getEvents')
+      .mockResolvedValue({ events: [onSale, soldOut], totalCount: 2, success: true });
+    const generator = new WeeklyScheduleGenerator(scraper, createDJRepository());
+
+    const schedule = await generator.generateWeeklySchedule(1);
+    const day = await generator.generateDaySchedule(1, '2026-10-31');
+
+    expect(schedule.text).toContain('Yona</a></b> 19:00 <i>(SOLD OUT)</i>');
+    expect(schedule.text).not.toContain('Leela</a></b> 19:00 <i>(');
+    expect(day.text).toContain('<b>Ecstatic Dance with Yona</b>\n🎟️ SOLD OUT');
+  });
+
+  it('shows start and end times in the week and day views', async () => {
+    const withEnd: Event = {
+      ...event('2', '2026-10-30T18:00:00Z', 'Leela'),
+      endDate: '2026-10-30T22:30:00+01:00',
+    };
+    const scraper = new HipsyScraper();
+    jest
+      .spyOn(scraper, 'getEvents')
+      .mockResolvedValue({ events: [withEnd], totalCount: 1, success: true });
+    const generator = new WeeklyScheduleGenerator(scraper, createDJRepository());
+
+    const schedule = await generator.generateWeeklySchedule(1);
+    const day = await generator.generateDaySchedule(1, '2026-10-30');
+
+    expect(schedule.text).toContain('Leela</a></b> 19:00–22:30\n');
+    expect(day.text).toContain('⏰ 19:00–22:30 — <b>Ecstatic Dance with Leela</b>');
+  });
+
+  it('marks a week served from the cache as possibly out of date', async () => {
+    const scraper = new HipsyScraper();
+    jest.spyOn(scraper, 'getEvents').mockResolvedValue({
+      events,
+      totalCount: events.length,
+      success: true,
+      stale: true,
+      fetchedAt: '2026-10-21T08:00:00Z',
+    });
+
+    const schedule = await new WeeklyScheduleGenerator(
+      scraper,
+      createDJRepository()
+    ).generateWeeklySchedule();
+
+    expect(schedule.text).toContain('Fri: ED');
+    expect(schedule.text).toMatch(/as of Wed 21 Oct 10:00\. It may be out of date\.<\/i>$/);
+  });
+
+  it('edits the /schedule video caption in place when a button is pressed', async () => {
+    const services = { ...createCommandServices(), weeklyGenerator: createGenerator() };
+    const registry = createOdessaCommandRegistry(services);
+    const transport = createTransport();
+    const query: TelegramBot.CallbackQuery = {
+      id: 'query-1',
+      chat_instance: 'instance',
+      data: 'schedule:week:1',
+      from: { id: 42, is_bot: false, first_name: 'Dancer' },
+      message: {
+        message_id: 9,
+        date: 0,
+        chat: { id: -100123, type: 'supergroup' },
+        video: { file_id: 'video', file_unique_id: 'video', width: 1, height: 1, duration: 1 },
+      },
+    };
+
+    await expect(registry.dispatchCallback(query, transport)).resolves.toBe('handled');
+    expect(transport.editMessageCaption).toHaveBeenCalledWith(
+      -100123,
+      9,
+      expect.stringContaining('Next Week'),
+      expect.anything()
+    );
+    expect(transport.editMessageText).not.toHaveBeenCalled();
+
+    await registry.dispatchCallback({ ...query, data: 'schedule:week:99' }, transport);
+    expect(transport.answerCallbackQuery).toHaveBeenLastCalledWith(
+      'query-1',
+      'That week is out of range.'
+    );
+  });
+});
@@ -0,0 +1,72 @@
+import { DJLoader } from '../src/utils/dj-loader';
+import { WixDJLoader } from '../src/utils/wix-dj-loader';
+
+function teamResponse(titles: string[]): Response {
+  return new Response(
+    JSON.stringify({
+      dataItems: titles.map((title, index) => ({
+        _id: `${index}`,
+        data: { title, website: `https://soundcloud.com/dj-${index}` },
+      })),
+      pagingMetadata: { total: titles.length },
+    })
+  );
+}
+
+describe('WixDJLoader', () => {
+  beforeEach(() => {
+    process.env['WIX_API_KEY'] = 'key';
+    process.env['WIX_SITE_ID'] = 'site';
+    jest.useFakeTimers({ now: new Date('2026-10-21T10:00:00Z') });
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    delete process.env['WIX_API_KEY'];
+    delete process.env['WIX_SITE_ID'];
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('loads the Team collection once and answers lookups from memory', async () => {
+    const fetchMock = jest
+      .spyOn(global, 'fetch')
+      .mockImplementation(async () => teamResponse(['Samaya', 'Faralduin', 'Marifa']));
+    const roster = new DJLoader();
+    jest.spyOn(roster, 'loadDJData').mockReturnValue({ "Ma'rifa": { aliases: ['Marifa'] } });
+    const loader = new WixDJLoader(roster);
+
+    const [samaya, faralduin, byAlias, unknown] = await Promise.all([
+      loader.getProfile('samaya'),
+      loader.getProfile('Faralduín'),
+      loader.getProfile("Ma'rifa"),
+      loader.getProfile('Nobody'),
+    ]);
+
+    expect(samaya).toMatchObject({ name: 'Samaya', soundcloudUrl: 'https://soundcloud.com/dj-0' });
+    expect(faralduin).toMatchObject({ name: 'Faralduin' });
+    expect(byAlias).toMatchObject({ name: 'Marifa' });
+    expect(unknown).toBeNull();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(3600 * 1000 + 1);
+    await expect(loader.getProfile('Samaya')).resolves.toMatchObject({ name: 'Samaya' });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('finds nothing while Wix is down and tries again a minute later', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const fetchMock = jest
+      .spyOn(global, 'fetch')
+      .mockResolvedValueOnce(new Response('down', { status: 503 }))
+      .mockResolvedValueOnce(teamResponse(['Samaya']));
+    const loader = new WixDJLoader();
+
+    await expect(loader.getProfile('Samaya')).resolves.toBeNull();
+    await expect(loader.getProfile('Samaya')).resolves.toBeNull();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(60 * 1000 + 1);
+    await expect(loader.getProfile('Samaya')).resolves.toMatchObject({ name: 'Samaya' });
+  });
+});